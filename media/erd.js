@@ -0,0 +1,448 @@
+// @ts-check
+// ERD webview script: lays out the tables posted by ErdPanel and draws them as SVG, with pan, zoom and export.
+(function () {
+    // @ts-ignore - provided by the webview host
+    const vscode = acquireVsCodeApi();
+
+    /**
+     * @typedef {{ name: string; type?: string; primaryKey: boolean; foreignKey: boolean }} ErdColumn
+     * @typedef {{ name: string; columns: ErdColumn[] }} ErdTable
+     * @typedef {{ from_table: string; from_column: string; to_table: string; to_column: string }} Relationship
+     * @typedef {{ table: ErdTable; x: number; y: number; width: number; height: number }} Box
+     */
+
+    const SVG_NS = 'http://www.w3.org/2000/svg';
+    const HEADER_HEIGHT = 26;
+    const ROW_HEIGHT = 18;
+    const CHAR_WIDTH = 7;
+    const MAX_ROWS = 25;
+    const LAYER_GAP = 90;
+    const BOX_GAP = 28;
+    const MARGIN = 20;
+
+    /** @type {ErdTable[]} */
+    let tables = [];
+    /** @type {Relationship[]} */
+    let relationships = [];
+    /** @type {string[]} */
+    let allTables = [];
+    /** @type {Set<string>} */
+    let hidden = new Set();
+    let schema = '';
+    let focus = '';
+    let hops = 1;
+
+    /** @type {Map<string, Box>} */
+    let boxes = new Map();
+    let viewBox = { x: 0, y: 0, width: 100, height: 100 };
+    let diagramSize = { width: 100, height: 100 };
+
+    const canvas = /** @type {HTMLElement} */ (document.getElementById('canvas'));
+    const summary = /** @type {HTMLElement} */ (document.getElementById('summary'));
+    const focusSelect = /** @type {HTMLSelectElement} */ (document.getElementById('focus'));
+    const hopsInput = /** @type {HTMLInputElement} */ (document.getElementById('hops'));
+    const tableFilter = /** @type {HTMLInputElement} */ (document.getElementById('tableFilter'));
+    const tableList = /** @type {HTMLElement} */ (document.getElementById('tableList'));
+
+    /** Theme colors resolved now, so an exported SVG looks the same outside VS Code */
+    function themeColors() {
+        const style = getComputedStyle(document.body);
+        const color = (/** @type {string} */ name, /** @type {string} */ fallback) => style.getPropertyValue(name).trim() || fallback;
+        return {
+            background: color('--vscode-editor-background', '#ffffff'),
+            foreground: color('--vscode-editor-foreground', '#1f1f1f'),
+            muted: color('--vscode-descriptionForeground', '#717171'),
+            border: color('--vscode-panel-border', '#c8c8c8'),
+            header: color('--vscode-editorWidget-background', '#f3f3f3'),
+            accent: color('--vscode-textLink-foreground', '#3794ff'),
+            key: color('--vscode-charts-yellow', '#cca700'),
+            font: color('--vscode-editor-font-family', 'monospace')
+        };
+    }
+
+    /** @param {ErdColumn} column */
+    function columnText(column) {
+        return column.type ? `${column.name}  ${column.type}` : column.name;
+    }
+
+    /** @param {ErdTable} table */
+    function measure(table) {
+        const rows = Math.min(table.columns.length, MAX_ROWS) + (table.columns.length > MAX_ROWS ? 1 : 0);
+        const longest = Math.max(table.name.length + 2, ...table.columns.slice(0, MAX_ROWS).map(column => columnText(column).length + 4));
+        return { width: Math.max(120, longest * CHAR_WIDTH + 20), height: HEADER_HEIGHT + Math.max(rows, 1) * ROW_HEIGHT + 6 };
+    }
+
+    /**
+     * Layered layout: each connected group of tables is spread over columns by
+     * distance from its most connected table, groups are stacked vertically and
+     * tables without relationships are placed in a grid below.
+     */
+    function layout() {
+        /** @type {Map<string, Set<string>>} */
+        const neighbours = new Map(tables.map(table => [table.name, new Set()]));
+        for (const relationship of relationships) {
+            if (relationship.from_table !== relationship.to_table) {
+                neighbours.get(relationship.from_table)?.add(relationship.to_table);
+                neighbours.get(relationship.to_table)?.add(relationship.from_table);
+            }
+        }
+        const byName = new Map(tables.map(table => [table.name, table]));
+        const degree = (/** @type {string} */ name) => neighbours.get(name)?.size || 0;
+
+        boxes = new Map();
+        const placed = new Set();
+        let top = MARGIN;
+        let right = MARGIN;
+
+        const roots = [...tables].sort((a, b) => degree(b.name) - degree(a.name) || a.name.localeCompare(b.name));
+        for (const root of roots) {
+            if (placed.has(root.name) || degree(root.name) === 0) {
+                continue;
+            }
+            // Breadth-first layers from the root
+            /** @type {string[][]} */
+            const layers = [[root.name]];
+            placed.add(root.name);
+            while (true) {
+                const next = [];
+                for (const name of layers[layers.length - 1]) {
+                    for (const neighbour of [...(neighbours.get(name) || [])].sort()) {
+                        if (!placed.has(neighbour)) {
+                            placed.add(neighbour);
+                            next.push(neighbour);
+                        }
+                    }
+                }
+                if (next.length === 0) {
+                    break;
+                }
+                layers.push(next);
+            }
+
+            let x = MARGIN;
+            let groupHeight = 0;
+            for (const layer of layers) {
+                let y = top;
+                let layerWidth = 0;
+                for (const name of layer) {
+                    const table = /** @type {ErdTable} */ (byName.get(name));
+                    const size = measure(table);
+                    boxes.set(name, { table, x, y, ...size });
+                    y += size.height + BOX_GAP;
+                    layerWidth = Math.max(layerWidth, size.width);
+                }
+                groupHeight = Math.max(groupHeight, y - top);
+                x += layerWidth + LAYER_GAP;
+            }
+            right = Math.max(right, x - LAYER_GAP);
+            top += groupHeight + BOX_GAP;
+        }
+
+        // Unrelated tables in rows
+        const isolated = tables.filter(table => !placed.has(table.name));
+        const rowWidth = Math.max(right, 900);
+        let x = MARGIN;
+        let rowHeight = 0;
+        for (const table of isolated) {
+            const size = measure(table);
+            if (x > MARGIN && x + size.width > rowWidth) {
+                x = MARGIN;
+                top += rowHeight + BOX_GAP;
+                rowHeight = 0;
+            }
+            boxes.set(table.name, { table, x, y: top, ...size });
+            x += size.width + BOX_GAP;
+            right = Math.max(right, x - BOX_GAP);
+            rowHeight = Math.max(rowHeight, size.height);
+        }
+        top += rowHeight;
+
+        diagramSize = { width: right + MARGIN, height: top + MARGIN };
+    }
+
+    /**
+     * @param {string} name
+     * @param {Record<string, string | number>} attributes
+     * @param {string} [text]
+     */
+    function svgElement(name, attributes, text) {
+        const element = document.createElementNS(SVG_NS, name);
+        for (const [key, value] of Object.entries(attributes)) {
+            element.setAttribute(key, String(value));
+        }
+        if (text !== undefined) {
+            element.textContent = text;
+        }
+        return element;
+    }
+
+    /** Vertical center of a column's row, or of the header when the column is not drawn */
+    function columnY(/** @type {Box} */ box, /** @type {string} */ columnName) {
+        const index = box.table.columns.findIndex(column => column.name === columnName);
+        return index === -1 || index >= MAX_ROWS ?
+            box.y + HEADER_HEIGHT / 2 :
+            box.y + HEADER_HEIGHT + index * ROW_HEIGHT + ROW_HEIGHT / 2 + 3;
+    }
+
+    function buildSvg() {
+        const colors = themeColors();
+        const svg = svgElement('svg', {
+            width: diagramSize.width,
+            height: diagramSize.height,
+            viewBox: `0 0 ${diagramSize.width} ${diagramSize.height}`,
+            'font-family': colors.font,
+            'font-size': 12
+        });
+        svg.appendChild(svgElement('rect', { x: 0, y: 0, width: diagramSize.width, height: diagramSize.height, fill: colors.background }));
+
+        const defs = svgElement('defs', {});
+        const marker = svgElement('marker', { id: 'one', viewBox: '0 0 10 10', refX: 10, refY: 5, markerWidth: 8, markerHeight: 8, orient: 'auto-start-reverse' });
+        marker.appendChild(svgElement('path', { d: 'M 0 0 L 10 5 L 0 10 z', fill: colors.accent }));
+        defs.appendChild(marker);
+        svg.appendChild(defs);
+
+        // Relationships first, so tables are drawn over them
+        for (const relationship of relationships) {
+            const from = boxes.get(relationship.from_table);
+            const to = boxes.get(relationship.to_table);
+            if (!from || !to) {
+                continue;
+            }
+            const y1 = columnY(from, relationship.from_column);
+            const y2 = columnY(to, relationship.to_column);
+            let d;
+            if (from === to) {
+                const x = from.x + from.width;
+                d = `M ${x} ${y1} C ${x + 40} ${y1}, ${x + 40} ${y2}, ${x} ${y2}`;
+            } else {
+                const leftToRight = from.x + from.width / 2 <= to.x + to.width / 2;
+                const x1 = leftToRight ? from.x + from.width : from.x;
+                const x2 = leftToRight ? to.x : to.x + to.width;
+                const bend = Math.max(30, Math.abs(x2 - x1) / 2);
+                d = `M ${x1} ${y1} C ${x1 + (leftToRight ? bend : -bend)} ${y1}, ${x2 + (leftToRight ? -bend : bend)} ${y2}, ${x2} ${y2}`;
+            }
+            const path = svgElement('path', { d, fill: 'none', stroke: colors.accent, 'stroke-width': 1.2, 'marker-end': 'url(#one)' });
+            path.appendChild(svgElement('title', {}, `${relationship.from_table}.${relationship.from_column} → ${relationship.to_table}.${relationship.to_column}`));
+            svg.appendChild(path);
+        }
+
+        for (const box of boxes.values()) {
+            const group = svgElement('g', { class: 'table', 'data-table': box.table.name });
+            const isFocus = box.table.name === focus;
+            group.appendChild(svgElement('rect', {
+                x: box.x, y: box.y, width: box.width, height: box.height, rx: 4,
+                fill: colors.background, stroke: isFocus ? colors.accent : colors.border, 'stroke-width': isFocus ? 2 : 1
+            }));
+            group.appendChild(svgElement('rect', { x: box.x, y: box.y, width: box.width, height: HEADER_HEIGHT, rx: 4, fill: colors.header }));
+            group.appendChild(svgElement('text', { x: box.x + 10, y: box.y + 17, fill: colors.foreground, 'font-weight': 'bold' }, box.table.name));
+
+            box.table.columns.slice(0, MAX_ROWS).forEach((column, index) => {
+                const y = box.y + HEADER_HEIGHT + index * ROW_HEIGHT + 15;
+                const key = column.primaryKey ? 'PK' : column.foreignKey ? 'FK' : '';
+                if (key) {
+                    group.appendChild(svgElement('text', { x: box.x + 8, y, fill: colors.key, 'font-size': 9 }, key));
+                }
+                group.appendChild(svgElement('text', { x: box.x + 28, y, fill: colors.foreground }, column.name));
+                if (column.type) {
+                    group.appendChild(svgElement('text', { x: box.x + box.width - 8, y, fill: colors.muted, 'text-anchor': 'end' }, column.type));
+                }
+            });
+            if (box.table.columns.length > MAX_ROWS) {
+                group.appendChild(svgElement('text', {
+                    x: box.x + 28, y: box.y + HEADER_HEIGHT + MAX_ROWS * ROW_HEIGHT + 15, fill: colors.muted
+                }, `… ${box.table.columns.length - MAX_ROWS} more columns`));
+            }
+            svg.appendChild(group);
+        }
+
+        return svg;
+    }
+
+    function applyViewBox() {
+        const svg = canvas.querySelector('svg');
+        if (svg) {
+            svg.setAttribute('viewBox', `${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`);
+        }
+    }
+
+    function fit() {
+        const bounds = canvas.getBoundingClientRect();
+        const scale = Math.max(diagramSize.width / Math.max(bounds.width, 1), diagramSize.height / Math.max(bounds.height, 1), 1);
+        viewBox = { x: 0, y: 0, width: bounds.width * scale, height: bounds.height * scale };
+        applyViewBox();
+    }
+
+    /**
+     * @param {number} factor - below 1 zooms in
+     * @param {number} [centerX] - client coordinates to zoom around
+     * @param {number} [centerY]
+     */
+    function zoom(factor, centerX, centerY) {
+        const bounds = canvas.getBoundingClientRect();
+        const px = centerX === undefined ? 0.5 : (centerX - bounds.left) / bounds.width;
+        const py = centerY === undefined ? 0.5 : (centerY - bounds.top) / bounds.height;
+        const width = Math.min(Math.max(viewBox.width * factor, 50), diagramSize.width * 20);
+        const height = viewBox.height * (width / viewBox.width);
+        viewBox = {
+            x: viewBox.x + (viewBox.width - width) * px,
+            y: viewBox.y + (viewBox.height - height) * py,
+            width,
+            height
+        };
+        applyViewBox();
+    }
+
+    function render() {
+        layout();
+        const svg = buildSvg();
+        svg.setAttribute('width', '100%');
+        svg.setAttribute('height', '100%');
+        canvas.replaceChildren(svg);
+        fit();
+
+        summary.textContent = tables.length === 0 ?
+            `${schema}: no tables to show` :
+            `${schema}: ${tables.length} of ${allTables.length} tables, ${relationships.length} relationships`;
+    }
+
+    function renderControls() {
+        focusSelect.replaceChildren(new Option('(all tables)', ''), ...allTables.map(name => new Option(name, name)));
+        focusSelect.value = focus;
+        hopsInput.value = String(hops);
+        hopsInput.disabled = !focus;
+        renderTableList();
+    }
+
+    function renderTableList() {
+        const text = tableFilter.value.trim().toLowerCase();
+        const shown = new Set(tables.map(table => table.name));
+        tableList.replaceChildren(...allTables.filter(name => name.toLowerCase().includes(text)).map(name => {
+            const item = document.createElement('li');
+            const label = document.createElement('label');
+            const checkbox = document.createElement('input');
+            checkbox.type = 'checkbox';
+            checkbox.checked = !hidden.has(name);
+            checkbox.addEventListener('change', () => {
+                if (checkbox.checked) {
+                    hidden.delete(name);
+                } else {
+                    hidden.add(name);
+                }
+                postFilter();
+            });
+            label.append(checkbox, name);
+            label.title = shown.has(name) ? name : `${name} (outside the focus range or hidden)`;
+            label.classList.toggle('outside', !shown.has(name));
+            item.appendChild(label);
+            return item;
+        }));
+    }
+
+    function postFilter() {
+        vscode.postMessage({ type: 'filter', focus: focus || undefined, hops, hidden: [...hidden] });
+    }
+
+    function exportSvg() {
+        return new XMLSerializer().serializeToString(buildSvg());
+    }
+
+    function exportPng() {
+        const image = new Image();
+        const url = URL.createObjectURL(new Blob([exportSvg()], { type: 'image/svg+xml' }));
+        image.onload = () => {
+            const scale = 2;
+            const png = document.createElement('canvas');
+            png.width = diagramSize.width * scale;
+            png.height = diagramSize.height * scale;
+            const context = png.getContext('2d');
+            if (context) {
+                context.scale(scale, scale);
+                context.drawImage(image, 0, 0);
+                vscode.postMessage({ type: 'export', format: 'png', data: png.toDataURL('image/png') });
+            }
+            URL.revokeObjectURL(url);
+        };
+        image.src = url;
+    }
+
+    // Pan by dragging, zoom with the wheel
+    /** @type {{ x: number; y: number; viewX: number; viewY: number } | undefined} */
+    let drag;
+    canvas.addEventListener('mousedown', event => {
+        drag = { x: event.clientX, y: event.clientY, viewX: viewBox.x, viewY: viewBox.y };
+        canvas.classList.add('panning');
+    });
+    window.addEventListener('mousemove', event => {
+        if (!drag) {
+            return;
+        }
+        const bounds = canvas.getBoundingClientRect();
+        const scale = viewBox.width / Math.max(bounds.width, 1);
+        viewBox.x = drag.viewX - (event.clientX - drag.x) * scale;
+        viewBox.y = drag.viewY - (event.clientY - drag.y) * scale;
+        applyViewBox();
+    });
+    window.addEventListener('mouseup', () => {
+        drag = undefined;
+        canvas.classList.remove('panning');
+    });
+    canvas.addEventListener('wheel', event => {
+        event.preventDefault();
+        zoom(event.deltaY > 0 ? 1.15 : 1 / 1.15, event.clientX, event.clientY);
+    }, { passive: false });
+
+    // Double-click a table to focus on it
+    canvas.addEventListener('dblclick', event => {
+        const group = /** @type {Element | null} */ (event.target instanceof Element ? event.target.closest('g.table') : null);
+        const name = group?.getAttribute('data-table');
+        if (name) {
+            focus = name;
+            postFilter();
+        }
+    });
+
+    focusSelect.addEventListener('change', () => {
+        focus = focusSelect.value;
+        postFilter();
+    });
+    hopsInput.addEventListener('change', () => {
+        hops = Math.max(0, Number(hopsInput.value) || 0);
+        postFilter();
+    });
+    tableFilter.addEventListener('input', renderTableList);
+    /** @type {HTMLElement} */ (document.getElementById('showAll')).addEventListener('click', () => {
+        hidden = new Set();
+        focus = '';
+        postFilter();
+    });
+    /** @type {HTMLElement} */ (document.getElementById('hideAll')).addEventListener('click', () => {
+        hidden = new Set(allTables);
+        postFilter();
+    });
+    /** @type {HTMLElement} */ (document.getElementById('zoomIn')).addEventListener('click', () => zoom(1 / 1.25));
+    /** @type {HTMLElement} */ (document.getElementById('zoomOut')).addEventListener('click', () => zoom(1.25));
+    /** @type {HTMLElement} */ (document.getElementById('fit')).addEventListener('click', fit);
+    /** @type {HTMLElement} */ (document.getElementById('exportSvg')).addEventListener('click', () =>
+        vscode.postMessage({ type: 'export', format: 'svg', data: exportSvg() }));
+    /** @type {HTMLElement} */ (document.getElementById('exportPng')).addEventListener('click', exportPng);
+    /** @type {HTMLElement} */ (document.getElementById('exportMmd')).addEventListener('click', () =>
+        vscode.postMessage({ type: 'export', format: 'mmd' }));
+    window.addEventListener('resize', fit);
+
+    window.addEventListener('message', event => {
+        const message = event.data;
+        if (message.type === 'load') {
+            schema = message.schema;
+            tables = message.tables;
+            relationships = message.relationships;
+            allTables = message.allTables;
+            focus = message.focus || '';
+            hops = message.hops;
+            hidden = new Set(message.hidden);
+            renderControls();
+            render();
+        }
+    });
+
+    vscode.postMessage({ type: 'ready' });
+}());
@@ -0,0 +1,171 @@
+// @ts-check
+// Plan viewer webview script: renders the plan nodes posted by ExplainPlanPanel as a tree.
+(function () {
+    // @ts-ignore - provided by the webview host
+    const vscode = acquireVsCodeApi();
+
+    /**
+     * @typedef {{ id: number; depth: number; label: string; exclusiveCost: number; exclusiveTime?: number; totalCost: number;
+     *   planRows: number; actualRows?: number; loops?: number; costly: boolean; issues: string[]; details: [string, string][] }} PlanNode
+     */
+
+    /** @type {PlanNode[]} */
+    let nodes = [];
+    let analyzed = false;
+    /** @type {Set<number>} */
+    let collapsed = new Set();
+    let selectedId = -1;
+
+    const tree = /** @type {HTMLElement} */ (document.getElementById('tree'));
+    const summary = /** @type {HTMLElement} */ (document.getElementById('summary'));
+    const queryElement = /** @type {HTMLElement} */ (document.getElementById('query'));
+    const details = /** @type {HTMLElement} */ (document.getElementById('details'));
+    const detailsTitle = /** @type {HTMLElement} */ (document.getElementById('detailsTitle'));
+    const detailsIssues = /** @type {HTMLElement} */ (document.getElementById('detailsIssues'));
+    const detailsTable = /** @type {HTMLTableElement} */ (document.getElementById('detailsTable'));
+
+    /** @param {number} ms */
+    function formatMs(ms) {
+        return `${ms.toFixed(ms < 10 ? 3 : 1)} ms`;
+    }
+
+    /** @param {number} index */
+    function hasChildren(index) {
+        return index + 1 < nodes.length && nodes[index + 1].depth > nodes[index].depth;
+    }
+
+    /** Share of the node's own time (or cost) in the whole plan, 0..1 */
+    function weightOf(/** @type {PlanNode} */ node) {
+        const total = nodes.reduce((sum, n) => sum + (analyzed ? (n.exclusiveTime || 0) : n.exclusiveCost), 0);
+        const own = analyzed ? (node.exclusiveTime || 0) : node.exclusiveCost;
+        return total > 0 ? own / total : 0;
+    }
+
+    function render() {
+        tree.replaceChildren();
+        let hiddenBelowDepth = Infinity;
+
+        nodes.forEach((node, index) => {
+            if (node.depth > hiddenBelowDepth) {
+                return;
+            }
+            hiddenBelowDepth = collapsed.has(node.id) ? node.depth : Infinity;
+
+            const row = document.createElement('div');
+            row.className = 'node' + (node.costly ? ' costly' : '') + (node.issues.length ? ' has-issues' : '') + (node.id === selectedId ? ' selected' : '');
+            row.setAttribute('role', 'treeitem');
+            row.style.paddingLeft = `${node.depth * 18 + 4}px`;
+
+            const twisty = document.createElement('span');
+            twisty.className = 'twisty';
+            if (hasChildren(index)) {
+                twisty.textContent = collapsed.has(node.id) ? '▸' : '▾';
+                twisty.addEventListener('click', event => {
+                    event.stopPropagation();
+                    if (collapsed.has(node.id)) {
+                        collapsed.delete(node.id);
+                    } else {
+                        collapsed.add(node.id);
+                    }
+                    render();
+                });
+            }
+
+            const label = document.createElement('span');
+            label.className = 'label';
+            label.textContent = node.label;
+
+            const metrics = document.createElement('span');
+            metrics.className = 'metrics';
+            metrics.textContent = analyzed ?
+                `${formatMs(node.exclusiveTime || 0)} · rows ${node.actualRows ?? 0} of ~${node.planRows}${node.loops && node.loops > 1 ? ` × ${node.loops} loops` : ''}` :
+                `cost ${node.exclusiveCost.toFixed(2)} (total ${node.totalCost.toFixed(2)}) · ~${node.planRows} rows`;
+
+            const bar = document.createElement('span');
+            bar.className = 'bar';
+            const fill = document.createElement('span');
+            fill.className = 'fill';
+            fill.style.width = `${Math.round(weightOf(node) * 100)}%`;
+            bar.appendChild(fill);
+
+            row.append(twisty, label, metrics, bar);
+            if (node.issues.length) {
+                const badge = document.createElement('span');
+                badge.className = 'badge';
+                badge.textContent = '⚠';
+                badge.title = node.issues.join('\n');
+                row.appendChild(badge);
+            }
+
+            row.addEventListener('click', () => {
+                selectedId = node.id;
+                showDetails(node);
+                render();
+            });
+            tree.appendChild(row);
+        });
+    }
+
+    /** @param {PlanNode} node */
+    function showDetails(node) {
+        detailsTitle.textContent = node.label;
+        detailsIssues.replaceChildren(...node.issues.map(issue => {
+            const item = document.createElement('li');
+            item.textContent = issue;
+            return item;
+        }));
+
+        /** @type {[string, string][]} */
+        const rows = [
+            ['Self ' + (analyzed ? 'time' : 'cost'), analyzed ? formatMs(node.exclusiveTime || 0) : node.exclusiveCost.toFixed(2)],
+            ['Total cost', node.totalCost.toFixed(2)],
+            ['Estimated rows', String(node.planRows)],
+            ...(analyzed ? /** @type {[string, string][]} */ ([['Actual rows', String(node.actualRows ?? 0)], ['Loops', String(node.loops ?? 1)]]) : []),
+            ...node.details
+        ];
+        detailsTable.replaceChildren(...rows.map(([key, value]) => {
+            const tr = document.createElement('tr');
+            const th = document.createElement('th');
+            th.textContent = key;
+            const td = document.createElement('td');
+            td.textContent = value;
+            tr.append(th, td);
+            return tr;
+        }));
+        details.hidden = false;
+    }
+
+    /** @type {HTMLElement} */ (document.getElementById('expandAll')).addEventListener('click', () => {
+        collapsed.clear();
+        render();
+    });
+
+    /** @type {HTMLElement} */ (document.getElementById('collapseAll')).addEventListener('click', () => {
+        collapsed = new Set(nodes.filter((_, index) => index > 0 && hasChildren(index)).map(node => node.id));
+        render();
+    });
+
+    window.addEventListener('message', event => {
+        const message = event.data;
+        if (message.type === 'load') {
+            nodes = message.nodes;
+            analyzed = message.analyzed;
+            collapsed = new Set();
+            selectedId = -1;
+            details.hidden = true;
+            queryElement.textContent = message.query;
+
+            let text = `${analyzed ? 'EXPLAIN ANALYZE' : 'EXPLAIN'} · ${nodes.length} nodes · profile ${message.profile}`;
+            if (message.planningTime !== undefined) {
+                text += ` · planning ${formatMs(message.planningTime)}`;
+            }
+            if (message.executionTime !== undefined) {
+                text += ` · execution ${formatMs(message.executionTime)}`;
+            }
+            summary.textContent = text;
+            render();
+        }
+    });
+
+    vscode.postMessage({ type: 'ready' });
+}());
@@ -0,0 +1,350 @@
+// @ts-check
+// Result grid webview script: renders the rows posted by QueryResultPanel.
+(function () {
+    // @ts-ignore - provided by the webview host
+    const vscode = acquireVsCodeApi();
+
+    const PAGE_SIZE = 500;
+
+    /** @type {{ columns: { name: string; type: string; category: string }[]; rows: Record<string, unknown>[]; query: string } | undefined} */
+    let data;
+    let sortColumn = -1;
+    let sortDirection = 1;
+    let globalFilter = '';
+    /** @type {string[]} */
+    let columnFilters = [];
+    /** @type {number[]} */
+    let visibleRows = [];
+    let renderLimit = PAGE_SIZE;
+
+    const grid = /** @type {HTMLTableElement} */ (document.getElementById('grid'));
+    const summary = /** @type {HTMLElement} */ (document.getElementById('summary'));
+    const queryElement = /** @type {HTMLElement} */ (document.getElementById('query'));
+    const filterInput = /** @type {HTMLInputElement} */ (document.getElementById('filter'));
+    const showMore = /** @type {HTMLButtonElement} */ (document.getElementById('showMore'));
+    const loadMore = /** @type {HTMLButtonElement} */ (document.getElementById('loadMore'));
+    const inspector = /** @type {HTMLElement} */ (document.getElementById('inspector'));
+    const inspectorTitle = /** @type {HTMLElement} */ (document.getElementById('inspectorTitle'));
+    const inspectorValue = /** @type {HTMLElement} */ (document.getElementById('inspectorValue'));
+
+    /** @param {unknown} value */
+    function isBuffer(value) {
+        return !!value && typeof value === 'object' && /** @type {any} */ (value).type === 'Buffer' && Array.isArray(/** @type {any} */ (value).data);
+    }
+
+    /** @param {unknown} value */
+    function formatValue(value) {
+        if (value === null || value === undefined) {
+            return 'NULL';
+        }
+        if (isBuffer(value)) {
+            return '\\x' + /** @type {any} */ (value).data.map((/** @type {number} */ b) => b.toString(16).padStart(2, '0')).join('');
+        }
+        if (typeof value === 'object') {
+            return JSON.stringify(value);
+        }
+        return String(value);
+    }
+
+    /**
+     * Pretty representation for the inspector: JSON is indented, JSON strings are parsed first.
+     * @param {unknown} value
+     * @param {string} category
+     */
+    function inspectValue(value, category) {
+        if (value !== null && typeof value === 'object' && !isBuffer(value)) {
+            return JSON.stringify(value, null, 2);
+        }
+        if (typeof value === 'string' && category === 'json') {
+            try {
+                return JSON.stringify(JSON.parse(value), null, 2);
+            } catch {
+                return value;
+            }
+        }
+        return formatValue(value);
+    }
+
+    /**
+     * @param {unknown} a
+     * @param {unknown} b
+     * @param {string} category
+     */
+    function compareValues(a, b, category) {
+        const aNull = a === null || a === undefined;
+        const bNull = b === null || b === undefined;
+        if (aNull || bNull) {
+            return aNull && bNull ? 0 : aNull ? 1 : -1;
+        }
+        if (category === 'number') {
+            const diff = Number(a) - Number(b);
+            if (!isNaN(diff)) {
+                return diff;
+            }
+        }
+        if (category === 'boolean') {
+            return Number(a) - Number(b);
+        }
+        return formatValue(a).localeCompare(formatValue(b), undefined, { numeric: true });
+    }
+
+    function computeVisibleRows() {
+        if (!data) {
+            visibleRows = [];
+            return;
+        }
+        const columns = data.columns;
+        const rows = data.rows;
+        const needle = globalFilter.toLowerCase();
+
+        visibleRows = rows.map((_, index) => index).filter(index => {
+            const row = rows[index];
+            if (needle && !columns.some(column => formatValue(row[column.name]).toLowerCase().includes(needle))) {
+                return false;
+            }
+            return columns.every((column, i) => {
+                const filter = (columnFilters[i] || '').toLowerCase();
+                return !filter || formatValue(row[column.name]).toLowerCase().includes(filter);
+            });
+        });
+
+        if (sortColumn >= 0) {
+            const column = columns[sortColumn];
+            visibleRows.sort((a, b) => sortDirection * compareValues(rows[a][column.name], rows[b][column.name], column.category));
+        }
+    }
+
+    function renderHeader() {
+        if (!data) {
+            return;
+        }
+        const thead = document.createElement('thead');
+        const titleRow = document.createElement('tr');
+        const filterRow = document.createElement('tr');
+        filterRow.className = 'filters';
+
+        const rowNumberHeader = document.createElement('th');
+        rowNumberHeader.className = 'row-number';
+        rowNumberHeader.textContent = '#';
+        titleRow.appendChild(rowNumberHeader);
+        filterRow.appendChild(document.createElement('th'));
+
+        data.columns.forEach((column, index) => {
+            const th = document.createElement('th');
+            th.className = `type-${column.category}`;
+            th.title = `${column.name} (${column.type}) — click to sort`;
+
+            const label = document.createElement('span');
+            label.className = 'column-name';
+            label.textContent = column.name + (sortColumn === index ? (sortDirection === 1 ? ' ▲' : ' ▼') : '');
+            const type = document.createElement('span');
+            type.className = 'column-type';
+            type.textContent = column.type;
+            th.append(label, type);
+
+            th.addEventListener('click', event => {
+                if (/** @type {HTMLElement} */ (event.target).classList.contains('resizer')) {
+                    return;
+                }
+                if (sortColumn === index) {
+                    sortDirection = -sortDirection;
+                } else {
+                    sortColumn = index;
+                    sortDirection = 1;
+                }
+                refresh();
+            });
+
+            const resizer = document.createElement('div');
+            resizer.className = 'resizer';
+            resizer.addEventListener('mousedown', event => startResize(event, th));
+            th.appendChild(resizer);
+            titleRow.appendChild(th);
+
+            const filterCell = document.createElement('th');
+            const input = document.createElement('input');
+            input.type = 'search';
+            input.placeholder = 'Filter';
+            input.value = columnFilters[index] || '';
+            input.addEventListener('input', () => {
+                columnFilters[index] = input.value;
+                refreshBody();
+            });
+            filterCell.appendChild(input);
+            filterRow.appendChild(filterCell);
+        });
+
+        thead.append(titleRow, filterRow);
+        const existing = grid.querySelector('thead');
+        if (existing) {
+            grid.replaceChild(thead, existing);
+        } else {
+            grid.prepend(thead);
+        }
+    }
+
+    function renderBody() {
+        if (!data) {
+            return;
+        }
+        const columns = data.columns;
+        const tbody = document.createElement('tbody');
+
+        for (const index of visibleRows.slice(0, renderLimit)) {
+            const row = data.rows[index];
+            const tr = document.createElement('tr');
+
+            const rowNumber = document.createElement('td');
+            rowNumber.className = 'row-number';
+            rowNumber.textContent = String(index + 1);
+            tr.appendChild(rowNumber);
+
+            for (const column of columns) {
+                const value = row[column.name];
+                const td = document.createElement('td');
+                td.className = `type-${column.category}` + (value === null || value === undefined ? ' null' : '');
+                td.textContent = formatValue(value);
+                td.addEventListener('click', () => showInspector(column, value, index));
+                tr.appendChild(td);
+            }
+            tbody.appendChild(tr);
+        }
+
+        const existing = grid.querySelector('tbody');
+        if (existing) {
+            grid.replaceChild(tbody, existing);
+        } else {
+            grid.appendChild(tbody);
+        }
+
+        showMore.hidden = visibleRows.length <= renderLimit;
+        showMore.textContent = `Show more rows (${Math.min(renderLimit, visibleRows.length)} of ${visibleRows.length} shown)`;
+
+        // Further pages are fetched from the server once every loaded row is shown
+        const page = /** @type {any} */ (data).page;
+        loadMore.hidden = !page || !page.hasMore || !showMore.hidden;
+    }
+
+    function renderSummary() {
+        if (!data) {
+            return;
+        }
+        const message = /** @type {any} */ (data);
+        let text = `${data.rows.length} rows · ${data.columns.length} columns · profile ${message.profile}`;
+        if (message.page) {
+            text = `rows ${message.page.offset + 1}–${message.page.offset + data.rows.length}${message.page.hasMore ? ' (more available)' : ''} · ${data.columns.length} columns · profile ${message.profile}`;
+        } else if (message.wasLimited) {
+            text += ` · limited from ${message.totalRowCount} total rows`;
+        }
+        if (visibleRows.length !== data.rows.length) {
+            text += ` · ${visibleRows.length} matching`;
+        }
+        summary.textContent = text;
+    }
+
+    function refreshBody() {
+        computeVisibleRows();
+        renderLimit = PAGE_SIZE;
+        renderBody();
+        renderSummary();
+    }
+
+    function refresh() {
+        renderHeader();
+        refreshBody();
+    }
+
+    /**
+     * @param {{ name: string; type: string; category: string }} column
+     * @param {unknown} value
+     * @param {number} rowIndex
+     */
+    function showInspector(column, value, rowIndex) {
+        inspectorTitle.textContent = `Row ${rowIndex + 1} · ${column.name} (${column.type})`;
+        inspectorValue.textContent = inspectValue(value, column.category);
+        inspector.hidden = false;
+    }
+
+    /**
+     * @param {MouseEvent} event
+     * @param {HTMLElement} th
+     */
+    function startResize(event, th) {
+        event.preventDefault();
+        event.stopPropagation();
+        const startX = event.clientX;
+        const startWidth = th.offsetWidth;
+
+        /** @param {MouseEvent} moveEvent */
+        const onMove = moveEvent => {
+            th.style.width = `${Math.max(40, startWidth + moveEvent.clientX - startX)}px`;
+        };
+        const onUp = () => {
+            document.removeEventListener('mousemove', onMove);
+            document.removeEventListener('mouseup', onUp);
+        };
+        document.addEventListener('mousemove', onMove);
+        document.addEventListener('mouseup', onUp);
+    }
+
+    filterInput.addEventListener('input', () => {
+        globalFilter = filterInput.value;
+        refreshBody();
+    });
+
+    showMore.addEventListener('click', () => {
+        renderLimit += PAGE_SIZE;
+        renderBody();
+    });
+
+    loadMore.addEventListener('click', () => {
+        loadMore.disabled = true;
+        loadMore.textContent = 'Loading...';
+        vscode.postMessage({ type: 'loadMore' });
+    });
+
+    document.querySelectorAll('[data-export]').forEach(button => {
+        button.addEventListener('click', () => {
+            vscode.postMessage({
+                type: 'export',
+                format: /** @type {HTMLElement} */ (button).dataset.export,
+                rowIndexes: visibleRows
+            });
+        });
+    });
+
+    /** @type {HTMLElement} */ (document.getElementById('closeInspector')).addEventListener('click', () => {
+        inspector.hidden = true;
+    });
+
+    /** @type {HTMLElement} */ (document.getElementById('copyValue')).addEventListener('click', () => {
+        navigator.clipboard.writeText(inspectorValue.textContent || '');
+    });
+
+    window.addEventListener('message', event => {
+        const message = event.data;
+        if (message.type === 'load') {
+            data = message;
+            sortColumn = -1;
+            sortDirection = 1;
+            globalFilter = '';
+            filterInput.value = '';
+            columnFilters = [];
+            inspector.hidden = true;
+            queryElement.textContent = message.query;
+            grid.replaceChildren();
+            refresh();
+        } else if (message.type === 'append' && data && /** @type {any} */ (data).id === message.id) {
+            data.rows.push(...message.rows);
+            /** @type {any} */ (data).page.hasMore = message.hasMore;
+            loadMore.disabled = false;
+            loadMore.textContent = 'Load next page';
+            computeVisibleRows();
+            renderLimit += message.rows.length;
+            renderBody();
+            renderSummary();
+        }
+    });
+
+    vscode.postMessage({ type: 'ready' });
+}());
@@ -0,0 +1,283 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { McpClient, McpToolCallRecord } from '../mcpClient';
+import { tokenizeSql } from '../sql';
+
+export type ConfirmationDecision = 'requested' | 'approved' | 'declined';
+
+export type ElicitationAction = 'accept' | 'decline' | 'cancel';
+
+/** A request the server sent to the extension: a sampling (LLM) request or an elicitation of user input */
+export type ServerRequestRecord =
+    | {
+        event: 'sampling';
+        profile: string;
+        tool: 'sampling/createMessage';
+        /** Message count, token limit and model hints; message text is not logged */
+        params: Record<string, unknown>;
+        decision: Exclude<ConfirmationDecision, 'requested'>;
+        model?: string;
+        durationMs?: number;
+        error?: string;
+    }
+    | {
+        event: 'elicitation';
+        profile: string;
+        tool: 'elicitation/create';
+        /** Message and requested field names; the user's answers are not logged */
+        params: Record<string, unknown>;
+        action: ElicitationAction;
+    };
+
+export type AuditRecord =
+    | ({ time: string; event: 'toolCall' } & McpToolCallRecord)
+    | { time: string; event: 'confirmation'; profile: string; tool: string; params: Record<string, unknown>; decision: ConfirmationDecision }
+    | ({ time: string } & ServerRequestRecord);
+
+const GLOBAL_LOG_FILE = 'audit.jsonl';
+/** Parameters holding SQL text, redacted when `toolsBridger.auditLog.redactSqlLiterals` is on */
+const SQL_PARAMETERS = new Set(['query', 'sql', 'statement']);
+/** Confirmations waiting for a decision; older ones are forgotten (the user may never answer) */
+const MAX_PENDING_CONFIRMATIONS = 50;
+/** Records listed by the "Show Audit Log" command, newest first */
+const MAX_LISTED_RECORDS = 1000;
+
+function auditConfig() {
+    return vscode.workspace.getConfiguration('toolsBridger.auditLog');
+}
+
+/** Replace string and numeric literals in SQL with `?`, keeping keywords and identifiers */
+export function redactSqlLiterals(sql: string): string {
+    let redacted = '';
+    let last = 0;
+    for (const token of tokenizeSql(sql)) {
+        if (token.type === 'string' || token.type === 'number') {
+            redacted += `${sql.slice(last, token.start)}?`;
+            last = token.end;
+        }
+    }
+    return redacted + sql.slice(last);
+}
+
+function redactParams(params: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(params).map(([name, value]) =>
+        [name, SQL_PARAMETERS.has(name) && typeof value === 'string' ? redactSqlLiterals(value) : value]
+    ));
+}
+
+function confirmationKey(tool: string, params: unknown): string {
+    return `${tool}\n${JSON.stringify(params ?? {})}`;
+}
+
+/**
+ * Append-only audit trail of every MCP tool call, every confirmation the user
+ * was asked for and every sampling or elicitation request of the server, written as JSON Lines to a file and summarized in the
+ * "Tools Bridger Audit" output channel.
+ */
+export class AuditLog implements vscode.Disposable {
+    private readonly output = vscode.window.createOutputChannel('Tools Bridger Audit', { log: true });
+    private readonly pendingConfirmations = new Map<string, string>();
+    private readonly listener: vscode.Disposable;
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(private mcpClient: McpClient, private globalStorageUri: vscode.Uri) {
+        this.listener = mcpClient.onDidCallTool(call => this.append({ time: new Date().toISOString(), event: 'toolCall', ...call }));
+    }
+
+    /** File the records are appended to; by default outside the workspace so it is never committed */
+    getLogPath(): string {
+        const configured = auditConfig().get<string>('path', '').trim();
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (configured && path.isAbsolute(configured)) {
+            return configured;
+        }
+        if (configured && workspaceFolder) {
+            return path.join(workspaceFolder, configured);
+        }
+        return path.join(this.globalStorageUri.fsPath, configured || GLOBAL_LOG_FILE);
+    }
+
+    /** Record that a tool asked the user for confirmation */
+    confirmationRequested(tool: string, params: Record<string, unknown>) {
+        const key = confirmationKey(tool, params);
+        this.pendingConfirmations.delete(key);
+        this.pendingConfirmations.set(key, this.mcpClient.getActiveProfile().name);
+        if (this.pendingConfirmations.size > MAX_PENDING_CONFIRMATIONS) {
+            this.pendingConfirmations.delete(this.pendingConfirmations.keys().next().value as string);
+        }
+        this.appendConfirmation(tool, params, 'requested');
+    }
+
+    /**
+     * Record the user's answer to a pending confirmation. Tools call this with
+     * `approved` whenever they run, so it is a no-op without a pending request.
+     */
+    confirmationResolved(tool: string, params: Record<string, unknown>, approved: boolean) {
+        const key = confirmationKey(tool, params);
+        const profile = this.pendingConfirmations.get(key);
+        if (profile === undefined) {
+            return;
+        }
+        this.pendingConfirmations.delete(key);
+        this.appendConfirmation(tool, params, approved ? 'approved' : 'declined', profile);
+    }
+
+    /** Record how a sampling or elicitation request of the server was handled */
+    serverRequestHandled(record: ServerRequestRecord) {
+        this.append({ time: new Date().toISOString(), ...record });
+    }
+
+    /** Records of the log file, newest first */
+    async readRecords(): Promise<AuditRecord[]> {
+        let text: string;
+        try {
+            text = await fs.readFile(this.getLogPath(), 'utf8');
+        } catch {
+            return [];
+        }
+        const records: AuditRecord[] = [];
+        for (const line of text.split('\n')) {
+            if (!line.trim()) {
+                continue;
+            }
+            try {
+                records.push(JSON.parse(line) as AuditRecord);
+            } catch {
+                // Skip a partially written line
+            }
+        }
+        return records.reverse();
+    }
+
+    showOutput() {
+        this.output.show(true);
+    }
+
+    private appendConfirmation(tool: string, params: Record<string, unknown>, decision: ConfirmationDecision, profile = this.mcpClient.getActiveProfile().name) {
+        this.append({ time: new Date().toISOString(), event: 'confirmation', profile, tool, params, decision });
+    }
+
+    private append(record: AuditRecord) {
+        if (!auditConfig().get<boolean>('enabled', true)) {
+            return;
+        }
+        const logged: AuditRecord = auditConfig().get<boolean>('redactSqlLiterals', false) ?
+            { ...record, params: redactParams(record.params) } :
+            record;
+
+        if (logged.event === 'toolCall') {
+            const outcome = logged.error ?
+                (logged.cancelled ? 'cancelled' : `failed: ${logged.error}`) :
+                `${logged.resultSize ?? 0} chars`;
+            const line = `[${logged.profile}] ${logged.tool} ${JSON.stringify(logged.params)} · ${logged.durationMs} ms · ${outcome}`;
+            if (logged.error && !logged.cancelled) {
+                this.output.error(line);
+            } else {
+                this.output.info(line);
+            }
+        } else if (logged.event === 'sampling') {
+            const outcome = logged.error ? `failed: ${logged.error}` : logged.decision;
+            const line = `[${logged.profile}] sampling ${outcome}${logged.model ? ` · ${logged.model}` : ''}${logged.durationMs !== undefined ? ` · ${logged.durationMs} ms` : ''} ${JSON.stringify(logged.params)}`;
+            if (logged.error) {
+                this.output.error(line);
+            } else {
+                this.output.info(line);
+            }
+        } else if (logged.event === 'elicitation') {
+            this.output.info(`[${logged.profile}] elicitation ${logged.action}: ${JSON.stringify(logged.params)}`);
+        } else {
+            this.output.info(`[${logged.profile}] confirmation ${logged.decision}: ${logged.tool} ${JSON.stringify(logged.params)}`);
+        }
+
+        // Appends are chained so records keep their order in the file
+        const logPath = this.getLogPath();
+        this.writing = this.writing
+            .then(async () => {
+                await fs.mkdir(path.dirname(logPath), { recursive: true });
+                await fs.appendFile(logPath, `${JSON.stringify(logged)}\n`, 'utf8');
+            })
+            .catch(error => this.output.error(`Failed to write audit log ${logPath}: ${error instanceof Error ? error.message : error}`));
+    }
+
+    dispose() {
+        this.listener.dispose();
+        this.output.dispose();
+    }
+}
+
+function describeRecord(record: AuditRecord): vscode.QuickPickItem {
+    const time = new Date(record.time).toLocaleString();
+    if (record.event === 'confirmation') {
+        return {
+            label: `$(shield) ${record.tool}`,
+            description: `confirmation ${record.decision} · ${record.profile} · ${time}`,
+            detail: JSON.stringify(record.params)
+        };
+    }
+    if (record.event === 'sampling') {
+        return {
+            label: `${record.error ? '$(error)' : '$(sparkle)'} ${record.tool}`,
+            description: `${record.error ? `failed: ${record.error}` : record.decision}${record.model ? ` · ${record.model}` : ''} · ${record.profile} · ${time}`,
+            detail: JSON.stringify(record.params)
+        };
+    }
+    if (record.event === 'elicitation') {
+        return {
+            label: `$(question) ${record.tool}`,
+            description: `${record.action} · ${record.profile} · ${time}`,
+            detail: JSON.stringify(record.params)
+        };
+    }
+    const outcome = record.error ?
+        (record.cancelled ? 'cancelled' : `failed: ${record.error}`) :
+        `${record.resultSize ?? 0} chars`;
+    return {
+        label: `${record.error && !record.cancelled ? '$(error)' : '$(tools)'} ${record.tool}`,
+        description: `${record.durationMs} ms · ${outcome} · ${record.profile} · ${time}`,
+        detail: JSON.stringify(record.params)
+    };
+}
+
+/** Let the user search the audit log and open a record, the file or the output channel */
+async function showAuditLog(auditLog: AuditLog) {
+    const records = (await auditLog.readRecords()).slice(0, MAX_LISTED_RECORDS);
+    type AuditItem = vscode.QuickPickItem & { record?: AuditRecord; action?: 'file' | 'output' };
+
+    const items: AuditItem[] = [
+        { label: '$(go-to-file) Open Log File', description: auditLog.getLogPath(), action: 'file' },
+        { label: '$(output) Show Output Channel', action: 'output' },
+        { label: records.length > 0 ? 'Records' : 'No records yet', kind: vscode.QuickPickItemKind.Separator },
+        ...records.map(record => ({ ...describeRecord(record), record }))
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+        title: 'MCP Audit Log',
+        placeHolder: 'Filter by tool, profile, decision, error or parameters',
+        matchOnDescription: true,
+        matchOnDetail: true
+    });
+    if (!selected) {
+        return;
+    }
+
+    if (selected.action === 'output') {
+        auditLog.showOutput();
+    } else if (selected.action === 'file') {
+        try {
+            await vscode.window.showTextDocument(vscode.Uri.file(auditLog.getLogPath()));
+        } catch {
+            vscode.window.showInformationMessage('The audit log file has not been written yet.');
+        }
+    } else if (selected.record) {
+        const document = await vscode.workspace.openTextDocument({ content: JSON.stringify(selected.record, null, 2), language: 'json' });
+        await vscode.window.showTextDocument(document, { preview: true });
+    }
+}
+
+/** Register the command to browse the audit log */
+export function registerAuditLogCommands(context: vscode.ExtensionContext, auditLog: AuditLog) {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('toolsBridger.showAuditLog', () => showAuditLog(auditLog))
+    );
+}
@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import { McpClient } from '../mcpClient';
+import { SchemaCache } from '../schemaCache';
+import {
+    DescribeFunctionResponse,
+    DescribeSchemaResponse,
+    ListConstraintsResponse,
+    ListFunctionsResponse,
+    ListIndexesResponse,
+    ListViewsResponse,
+    RunQueryResponse,
+    TableInfo,
+    ViewInfo
+} from '../types';
+import {
+    describeFunctionQuery,
+    listConstraintsQuery,
+    listFunctionsQuery,
+    listIndexesQuery,
+    listViewsQuery,
+    toConstraintInfo,
+    toFunctionDetails,
+    toFunctionInfo,
+    toIndexInfo,
+    toViewInfo
+} from './catalogQueries';
+
+/** Client id of catalog fallback queries sent through `run_query` */
+const CATALOG_CLIENT_ID = 'vscode-tools-bridger-catalog';
+
+/**
+ * Index, view, function and constraint metadata. Each lookup uses the MCP
+ * server's dedicated tool when it advertises one, and otherwise queries the
+ * PostgreSQL catalog through `run_query`. Results go through the schema cache.
+ */
+export class CatalogIntrospector {
+    constructor(private mcpClient: McpClient, private schemaCache: SchemaCache) {}
+
+    listIndexes(schema: string, table?: string, token?: vscode.CancellationToken): Promise<ListIndexesResponse> {
+        return this.load('list_indexes', { schema, table }, async loadToken => ({
+            indexes: (await this.query(listIndexesQuery(schema, table), loadToken)).map(toIndexInfo)
+        }), token);
+    }
+
+    listViews(schema: string, token?: vscode.CancellationToken): Promise<ListViewsResponse> {
+        return this.load('list_views', { schema }, async loadToken => ({
+            views: (await this.query(listViewsQuery(schema), loadToken)).map(toViewInfo)
+        }), token);
+    }
+
+    listFunctions(schema: string, token?: vscode.CancellationToken): Promise<ListFunctionsResponse> {
+        return this.load('list_functions', { schema }, async loadToken => ({
+            functions: (await this.query(listFunctionsQuery(schema), loadToken)).map(toFunctionInfo)
+        }), token);
+    }
+
+    describeFunction(schema: string, name: string, token?: vscode.CancellationToken): Promise<DescribeFunctionResponse> {
+        return this.load('describe_function', { schema, name }, async loadToken => ({
+            functions: (await this.query(describeFunctionQuery(schema, name), loadToken)).map(toFunctionDetails)
+        }), token);
+    }
+
+    listConstraints(schema: string, table?: string, token?: vscode.CancellationToken): Promise<ListConstraintsResponse> {
+        return this.load('list_constraints', { schema, table }, async loadToken => ({
+            constraints: (await this.query(listConstraintsQuery(schema, table), loadToken)).map(toConstraintInfo)
+        }), token);
+    }
+
+    /** Tables from the ERD data, plus views and functions of the schema */
+    describeSchema(schema: string, token?: vscode.CancellationToken): Promise<DescribeSchemaResponse> {
+        return this.load('describe_schema', { schema }, async loadToken => {
+            const [erd, views, functions] = await Promise.all([
+                this.schemaCache.generateErdJson(schema, loadToken),
+                this.listViews(schema, loadToken),
+                this.listFunctions(schema, loadToken)
+            ]);
+            return {
+                tables: erd.tables,
+                views: views.views.map(viewAsTable),
+                functions: functions.functions
+            };
+        }, token);
+    }
+
+    private load<T>(
+        toolName: string,
+        params: Record<string, unknown>,
+        fallback: (token?: vscode.CancellationToken) => Promise<T>,
+        token?: vscode.CancellationToken
+    ): Promise<T> {
+        const toolParams = Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined));
+        return this.schemaCache.cached<T>(toolName, toolParams, async (loadToken, profile) => {
+            if (await this.hasServerTool(toolName, loadToken)) {
+                return this.mcpClient.json<T>(toolName, toolParams, { token: loadToken }, profile);
+            }
+            return fallback(loadToken);
+        }, token);
+    }
+
+    private async hasServerTool(toolName: string, token?: vscode.CancellationToken): Promise<boolean> {
+        const tools = await this.schemaCache.cached('tools/list', {}, (_loadToken, profile) => this.mcpClient.listTools(profile), token);
+        return tools.some(tool => tool.name === toolName);
+    }
+
+    private async query(sql: string, token?: vscode.CancellationToken): Promise<Record<string, unknown>[]> {
+        const result = await this.mcpClient.json<RunQueryResponse>('run_query', { query: sql, clientId: CATALOG_CLIENT_ID }, { token });
+        return Array.isArray(result?.rows) ? result.rows : [];
+    }
+}
+
+function viewAsTable(view: ViewInfo): TableInfo {
+    return { name: view.name, columns: view.columns, primary_keys: [], foreign_keys: [] };
+}
@@ -0,0 +1,221 @@
+import { sqlLiteral } from '../results/resultExport';
+import {
+    ConstraintInfo,
+    FunctionDetails,
+    FunctionInfo,
+    FunctionParameter,
+    IndexInfo,
+    ViewInfo
+} from '../types';
+
+/*
+ * Catalog queries used when the MCP server has no dedicated introspection tool.
+ * They run through `run_query`, so values are inlined as quoted literals.
+ */
+
+type CatalogRow = Record<string, unknown>;
+
+function tableFilter(column: string, table?: string): string {
+    return table ? ` AND ${column} = ${sqlLiteral(table)}` : '';
+}
+
+/** node-postgres parses text[] into arrays, but a server may also return the array literal */
+function toStringArray(value: unknown): string[] {
+    if (Array.isArray(value)) {
+        return value.map(String);
+    }
+    if (typeof value === 'string' && value.startsWith('{') && value.endsWith('}')) {
+        const body = value.slice(1, -1);
+        return body ? body.split(',').map(item => item.replace(/^"(.*)"$/, '$1')) : [];
+    }
+    return [];
+}
+
+function toOptionalString(value: unknown): string | undefined {
+    return value === null || value === undefined ? undefined : String(value);
+}
+
+export function listIndexesQuery(schema: string, table?: string): string {
+    return `SELECT i.relname AS name, t.relname AS table_name, ix.indisunique AS is_unique, ix.indisprimary AS is_primary,
+    am.amname AS index_type, pg_get_indexdef(ix.indexrelid) AS definition,
+    ARRAY(SELECT pg_get_indexdef(ix.indexrelid, k + 1, true) FROM generate_subscripts(ix.indkey, 1) AS k ORDER BY k) AS columns
+FROM pg_index ix
+JOIN pg_class i ON i.oid = ix.indexrelid
+JOIN pg_class t ON t.oid = ix.indrelid
+JOIN pg_namespace n ON n.oid = t.relnamespace
+JOIN pg_am am ON am.oid = i.relam
+WHERE n.nspname = ${sqlLiteral(schema)}${tableFilter('t.relname', table)}
+ORDER BY t.relname, i.relname`;
+}
+
+export function toIndexInfo(row: CatalogRow): IndexInfo {
+    return {
+        name: String(row.name),
+        table: String(row.table_name),
+        columns: toStringArray(row.columns),
+        unique: row.is_unique === true,
+        primary: row.is_primary === true,
+        type: String(row.index_type),
+        definition: toOptionalString(row.definition)
+    };
+}
+
+export function listViewsQuery(schema: string): string {
+    return `SELECT c.relname AS name, c.relkind = 'm' AS materialized, pg_get_viewdef(c.oid, true) AS definition,
+    obj_description(c.oid, 'pg_class') AS description,
+    ARRAY(SELECT a.attname::text FROM pg_attribute a WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped ORDER BY a.attnum) AS columns
+FROM pg_class c
+JOIN pg_namespace n ON n.oid = c.relnamespace
+WHERE n.nspname = ${sqlLiteral(schema)} AND c.relkind IN ('v', 'm')
+ORDER BY c.relname`;
+}
+
+export function toViewInfo(row: CatalogRow): ViewInfo {
+    return {
+        name: String(row.name),
+        materialized: row.materialized === true,
+        columns: toStringArray(row.columns),
+        definition: toOptionalString(row.definition),
+        description: toOptionalString(row.description)
+    };
+}
+
+const FUNCTION_COLUMNS = `p.proname AS name, n.nspname AS schema, pg_get_function_result(p.oid) AS return_type,
+    pg_get_function_arguments(p.oid) AS arguments, COALESCE(p.proargnames, ARRAY[]::text[]) AS argument_names,
+    CASE p.prokind WHEN 'p' THEN 'procedure' WHEN 'a' THEN 'aggregate' WHEN 'w' THEN 'window' ELSE 'function' END AS kind,
+    obj_description(p.oid, 'pg_proc') AS description`;
+
+export function listFunctionsQuery(schema: string): string {
+    return `SELECT ${FUNCTION_COLUMNS}
+FROM pg_proc p
+JOIN pg_namespace n ON n.oid = p.pronamespace
+WHERE n.nspname = ${sqlLiteral(schema)}
+ORDER BY p.proname, pg_get_function_arguments(p.oid)`;
+}
+
+export function describeFunctionQuery(schema: string, name: string): string {
+    return `SELECT ${FUNCTION_COLUMNS}, l.lanname AS language, p.prosecdef AS security_definer,
+    CASE p.provolatile WHEN 'i' THEN 'immutable' WHEN 's' THEN 'stable' ELSE 'volatile' END AS volatility,
+    CASE WHEN p.prokind <> 'a' THEN pg_get_functiondef(p.oid) END AS definition
+FROM pg_proc p
+JOIN pg_namespace n ON n.oid = p.pronamespace
+JOIN pg_language l ON l.oid = p.prolang
+WHERE n.nspname = ${sqlLiteral(schema)} AND p.proname = ${sqlLiteral(name)}
+ORDER BY pg_get_function_arguments(p.oid)`;
+}
+
+/** Split at top-level commas, ignoring commas inside parentheses and quotes */
+function splitArguments(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote: string | undefined;
+    let current = '';
+
+    for (const char of text) {
+        if (quote) {
+            if (char === quote) {
+                quote = undefined;
+            }
+        } else if (char === '\'' || char === '"') {
+            quote = char;
+        } else if (char === '(') {
+            depth++;
+        } else if (char === ')') {
+            depth--;
+        } else if (char === ',' && depth === 0) {
+            parts.push(current.trim());
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+    if (current.trim()) {
+        parts.push(current.trim());
+    }
+    return parts;
+}
+
+/**
+ * Parse `pg_get_function_arguments()` output such as
+ * `a integer, OUT b text, c text DEFAULT 'x'::text`. Argument names come from
+ * `proargnames` since multi-word type names make the text ambiguous.
+ */
+export function parseFunctionArguments(text: string, argumentNames: string[]): FunctionParameter[] {
+    return splitArguments(text).map((argument, index) => {
+        let rest = argument;
+        let mode: FunctionParameter['mode'] = 'in';
+        const modeMatch = /^(IN|OUT|INOUT|VARIADIC)\s+/i.exec(rest);
+        if (modeMatch) {
+            mode = modeMatch[1].toLowerCase() as FunctionParameter['mode'];
+            rest = rest.slice(modeMatch[0].length);
+        }
+
+        let defaultValue: string | undefined;
+        const defaultMatch = /\s+(?:DEFAULT|=)\s+/i.exec(rest);
+        if (defaultMatch) {
+            defaultValue = rest.slice(defaultMatch.index + defaultMatch[0].length);
+            rest = rest.slice(0, defaultMatch.index);
+        }
+
+        const name = argumentNames[index] || '';
+        if (name) {
+            const quotedName = /^[a-z_][a-z0-9_$]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+            if (rest.startsWith(`${quotedName} `)) {
+                rest = rest.slice(quotedName.length + 1);
+            }
+        }
+
+        return {
+            name: name || `$${index + 1}`,
+            type: rest.trim(),
+            defaultValue,
+            required: defaultValue === undefined && mode !== 'out',
+            mode
+        };
+    });
+}
+
+export function toFunctionInfo(row: CatalogRow): FunctionInfo {
+    return {
+        name: String(row.name),
+        schema: String(row.schema),
+        parameters: parseFunctionArguments(String(row.arguments ?? ''), toStringArray(row.argument_names)),
+        returnType: String(row.return_type ?? ''),
+        description: toOptionalString(row.description),
+        kind: row.kind as FunctionInfo['kind']
+    };
+}
+
+export function toFunctionDetails(row: CatalogRow): FunctionDetails {
+    return {
+        ...toFunctionInfo(row),
+        language: String(row.language),
+        volatility: row.volatility as FunctionDetails['volatility'],
+        securityDefiner: row.security_definer === true,
+        definition: toOptionalString(row.definition)
+    };
+}
+
+export function listConstraintsQuery(schema: string, table?: string): string {
+    return `SELECT con.conname AS name, t.relname AS table_name,
+    CASE con.contype WHEN 'c' THEN 'check' WHEN 'u' THEN 'unique' ELSE 'exclusion' END AS type,
+    pg_get_constraintdef(con.oid, true) AS definition, con.condeferrable AS deferrable,
+    ARRAY(SELECT a.attname::text FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+        JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum ORDER BY k.ord) AS columns
+FROM pg_constraint con
+JOIN pg_class t ON t.oid = con.conrelid
+JOIN pg_namespace n ON n.oid = t.relnamespace
+WHERE n.nspname = ${sqlLiteral(schema)} AND con.contype IN ('c', 'u', 'x')${tableFilter('t.relname', table)}
+ORDER BY t.relname, con.conname`;
+}
+
+export function toConstraintInfo(row: CatalogRow): ConstraintInfo {
+    return {
+        name: String(row.name),
+        table: String(row.table_name),
+        type: row.type as ConstraintInfo['type'],
+        columns: toStringArray(row.columns),
+        definition: String(row.definition ?? ''),
+        deferrable: row.deferrable === true
+    };
+}
@@ -0,0 +1,204 @@
+import * as vscode from 'vscode';
+import { DatabaseToolCallRound, DatabaseToolMetadata } from './types';
+
+/** Share of the model's input tokens that previous turns may use */
+const HISTORY_BUDGET_RATIO = 0.5;
+/** Characters of tool output kept when an older turn is compacted */
+const COMPACT_TOOL_OUTPUT_CHARS = 300;
+
+type HistoryMessage = vscode.LanguageModelChatMessage;
+
+interface HistoryTurn {
+    /** Messages with the full tool output */
+    full: HistoryMessage[];
+    /** Messages with tool output shortened to a summary */
+    compact: HistoryMessage[];
+}
+
+export interface HistoryOptions {
+    participantId: string;
+    model: vscode.LanguageModelChat;
+    /** Tokens already used by the system prompt, the current request and the tool definitions */
+    reservedTokens: number;
+}
+
+export function isDatabaseToolMetadata(obj: unknown): obj is DatabaseToolMetadata {
+    return !!obj &&
+        !!(obj as DatabaseToolMetadata).toolCallsMetadata &&
+        Array.isArray((obj as DatabaseToolMetadata).toolCallsMetadata.toolCallRounds);
+}
+
+/**
+ * Text of a tool result. Results restored from a previous session lose their
+ * classes, so plain `{ value }` objects are accepted as well.
+ */
+function toolResultText(result: vscode.LanguageModelToolResult | undefined): string | undefined {
+    if (!result || !Array.isArray(result.content)) {
+        return undefined;
+    }
+    return result.content
+        .map(part => part instanceof vscode.LanguageModelTextPart ? part.value :
+            typeof (part as { value?: unknown })?.value === 'string' ? (part as { value: string }).value : '')
+        .filter(text => text)
+        .join('\n');
+}
+
+function compactToolOutput(toolName: string, text: string): string {
+    if (text.length <= COMPACT_TOOL_OUTPUT_CHARS) {
+        return text;
+    }
+    return `${text.slice(0, COMPACT_TOOL_OUTPUT_CHARS)}…\n[Earlier ${toolName} output shortened from ${text.length} characters; call the tool again if the details are needed]`;
+}
+
+function roundMessages(
+    round: DatabaseToolCallRound,
+    toolCallResults: Record<string, vscode.LanguageModelToolResult>,
+    compact: boolean
+): HistoryMessage[] {
+    const assistantContent: (vscode.LanguageModelTextPart | vscode.LanguageModelToolCallPart)[] = [];
+    if (round.response) {
+        assistantContent.push(new vscode.LanguageModelTextPart(round.response));
+    }
+
+    // Tool calls restored from metadata may be plain objects
+    const toolCalls = (round.toolCalls ?? []).map(call => new vscode.LanguageModelToolCallPart(call.callId, call.name, call.input));
+    assistantContent.push(...toolCalls);
+    if (assistantContent.length === 0) {
+        return [];
+    }
+
+    const messages = [vscode.LanguageModelChatMessage.Assistant(assistantContent)];
+    if (toolCalls.length) {
+        // Every tool call needs a result, even if it failed or was not recorded
+        const results = toolCalls.map(call => {
+            const text = toolResultText(toolCallResults[call.callId]) ?? 'Error: tool result is not available.';
+            return new vscode.LanguageModelToolResultPart(call.callId, [
+                new vscode.LanguageModelTextPart(compact ? compactToolOutput(call.name, text) : text)
+            ]);
+        });
+        messages.push(vscode.LanguageModelChatMessage.User(results));
+    }
+    return messages;
+}
+
+/** Markdown streamed in a response, used for turns without tool metadata such as /use or /list */
+function responseMarkdown(turn: vscode.ChatResponseTurn): string {
+    return turn.response
+        .map(part => part instanceof vscode.ChatResponseMarkdownPart ? part.value.value : '')
+        .join('');
+}
+
+function turnMessages(
+    request: vscode.ChatRequestTurn | undefined,
+    response: vscode.ChatResponseTurn,
+    compact: boolean
+): HistoryMessage[] {
+    const messages: HistoryMessage[] = [];
+    if (request) {
+        const command = request.command ? `/${request.command} ` : '';
+        messages.push(vscode.LanguageModelChatMessage.User(`${command}${request.prompt}`));
+    }
+
+    const metadata = response.result.metadata;
+    if (isDatabaseToolMetadata(metadata)) {
+        const { toolCallRounds, toolCallResults } = metadata.toolCallsMetadata;
+        for (const round of toolCallRounds) {
+            messages.push(...roundMessages(round, toolCallResults ?? {}, compact));
+        }
+    } else {
+        const text = responseMarkdown(response);
+        if (text) {
+            messages.push(vscode.LanguageModelChatMessage.Assistant(compact ? compactToolOutput('response', text) : text));
+        }
+    }
+
+    if (response.result.errorDetails) {
+        messages.push(vscode.LanguageModelChatMessage.Assistant(`The request failed: ${response.result.errorDetails.message}`));
+    }
+    return messages;
+}
+
+function historyTurns(chatContext: vscode.ChatContext, participantId: string): HistoryTurn[] {
+    const turns: HistoryTurn[] = [];
+    let pendingRequest: vscode.ChatRequestTurn | undefined;
+
+    for (const turn of chatContext.history) {
+        if (turn.participant !== participantId) {
+            continue;
+        }
+        if (turn instanceof vscode.ChatRequestTurn) {
+            pendingRequest = turn;
+        } else if (turn instanceof vscode.ChatResponseTurn) {
+            turns.push({
+                full: turnMessages(pendingRequest, turn, false),
+                compact: turnMessages(pendingRequest, turn, true)
+            });
+            pendingRequest = undefined;
+        }
+    }
+    return turns;
+}
+
+/** Text used to estimate the token count of a message */
+function messageText(message: HistoryMessage): string {
+    return message.content.map(part => {
+        if (part instanceof vscode.LanguageModelTextPart) {
+            return part.value;
+        }
+        if (part instanceof vscode.LanguageModelToolCallPart) {
+            return `${part.name} ${JSON.stringify(part.input)}`;
+        }
+        if (part instanceof vscode.LanguageModelToolResultPart) {
+            return part.content.map(content => content instanceof vscode.LanguageModelTextPart ? content.value : '').join('\n');
+        }
+        return '';
+    }).join('\n');
+}
+
+async function countTokens(model: vscode.LanguageModelChat, messages: HistoryMessage[], token: vscode.CancellationToken): Promise<number> {
+    let total = 0;
+    for (const message of messages) {
+        total += await model.countTokens(messageText(message), token);
+    }
+    return total;
+}
+
+/**
+ * Rebuild previous @dbTools turns, including their tool calls and results,
+ * as chat messages that fit the model's context window.
+ *
+ * Turns are added from newest to oldest. Once a turn no longer fits with its
+ * full tool output, it and all older turns are compacted; once a compacted
+ * turn does not fit either, the remaining older turns are dropped.
+ */
+export async function buildHistoryMessages(
+    chatContext: vscode.ChatContext,
+    options: HistoryOptions,
+    token: vscode.CancellationToken
+): Promise<HistoryMessage[]> {
+    const turns = historyTurns(chatContext, options.participantId);
+    let budget = Math.floor(options.model.maxInputTokens * HISTORY_BUDGET_RATIO) - options.reservedTokens;
+    const included: HistoryMessage[][] = [];
+    let compacting = false;
+
+    for (let i = turns.length - 1; i >= 0 && budget > 0; i--) {
+        if (!compacting) {
+            const fullTokens = await countTokens(options.model, turns[i].full, token);
+            if (fullTokens <= budget) {
+                included.unshift(turns[i].full);
+                budget -= fullTokens;
+                continue;
+            }
+            compacting = true;
+        }
+
+        const compactTokens = await countTokens(options.model, turns[i].compact, token);
+        if (compactTokens > budget) {
+            break;
+        }
+        included.unshift(turns[i].compact);
+        budget -= compactTokens;
+    }
+
+    return included.flat();
+}
@@ -0,0 +1,66 @@
+import * as vscode from 'vscode';
+import { McpClient, McpConnectionState } from './mcpClient';
+import { describeProfile } from './profiles';
+
+const STATE_ICONS: Record<McpConnectionState, string> = {
+    disconnected: '$(debug-disconnect)',
+    connecting: '$(sync~spin)',
+    connected: '$(database)',
+    failed: '$(error)'
+};
+
+/** Let the user pick the active connection profile */
+export async function selectProfile(mcpClient: McpClient): Promise<void> {
+    const activeProfile = mcpClient.getActiveProfile().name;
+    const items = mcpClient.getProfiles().map(profile => ({
+        label: profile.name,
+        description: `${profile.serverType} · ${describeProfile(profile)}`,
+        detail: `Status: ${mcpClient.getState(profile.name)}`,
+        picked: profile.name === activeProfile
+    }));
+
+    const selected = await vscode.window.showQuickPick(items, {
+        title: 'Select MCP Connection Profile',
+        placeHolder: `Active profile: ${activeProfile}`
+    });
+    if (!selected || selected.label === activeProfile) {
+        return;
+    }
+
+    await mcpClient.setActiveProfile(selected.label);
+    mcpClient.connect().catch(error => {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        vscode.window.showErrorMessage(`Failed to connect to profile "${selected.label}": ${errorMessage}`);
+    });
+}
+
+/** Status bar item showing the active profile and its connection state */
+export function registerConnectionStatus(context: vscode.ExtensionContext, mcpClient: McpClient) {
+    const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+    statusBarItem.command = 'toolsBridger.selectProfile';
+
+    const update = () => {
+        const profile = mcpClient.getActiveProfile();
+        const state = mcpClient.getState();
+        statusBarItem.text = `${STATE_ICONS[state]} ${profile.name}`;
+        statusBarItem.tooltip = new vscode.MarkdownString(
+            `**MCP profile:** ${profile.name}\n\n` +
+            `**Server:** ${describeProfile(profile) || '*not configured*'}\n\n` +
+            `**Status:** ${state}\n\n` +
+            `Click to switch profiles`
+        );
+        statusBarItem.backgroundColor = state === 'failed' ? new vscode.ThemeColor('statusBarItem.errorBackground') : undefined;
+    };
+
+    update();
+    statusBarItem.show();
+
+    const selectProfileCommand = vscode.commands.registerCommand('toolsBridger.selectProfile', () => selectProfile(mcpClient));
+
+    context.subscriptions.push(
+        statusBarItem,
+        selectProfileCommand,
+        mcpClient.onDidChangeState(update),
+        mcpClient.onDidChangeActiveProfile(update)
+    );
+}
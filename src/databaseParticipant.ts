@@ -1,11 +1,32 @@
 import * as vscode from 'vscode';
-import { DatabaseToolCallRound, DatabaseToolMetadata } from './types';
-import { McpClient } from './mcpClient';
+import { DatabaseToolCallRound, DatabaseToolMetadata, IMcpToolParams, IRunQueryParams, QueryCursor } from './types';
+import { buildHistoryMessages, isDatabaseToolMetadata } from './chatHistory';
+import { describeProgress, McpClient } from './mcpClient';
+import { McpToolRegistry } from './tools';
+import { describeProfile } from './profiles';
+import { QueryResultStore, StoredQueryResult } from './results/queryResultStore';
+import { describePage, nextPageOffset, previousPageOffset } from './results/queryPaging';
+import { ExplainPlanStore } from './explain/explainPlanStore';
+import { AuditLog } from './audit/auditLog';
+import { formatPromptList, parsePromptInvocation, promptMessagesToChat, resolvePromptArguments } from './prompts/serverPrompts';
 
-function isDatabaseToolMetadata(obj: unknown): obj is DatabaseToolMetadata {
-    return !!obj &&
-        !!(obj as DatabaseToolMetadata).toolCallsMetadata &&
-        Array.isArray((obj as DatabaseToolMetadata).toolCallsMetadata.toolCallRounds);
+const PARTICIPANT_ID = 'database-tools-participant.dbTools';
+
+/** Tools whose results get an "Open in ERD Viewer" button */
+const ERD_TOOLS = new Set(['postgresql_generateErdMermaid', 'postgresql_generateErdJson']);
+
+/** Share of the free context window the results of one round of tool calls may fill */
+const TOOL_OUTPUT_SHARE = 0.5;
+/** Tokens a tool result may use even when the context window is nearly full */
+const MIN_TOOL_OUTPUT_TOKENS = 500;
+
+/**
+ * VS Code rejects a tool invocation with a cancellation when the user declines
+ * its confirmation; a cancellation of the chat request itself is not a decline.
+ */
+function isDeclinedConfirmation(error: unknown, token: vscode.CancellationToken): boolean {
+    const cancelled = error instanceof vscode.CancellationError || (error instanceof Error && error.name === 'Canceled');
+    return cancelled && !token.isCancellationRequested;
 }
 
 async function selectFallbackModel(): Promise<vscode.LanguageModelChat> {
@@ -79,17 +100,218 @@ async function selectFallbackModel(): Promise<vscode.LanguageModelChat> {
     }
 }
 
-export function registerDatabaseToolsParticipant(context: vscode.ExtensionContext, mcpClient: McpClient) {
+/** Cursor of the most recent paged query result in this chat session */
+function findLastCursor(chatContext: vscode.ChatContext): QueryCursor | undefined {
+    for (let i = chatContext.history.length - 1; i >= 0; i--) {
+        const turn = chatContext.history[i];
+        if (turn instanceof vscode.ChatResponseTurn && turn.participant === PARTICIPANT_ID) {
+            const metadata = turn.result.metadata;
+            if (isDatabaseToolMetadata(metadata) && metadata.cursor) {
+                return metadata.cursor;
+            }
+        }
+    }
+    return undefined;
+}
+
+function toCursor(stored: StoredQueryResult): QueryCursor | undefined {
+    if (!stored.page) {
+        return undefined;
+    }
+    return {
+        ...stored.page,
+        query: stored.query,
+        profile: stored.profile,
+        resultId: stored.id,
+        rowCount: stored.result.rowCount
+    };
+}
+
+/** Handle the /nextPage and /previousPage commands by running the last paged query again at another offset */
+async function showAdjacentPage(
+    direction: 'next' | 'previous',
+    request: vscode.ChatRequest,
+    chatContext: vscode.ChatContext,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken,
+    mcpClient: McpClient,
+    resultStore: QueryResultStore
+): Promise<vscode.ChatResult> {
+    const cursor = findLastCursor(chatContext);
+    const emptyMetadata: DatabaseToolMetadata = {
+        toolCallsMetadata: { toolCallResults: {}, toolCallRounds: [] },
+        cursor
+    };
+
+    if (!cursor) {
+        stream.markdown('There is no paged query result in this chat yet. Ask @dbTools to run a SELECT query first.');
+        return {};
+    }
+    if (direction === 'next' && !cursor.hasMore) {
+        stream.markdown(`Already showing the last page of the query (${describePage(cursor, cursor.rowCount)}).`);
+        return { metadata: emptyMetadata };
+    }
+    if (direction === 'previous' && cursor.offset === 0) {
+        stream.markdown(`Already showing the first page of the query (${describePage(cursor, cursor.rowCount)}).`);
+        return { metadata: emptyMetadata };
+    }
+
+    const activeProfile = mcpClient.getActiveProfile().name;
+    if (cursor.profile !== activeProfile) {
+        stream.markdown(`⚠️ The query ran against profile **${cursor.profile}**, but the active profile is **${activeProfile}**. Switch back with \`@dbTools /use ${cursor.profile}\` first.`);
+        return { metadata: emptyMetadata };
+    }
+
+    const input: IRunQueryParams = {
+        query: cursor.query,
+        clientId: cursor.clientId,
+        limit: cursor.limit,
+        offset: direction === 'next' ? nextPageOffset(cursor, cursor.rowCount) : previousPageOffset(cursor)
+    };
+    const toolCall = new vscode.LanguageModelToolCallPart(`page-${cursor.resultId}-${input.offset}`, 'postgresql_runQuery', input);
+    const lastResultId = resultStore.lastId;
+
+    try {
+        const toolResult = await vscode.lm.invokeTool(toolCall.name, {
+            toolInvocationToken: request.toolInvocationToken,
+            input
+        }, token);
+        for (const content of toolResult.content) {
+            if (content instanceof vscode.LanguageModelTextPart) {
+                stream.markdown(content.value);
+            }
+        }
+
+        const stored = resultStore.since(lastResultId).pop();
+        if (stored) {
+            stream.button({
+                command: 'toolsBridger.openQueryResult',
+                arguments: [stored.id],
+                title: `Open Result #${stored.id} in Result Grid`
+            });
+        }
+
+        return {
+            metadata: {
+                toolCallsMetadata: {
+                    toolCallResults: { [toolCall.callId]: toolResult },
+                    toolCallRounds: [{ response: '', toolCalls: [toolCall] }]
+                },
+                // Keep the previous cursor when the page failed, so the followups still work
+                cursor: (stored && toCursor(stored)) ?? cursor
+            } satisfies DatabaseToolMetadata
+        };
+    } catch (error) {
+        if (!token.isCancellationRequested) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            stream.markdown(`❌ **Failed to load the ${direction} page:** ${errorMessage}`);
+        }
+        return { metadata: emptyMetadata };
+    }
+}
+
+/**
+ * Handle the /prompt command: list the server's prompts, or get the messages of the
+ * named prompt to send instead of the request. Undefined when there is nothing to send.
+ */
+async function resolveServerPrompt(
+    request: vscode.ChatRequest,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken,
+    mcpClient: McpClient
+): Promise<vscode.LanguageModelChatMessage[] | undefined> {
+    try {
+        if (!mcpClient.isConnected()) {
+            await mcpClient.connect();
+        }
+        const prompts = await mcpClient.listPrompts();
+        const invocation = parsePromptInvocation(request.prompt);
+        if (!invocation) {
+            stream.markdown(formatPromptList(prompts));
+            for (const prompt of prompts) {
+                stream.button({
+                    command: 'toolsBridger.runServerPrompt',
+                    arguments: [prompt.name],
+                    title: `Run ${prompt.title ?? prompt.name}`
+                });
+            }
+            return undefined;
+        }
+
+        const prompt = prompts.find(candidate => candidate.name === invocation.name);
+        if (!prompt) {
+            stream.markdown(`❌ **Unknown prompt "${invocation.name}".** ${prompts.length > 0 ? `Available prompts: ${prompts.map(candidate => candidate.name).join(', ')}` : 'The MCP server does not offer any prompts.'}`);
+            return undefined;
+        }
+        const args = await resolvePromptArguments(prompt, invocation);
+        if (!args) {
+            stream.markdown(`Prompt "${prompt.name}" cancelled.`);
+            return undefined;
+        }
+
+        stream.progress(`Getting prompt "${prompt.name}" from the MCP server...`);
+        const result = await mcpClient.getPrompt(prompt.name, args, token);
+        return promptMessagesToChat(result);
+    } catch (error) {
+        if (!token.isCancellationRequested) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            stream.markdown(`❌ **Failed to get the prompt:** ${errorMessage}`);
+        }
+        return undefined;
+    }
+}
+
+export function registerDatabaseToolsParticipant(context: vscode.ExtensionContext, mcpClient: McpClient, toolRegistry: McpToolRegistry, resultStore: QueryResultStore, planStore: ExplainPlanStore, auditLog: AuditLog) {
     const handler: vscode.ChatRequestHandler = async (
         request: vscode.ChatRequest, 
         chatContext: vscode.ChatContext, 
         stream: vscode.ChatResponseStream, 
         token: vscode.CancellationToken
     ) => {
+        if (request.command === 'use') {
+            // Switch the active connection profile
+            const profileName = request.prompt.trim();
+            const activeProfile = mcpClient.getActiveProfile().name;
+
+            if (!profileName) {
+                stream.markdown(`Active profile: **${activeProfile}**\n\nAvailable profiles:\n\n`);
+                for (const profile of mcpClient.getProfiles()) {
+                    const marker = profile.name === activeProfile ? ' *(active)*' : '';
+                    stream.markdown(`- **${profile.name}**${marker} — ${profile.serverType} \`${describeProfile(profile)}\` (${mcpClient.getState(profile.name)})\n`);
+                }
+                stream.markdown(`\nUse \`@dbTools /use <profile>\` to switch.`);
+                return;
+            }
+
+            if (!mcpClient.getProfiles().some(profile => profile.name === profileName)) {
+                stream.markdown(`❌ **Unknown profile "${profileName}".** Available profiles: ${mcpClient.getProfiles().map(profile => profile.name).join(', ')}`);
+                return;
+            }
+
+            try {
+                await mcpClient.setActiveProfile(profileName);
+                stream.progress(`Connecting to profile "${profileName}"...`);
+                await mcpClient.connect();
+                stream.markdown(`✅ Switched to profile **${profileName}**.`);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+                stream.markdown(`⚠️ Switched to profile **${profileName}**, but connecting failed: ${errorMessage}`);
+            }
+            return;
+        }
+
+        if (request.command === 'nextPage' || request.command === 'previousPage') {
+            return showAdjacentPage(request.command === 'nextPage' ? 'next' : 'previous', request, chatContext, stream, token, mcpClient, resultStore);
+        }
+
+        // Discover the tools advertised by the MCP server
+        await toolRegistry.ensureLoaded();
+
         if (request.command === 'list') {
             // List the available database tools (static list)
             const tools = vscode.lm.tools.filter(tool => tool.tags.includes('database-tools'));
-            const toolNames = tools.map(tool => tool.name).join(', ');
+            const bridgedTools = toolRegistry.getTools();
+            const toolNames = [...tools.map(tool => tool.name), ...bridgedTools.map(tool => tool.name)].join(', ');
             stream.markdown(`Available database tools: ${toolNames}\n\n`);
             
             // Show detailed information about each tool
@@ -100,32 +322,54 @@ export function registerDatabaseToolsParticipant(context: vscode.ExtensionContex
                     stream.markdown(`**Tags:** ${tool.tags.join(', ')}\n\n`);
                 }
             }
+
+            // Show the tools bridged from the MCP server
+            for (const tool of bridgedTools) {
+                stream.markdown(`### ${tool.name}\n`);
+                stream.markdown(`${tool.description}\n\n`);
+                stream.markdown(`**MCP tool:** \`${tool.definition.name}\`\n\n`);
+            }
             
             return;
         }
 
+        // A server prompt replaces the request text with the prompt's messages
+        let requestMessages = [vscode.LanguageModelChatMessage.User(request.prompt)];
+        if (request.command === 'prompt') {
+            const promptMessages = await resolveServerPrompt(request, stream, token, mcpClient);
+            if (!promptMessages) {
+                return;
+            }
+            requestMessages = promptMessages;
+        }
+
         let model = request.model;
         if (model.vendor === 'copilot' && model.family.startsWith('o1')) {
             // The o1 models do not currently support tools
             model = await selectFallbackModel();
         }
 
-        // Use all available tools or only database-specific tools
-        const tools = request.command === 'all' ?
-            vscode.lm.tools :
-            vscode.lm.tools.filter(tool => tool.tags.includes('database-tools'));
+        // Use all available tools or only database-specific tools, plus the tools bridged from the MCP server
+        const tools: vscode.LanguageModelChatTool[] = [
+            ...(request.command === 'all' ?
+                vscode.lm.tools :
+                vscode.lm.tools.filter(tool => tool.tags.includes('database-tools'))),
+            ...toolRegistry.getChatTools()
+        ];
 
         const options: vscode.LanguageModelChatRequestOptions = {
             justification: 'To make a database request to @dbTools',
         };
 
-        // Create initial messages
-        const messages = [
-            vscode.LanguageModelChatMessage.User(`You are a PostgreSQL database assistant that helps users interact with their PostgreSQL database through specialized tools. 
+        // Create initial messages: instructions, previous turns, then the current request
+        const systemPrompt = `You are a PostgreSQL database assistant that helps users interact with their PostgreSQL database through specialized tools. 
             You can execute SQL queries, inspect database schemas, get table information, generate ERD diagrams, find column matches, and perform other PostgreSQL database operations.
             Always prioritize data safety and security. For destructive operations (DELETE, DROP, etc.), ask for confirmation.
             When querying data, consider using LIMIT clauses for large result sets unless specifically asked for all data.
-            If you need to understand the database structure before answering a question, use the schema inspection tools first.
+            Results of a single SELECT statement are paged; pass offset to postgresql_runQuery only when later rows are needed to answer.
+            Before writing a non-trivial query from scratch, use postgresql_searchQueryHistory to look for saved queries or queries that worked before.
+            If you need to understand the database structure before answering a question, use the schema inspection tools first. postgresql_describeSchema gives an overview of a whole schema; use postgresql_listIndexes, postgresql_listConstraints and postgresql_describeFunction for details.
+            For performance questions (why is a query slow, will it use an index), use postgresql_explainQuery rather than running the query. Start with a plain EXPLAIN and only request analyze when actual timings are needed.
             Format query results in a clear, readable way. Use tables or lists as appropriate.
             If an error occurs, explain what went wrong and suggest possible solutions.
             Don't make assumptions about database structure - explore first if needed.
@@ -140,10 +384,34 @@ export function registerDatabaseToolsParticipant(context: vscode.ExtensionContex
             - Find related tables via foreign keys
             - Describe relationships between tables
             - Execute SELECT queries safely
+            - Explain query plans (EXPLAIN, or EXPLAIN ANALYZE after confirmation)
+            - Read resources published by the MCP server, such as table definitions (postgresql_readResource)
+            - Additional tools advertised by the MCP server (prefixed with "mcp_")
             
-            User request: ${request.prompt}`)
+            You are connected to the "${mcpClient.getActiveProfile().name}" connection profile.
+            Earlier messages are the conversation so far; older tool output may be shortened, so call the tools again when you need its details.`;
+
+        const reservedTokens =
+            await model.countTokens(systemPrompt, token) +
+            (await Promise.all(requestMessages.map(message => model.countTokens(message, token)))).reduce((sum, count) => sum + count, 0) +
+            await model.countTokens(JSON.stringify(tools.map(tool => ({ name: tool.name, description: tool.description, inputSchema: tool.inputSchema }))), token);
+        const history = await buildHistoryMessages(chatContext, {
+            participantId: PARTICIPANT_ID,
+            model,
+            reservedTokens
+        }, token);
+
+        const messages = [
+            vscode.LanguageModelChatMessage.User(systemPrompt),
+            ...history,
+            ...requestMessages
         ];
 
+        // Tokens of the conversation so far, so tool results are budgeted to the rest of the context window
+        let usedTokens = reservedTokens +
+            (await Promise.all(history.map(message => model.countTokens(message, token)))).reduce((sum, count) => sum + count, 0);
+
+        const firstResultId = resultStore.lastId;
         const toolReferences = [...request.toolReferences];
         const accumulatedToolResults: Record<string, vscode.LanguageModelToolResult> = {};
         const toolCallRounds: DatabaseToolCallRound[] = [];
@@ -191,18 +459,39 @@ export function registerDatabaseToolsParticipant(context: vscode.ExtensionContex
                 }
                 assistantContent.push(...toolCalls);
                 messages.push(vscode.LanguageModelChatMessage.Assistant(assistantContent));
+                usedTokens += await model.countTokens(responseStr, token);
 
                 // Execute each tool call and add results to messages
                 const toolResults: vscode.LanguageModelToolResultPart[] = [];
                 
-                for (const toolCall of toolCalls) {
+                for (const [index, toolCall] of toolCalls.entries()) {
                     try {
-                        // Execute the tool
-                        const toolResult = await vscode.lm.invokeTool(toolCall.name, {
-                            toolInvocationToken: request.toolInvocationToken,
-                            input: toolCall.input
-                        }, token);
+                        const lastResultId = resultStore.lastId;
+                        const lastPlanId = planStore.lastId;
+
+                        // The calls of this round share what is left of the context window
+                        const tokenBudget = Math.max(
+                            MIN_TOOL_OUTPUT_TOKENS,
+                            Math.floor((model.maxInputTokens - usedTokens) * TOOL_OUTPUT_SHARE / (toolCalls.length - index))
+                        );
+
+                        // Execute the tool (bridged MCP tools are invoked directly)
+                        const toolResult = toolRegistry.has(toolCall.name) ?
+                            await toolRegistry.invoke(toolCall.name, toolCall.input as IMcpToolParams, token) :
+                            await vscode.lm.invokeTool(toolCall.name, {
+                                toolInvocationToken: request.toolInvocationToken,
+                                input: toolCall.input,
+                                tokenizationOptions: {
+                                    tokenBudget,
+                                    countTokens: (text, countToken) => model.countTokens(text, countToken)
+                                }
+                            }, token);
                         toolResults.push(new vscode.LanguageModelToolResultPart(toolCall.callId, toolResult.content));
+                        for (const content of toolResult.content) {
+                            if (content instanceof vscode.LanguageModelTextPart) {
+                                usedTokens += await model.countTokens(content.value, token);
+                            }
+                        }
                         
                         // Store result for metadata
                         accumulatedToolResults[toolCall.callId] = toolResult;
@@ -215,14 +504,43 @@ export function registerDatabaseToolsParticipant(context: vscode.ExtensionContex
                                 }
                             }
                         }
+
+                        // Offer the full result of executed queries in the result grid
+                        for (const stored of resultStore.since(lastResultId)) {
+                            stream.button({
+                                command: 'toolsBridger.openQueryResult',
+                                arguments: [stored.id],
+                                title: `Open Result #${stored.id} in Result Grid`
+                            });
+                        }
+                        for (const stored of planStore.since(lastPlanId)) {
+                            stream.button({
+                                command: 'toolsBridger.openExplainPlan',
+                                arguments: [stored.id],
+                                title: `Open Plan #${stored.id} in Plan Viewer`
+                            });
+                        }
+                        if (ERD_TOOLS.has(toolCall.name)) {
+                            const schema = (toolCall.input as { schema?: unknown }).schema;
+                            stream.button({
+                                command: 'toolsBridger.openErd',
+                                arguments: [typeof schema === 'string' ? schema : 'public'],
+                                title: 'Open in ERD Viewer'
+                            });
+                        }
                     } catch (error) {
                         const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+                        if (isDeclinedConfirmation(error, token)) {
+                            auditLog.confirmationResolved(toolCall.name, toolCall.input as Record<string, unknown>, false);
+                        } else {
+                            console.error(`Error executing tool ${toolCall.name}:`, error);
+                        }
                         stream.markdown(`\n❌ **Error executing ${toolCall.name}:** ${errorMessage}\n`);
-                        console.error(`Error executing tool ${toolCall.name}:`, error);
                         
                         // Create an error result
                         const errorContent = [new vscode.LanguageModelTextPart(`Error: ${errorMessage}`)];
                         toolResults.push(new vscode.LanguageModelToolResultPart(toolCall.callId, errorContent));
+                        accumulatedToolResults[toolCall.callId] = new vscode.LanguageModelToolResult(errorContent);
                     }
                 }
 
@@ -232,29 +550,52 @@ export function registerDatabaseToolsParticipant(context: vscode.ExtensionContex
                 // Continue with tool calling loop
                 return runWithTools();
             }
+
+            // Keep the final answer so later turns can include it in their history
+            if (responseStr) {
+                toolCallRounds.push({
+                    response: responseStr,
+                    toolCalls: []
+                });
+            }
         };
 
+        // Surface progress notifications of the MCP tool calls made for this request
+        const progressListener = mcpClient.onDidReceiveProgress(progress => {
+            if (!token.isCancellationRequested) {
+                stream.progress(`${progress.toolName}: ${describeProgress(progress)}`);
+            }
+        });
+
         try {
             await runWithTools();
         } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-            stream.markdown(`\n\n❌ **Error:** ${errorMessage}`);
-            
-            // Log the error for debugging
-            console.error('Database tools participant error:', error);
+            if (!token.isCancellationRequested) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+                stream.markdown(`\n\n❌ **Error:** ${errorMessage}`);
+                
+                // Log the error for debugging
+                console.error('Database tools participant error:', error);
+            }
+        } finally {
+            progressListener.dispose();
         }
 
+        // Remember the last paged result so the next/previous page followups can continue it
+        const pagedResult = resultStore.since(firstResultId).filter(stored => stored.page).pop();
+
         return {
             metadata: {
                 toolCallsMetadata: {
                     toolCallResults: accumulatedToolResults,
                     toolCallRounds
-                }
+                },
+                cursor: pagedResult && toCursor(pagedResult)
             } satisfies DatabaseToolMetadata,
         };
     };
 
-    const databaseParticipant = vscode.chat.createChatParticipant('database-tools-participant.dbTools', handler);
+    const databaseParticipant = vscode.chat.createChatParticipant(PARTICIPANT_ID, handler);
     databaseParticipant.iconPath = new vscode.ThemeIcon('database');
     
     // Add followup provider for common database operations
@@ -265,6 +606,22 @@ export function registerDatabaseToolsParticipant(context: vscode.ExtensionContex
             // Check if we have database metadata to suggest relevant followups
             const metadata = result.metadata;
             if (isDatabaseToolMetadata(metadata)) {
+                const cursor = metadata.cursor;
+                if (cursor?.hasMore) {
+                    followups.push({
+                        prompt: 'next page',
+                        label: 'Next Page',
+                        command: 'nextPage'
+                    });
+                }
+                if (cursor && cursor.offset > 0) {
+                    followups.push({
+                        prompt: 'previous page',
+                        label: 'Previous Page',
+                        command: 'previousPage'
+                    });
+                }
+
                 // Suggest common database operations
                 followups.push(
                     {
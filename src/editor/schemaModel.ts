@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import { McpClient } from '../mcpClient';
+import { SchemaCache } from '../schemaCache';
+import { SqlTableReference } from '../sql';
+import { ColumnInfo, GenerateErdJsonResponse, RelationshipInfo } from '../types';
+
+export interface ResolvedTable {
+    schema: string;
+    table: string;
+}
+
+const DEFAULT_SEARCH_PATH = ['public'];
+
+/**
+ * Schema metadata for the SQL editor features, read through the shared schema
+ * cache. It never connects to the server on its own: while the active profile
+ * is disconnected every lookup is empty, so typing causes no server traffic.
+ * Lookup failures are treated as missing metadata.
+ */
+export class SqlSchemaModel {
+    constructor(private mcpClient: McpClient, private schemaCache: SchemaCache) {}
+
+    /** Schemas searched for unqualified table names, from `toolsBridger.searchPath` */
+    getSearchPath(): string[] {
+        const searchPath = vscode.workspace.getConfiguration('toolsBridger').get<string[]>('searchPath', DEFAULT_SEARCH_PATH);
+        return searchPath.length > 0 ? searchPath : DEFAULT_SEARCH_PATH;
+    }
+
+    get available(): boolean {
+        return this.mcpClient.isConnected();
+    }
+
+    async schemas(token?: vscode.CancellationToken): Promise<string[]> {
+        return this.lookup(async () => (await this.schemaCache.listSchemas(token)).schemas, []);
+    }
+
+    async tables(schema: string, token?: vscode.CancellationToken): Promise<string[]> {
+        return this.lookup(async () => (await this.schemaCache.listTables(schema, token)).tables, []);
+    }
+
+    async columns(table: ResolvedTable, token?: vscode.CancellationToken): Promise<ColumnInfo[]> {
+        return this.lookup(async () => (await this.schemaCache.listColumns(table.schema, table.table, token)).columns, []);
+    }
+
+    async erd(schema: string, token?: vscode.CancellationToken): Promise<GenerateErdJsonResponse | undefined> {
+        return this.lookup(() => this.schemaCache.generateErdJson(schema, token), undefined);
+    }
+
+    /** Schema holding a referenced table: its own qualifier, or the first search path schema that has it */
+    async resolveTable(reference: Pick<SqlTableReference, 'schema' | 'table'>, token?: vscode.CancellationToken): Promise<ResolvedTable | undefined> {
+        for (const schema of reference.schema ? [reference.schema] : this.getSearchPath()) {
+            if ((await this.tables(schema, token)).includes(reference.table)) {
+                return { schema, table: reference.table };
+            }
+        }
+        return undefined;
+    }
+
+    /** Foreign keys between two tables of the same schema, in either direction */
+    async relationshipsBetween(a: ResolvedTable, b: ResolvedTable, token?: vscode.CancellationToken): Promise<RelationshipInfo[]> {
+        if (a.schema !== b.schema) {
+            return [];
+        }
+        const relationships = (await this.erd(a.schema, token))?.relationships ?? [];
+        return relationships.filter(relationship =>
+            (relationship.from_table === a.table && relationship.to_table === b.table) ||
+            (relationship.from_table === b.table && relationship.to_table === a.table)
+        );
+    }
+
+    /** Foreign keys from or to a table */
+    async relationshipsOf(table: ResolvedTable, token?: vscode.CancellationToken): Promise<RelationshipInfo[]> {
+        const relationships = (await this.erd(table.schema, token))?.relationships ?? [];
+        return relationships.filter(relationship => relationship.from_table === table.table || relationship.to_table === table.table);
+    }
+
+    private async lookup<T>(load: () => Promise<T>, fallback: T): Promise<T> {
+        if (!this.available) {
+            return fallback;
+        }
+        try {
+            return (await load()) ?? fallback;
+        } catch {
+            return fallback;
+        }
+    }
+}
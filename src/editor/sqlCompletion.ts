@@ -0,0 +1,287 @@
+import * as vscode from 'vscode';
+import { findReferenceByQualifier, findTableReferences, SqlTableReference, SqlToken, tokenizeSql } from '../sql';
+import { identifierName, isIdentifier, keywordOf } from '../sql/sqlTokenizer';
+import { quoteIdentifier } from '../results/resultExport';
+import { ColumnInfo, RelationshipInfo } from '../types';
+import { ResolvedTable, SqlSchemaModel } from './schemaModel';
+
+const SQL_SELECTOR: vscode.DocumentSelector = [{ language: 'sql' }];
+/** Clauses followed by a table name */
+const TABLE_KEYWORDS = new Set(['FROM', 'JOIN', 'UPDATE', 'INTO', 'TABLE', 'ONLY', 'LATERAL']);
+const MAX_HOVER_COLUMNS = 30;
+
+function isPunctuation(token: SqlToken | undefined, value: string): boolean {
+    return !!token && token.type === 'punctuation' && token.value === value;
+}
+
+/** Tokens of the statement the offset is in; an offset just after `;` starts a new, empty statement */
+export function statementTokensAt(tokens: SqlToken[], offset: number): SqlToken[] {
+    let start = 0;
+    for (let i = 0; i < tokens.length; i++) {
+        if (isPunctuation(tokens[i], ';') && tokens[i].depth === 0) {
+            if (tokens[i].start >= offset) {
+                return tokens.slice(start, i);
+            }
+            start = i + 1;
+        }
+    }
+    return tokens.slice(start);
+}
+
+/** Name a reference is written with in the query: its alias, or the table name */
+function qualifierOf(reference: SqlTableReference): string {
+    return reference.alias ?? reference.table;
+}
+
+function columnDetail(column: ColumnInfo): string {
+    return `${column.type}${column.is_nullable ? '' : ' NOT NULL'}`;
+}
+
+/**
+ * Completes schemas, tables, columns and foreign key join conditions in SQL
+ * files from the schema model.
+ */
+export class SqlCompletionProvider implements vscode.CompletionItemProvider {
+    constructor(private schemaModel: SqlSchemaModel) {}
+
+    async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.CompletionItem[]> {
+        if (!this.schemaModel.available) {
+            return [];
+        }
+
+        const offset = document.offsetAt(position);
+        const tokens = tokenizeSql(document.getText());
+        if (tokens.some(t => (t.type === 'string' || t.type === 'quotedIdentifier') && t.start < offset && offset < t.end)) {
+            return [];
+        }
+
+        const statement = statementTokensAt(tokens, offset);
+        const before = statement.filter(t => t.end <= offset);
+        // Drop the word being typed; VS Code filters the items by it
+        const last = before[before.length - 1];
+        if (last && last.end === offset && last.type === 'word') {
+            before.pop();
+        }
+        const references = findTableReferences(statement);
+        const previous = before[before.length - 1];
+
+        // qualifier.| - columns of a table or alias, or tables of a schema
+        if (isPunctuation(previous, '.') && isIdentifier(before[before.length - 2])) {
+            const qualifier = identifierName(before[before.length - 2]);
+            if (isPunctuation(before[before.length - 3], '.') && isIdentifier(before[before.length - 4])) {
+                const table = { schema: identifierName(before[before.length - 4]), table: qualifier };
+                return this.columnItems([{ table, qualifier }], token);
+            }
+            const reference = findReferenceByQualifier(references, qualifier);
+            const table = reference && await this.schemaModel.resolveTable(reference, token);
+            if (table) {
+                return this.columnItems([{ table, qualifier }], token);
+            }
+            if ((await this.schemaModel.schemas(token)).includes(qualifier)) {
+                return this.tableItems([qualifier], token);
+            }
+            return [];
+        }
+
+        const previousKeyword = keywordOf(previous);
+        if ((previousKeyword && TABLE_KEYWORDS.has(previousKeyword)) || (isPunctuation(previous, ',') && this.inFromList(before))) {
+            return [...await this.tableItems(this.schemaModel.getSearchPath(), token), ...await this.schemaItems(token)];
+        }
+
+        const resolved = await this.resolveReferences(references.filter(reference => reference.start < offset), token);
+        const items: vscode.CompletionItem[] = [];
+        if (previousKeyword === 'ON' || previousKeyword === 'AND') {
+            items.push(...await this.joinItems(resolved, token));
+        }
+        items.push(...await this.columnItems(resolved.map(({ reference, table }) => ({ table, qualifier: qualifierOf(reference) })), token));
+        return items;
+    }
+
+    /** Whether a comma continues the table list of a FROM clause */
+    private inFromList(before: SqlToken[]): boolean {
+        const depth = before[before.length - 1].depth;
+        for (let i = before.length - 2; i >= 0; i--) {
+            const keyword = before[i].depth === depth ? keywordOf(before[i]) : undefined;
+            if (keyword === 'FROM') {
+                return true;
+            }
+            if (keyword && ['SELECT', 'WHERE', 'ON', 'SET', 'GROUP', 'ORDER', 'BY', 'VALUES', 'RETURNING'].includes(keyword)) {
+                return false;
+            }
+        }
+        return false;
+    }
+
+    private async resolveReferences(references: SqlTableReference[], token: vscode.CancellationToken) {
+        const resolved: { reference: SqlTableReference; table: ResolvedTable }[] = [];
+        for (const reference of references) {
+            const table = await this.schemaModel.resolveTable(reference, token);
+            if (table) {
+                resolved.push({ reference, table });
+            }
+        }
+        return resolved;
+    }
+
+    private async schemaItems(token: vscode.CancellationToken): Promise<vscode.CompletionItem[]> {
+        return (await this.schemaModel.schemas(token)).map(schema => {
+            const item = new vscode.CompletionItem({ label: schema, description: 'schema' }, vscode.CompletionItemKind.Module);
+            item.insertText = quoteIdentifier(schema);
+            item.sortText = `2${schema}`;
+            return item;
+        });
+    }
+
+    private async tableItems(schemas: string[], token: vscode.CancellationToken): Promise<vscode.CompletionItem[]> {
+        const items: vscode.CompletionItem[] = [];
+        for (const schema of schemas) {
+            for (const table of await this.schemaModel.tables(schema, token)) {
+                const item = new vscode.CompletionItem({ label: table, description: schema }, vscode.CompletionItemKind.Struct);
+                item.insertText = quoteIdentifier(table);
+                item.detail = `table ${schema}.${table}`;
+                item.sortText = `1${table}`;
+                items.push(item);
+            }
+        }
+        return items;
+    }
+
+    private async columnItems(tables: { table: ResolvedTable; qualifier: string }[], token: vscode.CancellationToken): Promise<vscode.CompletionItem[]> {
+        const items: vscode.CompletionItem[] = [];
+        for (const { table, qualifier } of tables) {
+            for (const column of await this.schemaModel.columns(table, token)) {
+                const item = new vscode.CompletionItem({ label: column.name, detail: ` ${columnDetail(column)}`, description: qualifier }, vscode.CompletionItemKind.Field);
+                item.insertText = quoteIdentifier(column.name);
+                item.detail = `${table.schema}.${table.table}.${column.name}: ${columnDetail(column)}`;
+                item.sortText = `1${column.name}`;
+                items.push(item);
+            }
+        }
+        return items;
+    }
+
+    /** Join conditions between the table joined last and the tables before it, from foreign keys */
+    private async joinItems(resolved: { reference: SqlTableReference; table: ResolvedTable }[], token: vscode.CancellationToken): Promise<vscode.CompletionItem[]> {
+        const joined = resolved[resolved.length - 1];
+        if (!joined || joined.reference.clause !== 'JOIN') {
+            return [];
+        }
+
+        const items: vscode.CompletionItem[] = [];
+        for (const other of resolved.slice(0, -1)) {
+            for (const relationship of await this.schemaModel.relationshipsBetween(joined.table, other.table, token)) {
+                const [from, to] = relationship.from_table === joined.table.table ? [joined, other] : [other, joined];
+                const condition = `${quoteIdentifier(qualifierOf(from.reference))}.${quoteIdentifier(relationship.from_column)} = ` +
+                    `${quoteIdentifier(qualifierOf(to.reference))}.${quoteIdentifier(relationship.to_column)}`;
+                const item = new vscode.CompletionItem({ label: condition, description: 'foreign key' }, vscode.CompletionItemKind.Reference);
+                item.detail = `${relationship.from_table}.${relationship.from_column} → ${relationship.to_table}.${relationship.to_column}`;
+                item.sortText = `0${condition}`;
+                item.preselect = items.length === 0;
+                items.push(item);
+            }
+        }
+        return items;
+    }
+}
+
+/** Shows the type, keys and related tables of the column or table under the mouse */
+export class SqlHoverProvider implements vscode.HoverProvider {
+    constructor(private schemaModel: SqlSchemaModel) {}
+
+    async provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Hover | undefined> {
+        if (!this.schemaModel.available) {
+            return undefined;
+        }
+
+        const offset = document.offsetAt(position);
+        const statement = statementTokensAt(tokenizeSql(document.getText()), offset);
+        const index = statement.findIndex(t => t.start <= offset && offset <= t.end && isIdentifier(t));
+        if (index === -1) {
+            return undefined;
+        }
+        const hovered = statement[index];
+        const name = identifierName(hovered);
+        const range = new vscode.Range(document.positionAt(hovered.start), document.positionAt(hovered.end));
+        const references = findTableReferences(statement);
+
+        // A table name of a FROM/JOIN/... clause
+        const reference = references.find(r => r.start <= hovered.start && hovered.end <= r.end);
+        if (reference) {
+            const table = await this.schemaModel.resolveTable(reference, token);
+            return table && new vscode.Hover(await this.tableHover(table, token), range);
+        }
+
+        // alias.| or table.| qualifier
+        if (isPunctuation(statement[index + 1], '.')) {
+            const qualified = findReferenceByQualifier(references, name);
+            const table = qualified && await this.schemaModel.resolveTable(qualified, token);
+            return table && new vscode.Hover(await this.tableHover(table, token), range);
+        }
+
+        // Qualified column, or an unqualified column of any referenced table
+        let candidates = references;
+        if (isPunctuation(statement[index - 1], '.') && isIdentifier(statement[index - 2])) {
+            const qualified = findReferenceByQualifier(references, identifierName(statement[index - 2]));
+            candidates = qualified ? [qualified] : [];
+        }
+        for (const candidate of candidates) {
+            const table = await this.schemaModel.resolveTable(candidate, token);
+            const column = table && (await this.schemaModel.columns(table, token)).find(c => c.name === name);
+            if (table && column) {
+                return new vscode.Hover(await this.columnHover(table, column, token), range);
+            }
+        }
+        return undefined;
+    }
+
+    private async tableHover(table: ResolvedTable, token: vscode.CancellationToken): Promise<vscode.MarkdownString> {
+        const columns = await this.schemaModel.columns(table, token);
+        const markdown = new vscode.MarkdownString(`**${table.schema}.${table.table}** (table, ${columns.length} columns)\n\n`);
+        if (columns.length > 0) {
+            const listed = columns.slice(0, MAX_HOVER_COLUMNS).map(column => `- \`${column.name}\` ${columnDetail(column)}`);
+            if (columns.length > MAX_HOVER_COLUMNS) {
+                listed.push(`- *…and ${columns.length - MAX_HOVER_COLUMNS} more*`);
+            }
+            markdown.appendMarkdown(`${listed.join('\n')}\n\n`);
+        }
+        markdown.appendMarkdown(this.describeRelationships(table, await this.schemaModel.relationshipsOf(table, token)));
+        return markdown;
+    }
+
+    private async columnHover(table: ResolvedTable, column: ColumnInfo, token: vscode.CancellationToken): Promise<vscode.MarkdownString> {
+        const erdTable = (await this.schemaModel.erd(table.schema, token))?.tables?.find(t => t.name === table.table);
+        const markdown = new vscode.MarkdownString(`**${table.schema}.${table.table}.${column.name}**: \`${columnDetail(column)}\``);
+        if (erdTable?.primary_keys?.includes(column.name)) {
+            markdown.appendMarkdown('\n\nPrimary key');
+        }
+        const relationships = (await this.schemaModel.relationshipsOf(table, token)).filter(relationship =>
+            (relationship.from_table === table.table && relationship.from_column === column.name) ||
+            (relationship.to_table === table.table && relationship.to_column === column.name)
+        );
+        const related = this.describeRelationships(table, relationships);
+        if (related) {
+            markdown.appendMarkdown(`\n\n${related}`);
+        }
+        return markdown;
+    }
+
+    private describeRelationships(table: ResolvedTable, relationships: RelationshipInfo[]): string {
+        const lines = relationships.map(relationship => relationship.from_table === table.table ?
+            `- References \`${relationship.to_table}.${relationship.to_column}\` via \`${relationship.from_column}\`` :
+            `- Referenced by \`${relationship.from_table}.${relationship.from_column}\``
+        );
+        return lines.length > 0 ? `**Related tables:**\n${lines.join('\n')}` : '';
+    }
+}
+
+/** Register schema-aware completion and hover for SQL files */
+export function registerSqlCompletion(context: vscode.ExtensionContext, schemaModel: SqlSchemaModel) {
+    context.subscriptions.push(
+        vscode.languages.registerCompletionItemProvider(SQL_SELECTOR, new SqlCompletionProvider(schemaModel), '.'),
+        vscode.languages.registerHoverProvider(SQL_SELECTOR, new SqlHoverProvider(schemaModel))
+    );
+}
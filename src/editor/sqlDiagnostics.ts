@@ -0,0 +1,539 @@
+import * as vscode from 'vscode';
+import { McpClient } from '../mcpClient';
+import { SchemaCache } from '../schemaCache';
+import { analyzeSql, findReferenceByQualifier, findTableReferences, splitStatements, SqlTableReference, SqlToken, tokenizeSql } from '../sql';
+import { identifierName, isIdentifier, keywordOf } from '../sql/sqlTokenizer';
+import { pgTypeFamily } from '../sql/pgTypes';
+import { quoteIdentifier } from '../results/resultExport';
+import { FuzzyColumnMatchResponse } from '../types';
+import { ResolvedTable, SqlSchemaModel } from './schemaModel';
+
+export type SqlDiagnosticsMode = 'off' | 'openFiles' | 'workspace';
+
+export type SqlProblemCode = 'missing-where' | 'unknown-schema' | 'unknown-table' | 'unknown-column' | 'join-type-mismatch' | 'join-column-mismatch';
+
+export interface SqlProblem {
+    start: number;
+    end: number;
+    code: SqlProblemCode;
+    message: string;
+    /** Table an unknown column was looked up in, for the `fuzzy_column_match` quick fix */
+    table?: ResolvedTable;
+}
+
+const DIAGNOSTIC_SOURCE = 'Tools Bridger';
+const SQL_SELECTOR: vscode.DocumentSelector = [{ language: 'sql' }];
+const VALIDATION_DELAY_MS = 750;
+const MAX_WORKSPACE_FILES = 500;
+const MAX_QUICK_FIXES = 3;
+/** Words between CREATE and TABLE/VIEW */
+const CREATE_MODIFIERS = new Set(['OR', 'REPLACE', 'TEMP', 'TEMPORARY', 'UNLOGGED', 'GLOBAL', 'LOCAL', 'MATERIALIZED', 'RECURSIVE']);
+/** Words after ALTER TABLE ... ADD that add something other than a column */
+const ADD_NON_COLUMN_WORDS = new Set(['CONSTRAINT', 'PRIMARY', 'FOREIGN', 'UNIQUE', 'CHECK', 'EXCLUDE']);
+
+function isPunctuation(token: SqlToken | undefined, value: string): boolean {
+    return !!token && token.type === 'punctuation' && token.value === value;
+}
+
+function isOperator(token: SqlToken | undefined, value: string): boolean {
+    return !!token && token.type === 'operator' && token.value === value;
+}
+
+/** Read a possibly qualified name at `index`, returning its last part */
+function readName(tokens: SqlToken[], index: number): { name: string; next: number } | undefined {
+    if (!isIdentifier(tokens[index])) {
+        return undefined;
+    }
+    let name = identifierName(tokens[index]);
+    let i = index + 1;
+    while (isPunctuation(tokens[i], '.') && isIdentifier(tokens[i + 1])) {
+        name = identifierName(tokens[i + 1]);
+        i += 2;
+    }
+    return { name, next: i };
+}
+
+/**
+ * Tables and columns a script creates itself, e.g. in a migration, which the
+ * live schema does not know yet. Column keys are `table.column`.
+ */
+function findScriptObjects(tokens: SqlToken[]): { tables: Set<string>; columns: Set<string> } {
+    const tables = new Set<string>();
+    const columns = new Set<string>();
+
+    for (let i = 0; i < tokens.length; i++) {
+        const keyword = keywordOf(tokens[i]);
+        if (keyword === 'CREATE') {
+            let j = i + 1;
+            while (CREATE_MODIFIERS.has(keywordOf(tokens[j]) ?? '')) {
+                j++;
+            }
+            if (keywordOf(tokens[j]) !== 'TABLE' && keywordOf(tokens[j]) !== 'VIEW') {
+                continue;
+            }
+            j++;
+            if (keywordOf(tokens[j]) === 'IF') {
+                j += 3; // IF NOT EXISTS
+            }
+            const created = readName(tokens, j);
+            if (created) {
+                tables.add(created.name);
+            }
+        } else if (keyword === 'ALTER' && keywordOf(tokens[i + 1]) === 'TABLE') {
+            let j = i + 2;
+            while (['IF', 'EXISTS', 'ONLY'].includes(keywordOf(tokens[j]) ?? '')) {
+                j++;
+            }
+            const altered = readName(tokens, j);
+            if (!altered) {
+                continue;
+            }
+            for (j = altered.next; j < tokens.length && !isPunctuation(tokens[j], ';'); j++) {
+                const action = keywordOf(tokens[j]);
+                if (action === 'ADD' && !ADD_NON_COLUMN_WORDS.has(keywordOf(tokens[j + 1]) ?? '')) {
+                    let k = j + 1;
+                    while (['COLUMN', 'IF', 'NOT', 'EXISTS'].includes(keywordOf(tokens[k]) ?? '')) {
+                        k++;
+                    }
+                    if (isIdentifier(tokens[k])) {
+                        columns.add(`${altered.name}.${identifierName(tokens[k])}`);
+                    }
+                } else if (action === 'RENAME' && keywordOf(tokens[j + 1]) === 'TO') {
+                    const renamed = readName(tokens, j + 2);
+                    if (renamed) {
+                        tables.add(renamed.name);
+                    }
+                } else if (action === 'TO' && isIdentifier(tokens[j + 1]) && keywordOf(tokens[j - 1]) !== 'RENAME') {
+                    // RENAME [COLUMN] old TO new
+                    columns.add(`${altered.name}.${identifierName(tokens[j + 1])}`);
+                }
+            }
+        }
+    }
+
+    return { tables, columns };
+}
+
+/** Names defined by WITH name [(columns)] AS (...) */
+function findCteNames(tokens: SqlToken[]): Set<string> {
+    const names = new Set<string>();
+    for (let i = 0; i < tokens.length; i++) {
+        if (!isIdentifier(tokens[i])) {
+            continue;
+        }
+        let j = i + 1;
+        if (isPunctuation(tokens[j], '(')) {
+            while (j < tokens.length && !isPunctuation(tokens[j], ')')) {
+                j++;
+            }
+            j++;
+        }
+        if (keywordOf(tokens[j]) === 'AS' && (isPunctuation(tokens[j + 1], '(') || keywordOf(tokens[j + 1]) === 'MATERIALIZED' || keywordOf(tokens[j + 1]) === 'NOT')) {
+            names.add(identifierName(tokens[i]));
+        }
+    }
+    return names;
+}
+
+function isSystemName(reference: SqlTableReference): boolean {
+    const schema = reference.schema ?? '';
+    return schema.startsWith('pg_') || schema === 'information_schema' || (!reference.schema && reference.table.startsWith('pg_'));
+}
+
+/**
+ * Problems in a SQL script: UPDATE/DELETE without WHERE always, and, while the
+ * schema model is available, unknown schemas, tables and columns and joins
+ * that compare a foreign key column with a column of another type or another
+ * column than the one it references.
+ */
+export async function findSqlProblems(text: string, schemaModel: SqlSchemaModel, token?: vscode.CancellationToken): Promise<SqlProblem[]> {
+    const problems: SqlProblem[] = [];
+    const tokens = tokenizeSql(text);
+    const statements = splitStatements(text, tokens);
+    const scriptObjects = findScriptObjects(tokens);
+    const knownSchemas = new Set(await schemaModel.schemas(token));
+
+    for (const statement of statements) {
+        const analysis = analyzeSql(statement.text).statements[0];
+        if (analysis?.missingWhere) {
+            const first = statement.tokens[0];
+            problems.push({
+                start: first.start,
+                end: first.end,
+                code: 'missing-where',
+                message: `${analysis.kind.toUpperCase()} on ${analysis.affectedTables.join(', ') || 'the table'} has no WHERE clause and affects every row.`
+            });
+        }
+        if (!schemaModel.available || knownSchemas.size === 0) {
+            continue;
+        }
+
+        const statementTokens = statement.tokens;
+        const ctes = findCteNames(statementTokens);
+        const references = findTableReferences(statementTokens);
+        const resolved = new Map<SqlTableReference, ResolvedTable>();
+
+        for (const reference of references) {
+            if (isSystemName(reference) || scriptObjects.tables.has(reference.table) || (!reference.schema && ctes.has(reference.table))) {
+                continue;
+            }
+            const table = await schemaModel.resolveTable(reference, token);
+            if (table) {
+                resolved.set(reference, table);
+            } else if (reference.schema && !knownSchemas.has(reference.schema)) {
+                problems.push({ start: reference.start, end: reference.end, code: 'unknown-schema', message: `Schema "${reference.schema}" does not exist.` });
+            } else {
+                const searched = reference.schema ? [reference.schema] : schemaModel.getSearchPath().filter(schema => knownSchemas.has(schema));
+                if (searched.length > 0) {
+                    problems.push({
+                        start: reference.start,
+                        end: reference.end,
+                        code: 'unknown-table',
+                        message: `Table "${reference.table}" not found in schema ${searched.map(schema => `"${schema}"`).join(', ')}.`
+                    });
+                }
+            }
+        }
+
+        const checkColumn = async (columnToken: SqlToken, table: ResolvedTable) => {
+            const column = identifierName(columnToken);
+            if (scriptObjects.columns.has(`${table.table}.${column}`)) {
+                return;
+            }
+            const columns = await schemaModel.columns(table, token);
+            if (columns.length > 0 && !columns.some(c => c.name === column)) {
+                problems.push({
+                    start: columnToken.start,
+                    end: columnToken.end,
+                    code: 'unknown-column',
+                    message: `Column "${column}" does not exist in table "${table.schema}.${table.table}".`,
+                    table
+                });
+            }
+        };
+
+        // qualifier.column
+        for (let i = 0; i < statementTokens.length - 2; i++) {
+            const [qualifier, dot, column, after] = [statementTokens[i], statementTokens[i + 1], statementTokens[i + 2], statementTokens[i + 3]];
+            if (!isIdentifier(qualifier) || !isPunctuation(dot, '.') || !isIdentifier(column) ||
+                isPunctuation(statementTokens[i - 1], '.') || isPunctuation(after, '.') || isPunctuation(after, '(') ||
+                references.some(reference => reference.start <= qualifier.start && qualifier.end <= reference.end)) {
+                continue;
+            }
+            const reference = findReferenceByQualifier(references, identifierName(qualifier));
+            const table = reference && resolved.get(reference);
+            if (table) {
+                await checkColumn(column, table);
+            }
+        }
+
+        // INSERT INTO t (columns) and UPDATE t SET column = ...
+        for (const [reference, table] of resolved) {
+            const index = statementTokens.findIndex(t => t.start >= reference.end);
+            if (reference.clause === 'INTO' && isPunctuation(statementTokens[index], '(')) {
+                const depth = statementTokens[index].depth + 1;
+                for (let i = index + 1; i < statementTokens.length && !(isPunctuation(statementTokens[i], ')') && statementTokens[i].depth === depth - 1); i++) {
+                    if (statementTokens[i].depth === depth && isIdentifier(statementTokens[i])) {
+                        await checkColumn(statementTokens[i], table);
+                    }
+                }
+            } else if (reference.clause === 'UPDATE') {
+                const set = statementTokens.findIndex((t, i) => i >= index && t.depth === statementTokens[index]?.depth && keywordOf(t) === 'SET');
+                for (let i = set + 1; set !== -1 && i < statementTokens.length; i++) {
+                    const keyword = keywordOf(statementTokens[i]);
+                    if (statementTokens[i].depth === statementTokens[set].depth && (keyword === 'FROM' || keyword === 'WHERE' || keyword === 'RETURNING')) {
+                        break;
+                    }
+                    const previous = statementTokens[i - 1];
+                    if (isIdentifier(statementTokens[i]) && isOperator(statementTokens[i + 1], '=') &&
+                        (i - 1 === set || (isPunctuation(previous, ',') && previous.depth === statementTokens[set].depth))) {
+                        await checkColumn(statementTokens[i], table);
+                    }
+                }
+            }
+        }
+
+        // a.x = b.y comparisons involving foreign key columns
+        for (let i = 0; i + 6 < statementTokens.length; i++) {
+            const t = statementTokens.slice(i, i + 7);
+            if (!isIdentifier(t[0]) || !isPunctuation(t[1], '.') || !isIdentifier(t[2]) || !isOperator(t[3], '=') ||
+                !isIdentifier(t[4]) || !isPunctuation(t[5], '.') || !isIdentifier(t[6])) {
+                continue;
+            }
+            const left = findReferenceByQualifier(references, identifierName(t[0]));
+            const right = findReferenceByQualifier(references, identifierName(t[4]));
+            const leftTable = left && resolved.get(left);
+            const rightTable = right && resolved.get(right);
+            if (!leftTable || !rightTable) {
+                continue;
+            }
+            const problem = await checkJoin(
+                schemaModel,
+                { table: leftTable, column: identifierName(t[2]) },
+                { table: rightTable, column: identifierName(t[6]) },
+                token
+            );
+            if (problem) {
+                problems.push({ start: t[0].start, end: t[6].end, ...problem });
+            }
+        }
+    }
+
+    return problems;
+}
+
+async function checkJoin(
+    schemaModel: SqlSchemaModel,
+    left: { table: ResolvedTable; column: string },
+    right: { table: ResolvedTable; column: string },
+    token?: vscode.CancellationToken
+): Promise<Pick<SqlProblem, 'code' | 'message'> | undefined> {
+    const leftName = `${left.table.table}.${left.column}`;
+    const rightName = `${right.table.table}.${right.column}`;
+
+    // A foreign key between the two tables compared with another column than the one it references
+    for (const relationship of await schemaModel.relationshipsBetween(left.table, right.table, token)) {
+        for (const [from, to] of [[left, right], [right, left]]) {
+            if (relationship.from_table === from.table.table && relationship.from_column === from.column &&
+                relationship.to_table === to.table.table && relationship.to_column !== to.column) {
+                return {
+                    code: 'join-column-mismatch',
+                    message: `${from.table.table}.${from.column} references ${relationship.to_table}.${relationship.to_column}, but is compared with ${to.table.table}.${to.column}.`
+                };
+            }
+        }
+    }
+
+    const isKeyColumn = async (side: { table: ResolvedTable; column: string }) =>
+        (await schemaModel.relationshipsOf(side.table, token)).some(relationship =>
+            (relationship.from_table === side.table.table && relationship.from_column === side.column) ||
+            (relationship.to_table === side.table.table && relationship.to_column === side.column));
+    if (!await isKeyColumn(left) && !await isKeyColumn(right)) {
+        return undefined;
+    }
+
+    const leftType = (await schemaModel.columns(left.table, token)).find(column => column.name === left.column)?.type;
+    const rightType = (await schemaModel.columns(right.table, token)).find(column => column.name === right.column)?.type;
+    if (leftType && rightType && pgTypeFamily(leftType) !== pgTypeFamily(rightType)) {
+        return {
+            code: 'join-type-mismatch',
+            message: `Join compares ${leftName} (${leftType}) with ${rightName} (${rightType}); the foreign key column types do not match.`
+        };
+    }
+    return undefined;
+}
+
+/**
+ * Validates SQL files against the live schema of the active profile, in open
+ * editors or across the workspace depending on `toolsBridger.diagnostics`.
+ */
+export class SqlDiagnostics implements vscode.Disposable {
+    private readonly collection = vscode.languages.createDiagnosticCollection('toolsBridger');
+    private readonly timers = new Map<string, NodeJS.Timeout>();
+    private readonly generations = new Map<string, number>();
+    /** Tables of unknown column diagnostics, by `uri#offset` */
+    private readonly columnTables = new Map<string, ResolvedTable>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private schemaModel: SqlSchemaModel, mcpClient: McpClient, schemaCache: SchemaCache) {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*.sql');
+        this.disposables.push(
+            this.collection,
+            watcher,
+            vscode.workspace.onDidOpenTextDocument(document => {
+                // Workspace validation opens files it has already validated
+                if (!this.generations.has(document.uri.toString())) {
+                    this.schedule(document);
+                }
+            }),
+            vscode.workspace.onDidChangeTextDocument(event => this.schedule(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                if (this.getMode() !== 'workspace') {
+                    this.forget(document.uri);
+                }
+            }),
+            watcher.onDidChange(uri => this.scheduleFile(uri)),
+            watcher.onDidCreate(uri => this.scheduleFile(uri)),
+            watcher.onDidDelete(uri => this.forget(uri)),
+            schemaCache.onDidInvalidate(() => this.revalidate()),
+            mcpClient.onDidChangeActiveProfile(() => this.revalidate()),
+            mcpClient.onDidChangeState(change => {
+                if (change.profile === mcpClient.getActiveProfile().name && change.state === 'connected') {
+                    this.revalidate();
+                }
+            }),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('toolsBridger.diagnostics') || event.affectsConfiguration('toolsBridger.searchPath')) {
+                    this.revalidate();
+                }
+            })
+        );
+        this.revalidate();
+    }
+
+    getMode(): SqlDiagnosticsMode {
+        return vscode.workspace.getConfiguration('toolsBridger').get<SqlDiagnosticsMode>('diagnostics', 'openFiles');
+    }
+
+    /** Table an unknown column diagnostic refers to */
+    getColumnTable(uri: vscode.Uri, offset: number): ResolvedTable | undefined {
+        return this.columnTables.get(`${uri.toString()}#${offset}`);
+    }
+
+    /** Validate open SQL documents, and every workspace SQL file in workspace mode */
+    revalidate() {
+        if (this.getMode() === 'off') {
+            this.collection.clear();
+            this.columnTables.clear();
+            return;
+        }
+        vscode.workspace.textDocuments.forEach(document => this.schedule(document));
+        if (this.getMode() === 'workspace') {
+            this.validateWorkspace().catch(error => console.error('Failed to validate workspace SQL files:', error));
+        }
+    }
+
+    /** Validate every SQL file in the workspace, whatever the mode */
+    async validateWorkspace(token?: vscode.CancellationToken): Promise<number> {
+        const uris = await vscode.workspace.findFiles('**/*.sql', '**/node_modules/**', MAX_WORKSPACE_FILES, token);
+        for (const uri of uris) {
+            if (token?.isCancellationRequested) {
+                break;
+            }
+            await this.validate(await vscode.workspace.openTextDocument(uri));
+        }
+        return uris.length;
+    }
+
+    async validate(document: vscode.TextDocument) {
+        if (document.languageId !== 'sql' || document.uri.scheme === 'git') {
+            return;
+        }
+        const key = document.uri.toString();
+        const generation = (this.generations.get(key) ?? 0) + 1;
+        this.generations.set(key, generation);
+
+        const problems = await findSqlProblems(document.getText(), this.schemaModel);
+        if (this.generations.get(key) !== generation) {
+            return; // a newer validation of the document is running
+        }
+
+        for (const columnKey of [...this.columnTables.keys()]) {
+            if (columnKey.startsWith(`${key}#`)) {
+                this.columnTables.delete(columnKey);
+            }
+        }
+        this.collection.set(document.uri, problems.map(problem => {
+            const range = new vscode.Range(document.positionAt(problem.start), document.positionAt(problem.end));
+            const diagnostic = new vscode.Diagnostic(range, problem.message, vscode.DiagnosticSeverity.Warning);
+            diagnostic.source = DIAGNOSTIC_SOURCE;
+            diagnostic.code = problem.code;
+            if (problem.table) {
+                this.columnTables.set(`${key}#${problem.start}`, problem.table);
+            }
+            return diagnostic;
+        }));
+    }
+
+    private schedule(document: vscode.TextDocument) {
+        if (document.languageId !== 'sql' || this.getMode() === 'off') {
+            return;
+        }
+        const key = document.uri.toString();
+        clearTimeout(this.timers.get(key));
+        this.timers.set(key, setTimeout(() => {
+            this.timers.delete(key);
+            this.validate(document).catch(error => console.error(`Failed to validate ${key}:`, error));
+        }, VALIDATION_DELAY_MS));
+    }
+
+    private scheduleFile(uri: vscode.Uri) {
+        if (this.getMode() !== 'workspace') {
+            return;
+        }
+        vscode.workspace.openTextDocument(uri).then(document => this.schedule(document), () => this.forget(uri));
+    }
+
+    private forget(uri: vscode.Uri) {
+        this.collection.delete(uri);
+        this.generations.delete(uri.toString());
+    }
+
+    dispose() {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+/** Quick fixes replacing an unknown column with the server's `fuzzy_column_match` suggestions */
+export class SqlQuickFixProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    constructor(private diagnostics: SqlDiagnostics, private mcpClient: McpClient) {}
+
+    async provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range,
+        context: vscode.CodeActionContext,
+        token: vscode.CancellationToken
+    ): Promise<vscode.CodeAction[]> {
+        const actions: vscode.CodeAction[] = [];
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== DIAGNOSTIC_SOURCE || diagnostic.code !== 'unknown-column' || !this.mcpClient.isConnected()) {
+                continue;
+            }
+            const table = this.diagnostics.getColumnTable(document.uri, document.offsetAt(diagnostic.range.start));
+            if (!table) {
+                continue;
+            }
+
+            let matches: FuzzyColumnMatchResponse;
+            try {
+                matches = await this.mcpClient.json<FuzzyColumnMatchResponse>('fuzzy_column_match', {
+                    schema: table.schema,
+                    table: table.table,
+                    keyword: identifierName(tokenizeSql(document.getText(diagnostic.range))[0])
+                }, { token });
+            } catch {
+                continue;
+            }
+
+            const suggestions = [...(matches.all_matches ?? [])]
+                .sort((a, b) => b.similarity - a.similarity)
+                .slice(0, MAX_QUICK_FIXES);
+            for (const match of suggestions) {
+                const action = new vscode.CodeAction(`Change to "${match.column}" (${Math.round(match.similarity * 100)}% match)`, vscode.CodeActionKind.QuickFix);
+                action.edit = new vscode.WorkspaceEdit();
+                action.edit.replace(document.uri, diagnostic.range, quoteIdentifier(match.column));
+                action.diagnostics = [diagnostic];
+                action.isPreferred = match.column === matches.best_match;
+                actions.push(action);
+            }
+        }
+        return actions;
+    }
+}
+
+/** Register SQL file diagnostics, their quick fixes and the workspace validation command */
+export function registerSqlDiagnostics(context: vscode.ExtensionContext, mcpClient: McpClient, schemaCache: SchemaCache, schemaModel: SqlSchemaModel) {
+    const diagnostics = new SqlDiagnostics(schemaModel, mcpClient, schemaCache);
+
+    context.subscriptions.push(
+        diagnostics,
+        vscode.languages.registerCodeActionsProvider(SQL_SELECTOR, new SqlQuickFixProvider(diagnostics, mcpClient), {
+            providedCodeActionKinds: SqlQuickFixProvider.providedCodeActionKinds
+        }),
+        vscode.commands.registerCommand('toolsBridger.validateSqlFiles', async () => {
+            if (!mcpClient.isConnected()) {
+                vscode.window.showWarningMessage('Connect to the MCP server first: SQL files are validated against the live schema of the active profile.');
+                return;
+            }
+            const count = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Validating SQL files',
+                cancellable: true
+            }, (_progress, token) => diagnostics.validateWorkspace(token));
+            vscode.window.showInformationMessage(`Validated ${count} SQL file(s). Problems are listed in the Problems panel.`);
+        })
+    );
+}
@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import { splitStatements, SqlStatement } from '../sql';
+import { QueryExecutor } from '../results/queryExecutor';
+import { ExplainPlanStore } from '../explain/explainPlanStore';
+import { IExplainQueryParams } from '../types';
+
+const SQL_SELECTOR: vscode.DocumentSelector = [{ language: 'sql' }];
+const ASK_PROMPT_LENGTH = 4000;
+
+/** Statement containing the offset, or the last one ending before it (the cursor is often just after the `;`) */
+export function findStatementAt(statements: SqlStatement[], offset: number): SqlStatement | undefined {
+    let candidate: SqlStatement | undefined;
+    for (const statement of statements) {
+        if (statement.start > offset) {
+            break;
+        }
+        candidate = statement;
+    }
+    return candidate;
+}
+
+/** The editor's selection, or the statement under the cursor when nothing is selected */
+function queryFromEditor(editor: vscode.TextEditor): string | undefined {
+    const { document, selection } = editor;
+    if (!selection.isEmpty) {
+        return document.getText(selection).trim() || undefined;
+    }
+    const text = document.getText();
+    return findStatementAt(splitStatements(text), document.offsetAt(selection.active))?.text;
+}
+
+/** Query passed by a CodeLens, or taken from the active editor */
+function resolveQuery(query?: string): string | undefined {
+    if (query) {
+        return query;
+    }
+    const editor = vscode.window.activeTextEditor;
+    const resolved = editor && queryFromEditor(editor);
+    if (!resolved) {
+        vscode.window.showInformationMessage('Place the cursor in a SQL statement or select the query to run.');
+    }
+    return resolved;
+}
+
+/** "Run", "Explain" and "Ask @dbTools" above each statement of a SQL file */
+export class SqlCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+    private readonly listener: vscode.Disposable;
+
+    constructor() {
+        this.listener = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('toolsBridger.codeLens')) {
+                this._onDidChangeCodeLenses.fire();
+            }
+        });
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        if (!vscode.workspace.getConfiguration('toolsBridger').get<boolean>('codeLens', true)) {
+            return [];
+        }
+
+        const lenses: vscode.CodeLens[] = [];
+        for (const statement of splitStatements(document.getText())) {
+            const range = new vscode.Range(document.positionAt(statement.start), document.positionAt(statement.start));
+            lenses.push(
+                new vscode.CodeLens(range, { title: '$(play) Run', command: 'toolsBridger.runSql', arguments: [statement.text] }),
+                new vscode.CodeLens(range, { title: 'Explain', command: 'toolsBridger.explainSql', arguments: [statement.text] }),
+                new vscode.CodeLens(range, { title: 'Ask @dbTools', command: 'toolsBridger.askAboutSql', arguments: [statement.text] })
+            );
+        }
+        return lenses;
+    }
+
+    dispose() {
+        this.listener.dispose();
+        this._onDidChangeCodeLenses.dispose();
+    }
+}
+
+/** Explain through the `postgresql_explainQuery` tool so the editor reports the same problems as chat */
+async function explainSql(query: string, planStore: ExplainPlanStore) {
+    const lastPlanId = planStore.lastId;
+    const input: IExplainQueryParams = { query };
+
+    const toolResult = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Running EXPLAIN',
+        cancellable: true
+    }, (_progress, token) => vscode.lm.invokeTool('postgresql_explainQuery', { toolInvocationToken: undefined, input }, token));
+
+    const stored = planStore.since(lastPlanId).pop();
+    if (stored) {
+        await vscode.commands.executeCommand('toolsBridger.openExplainPlan', stored.id);
+        return;
+    }
+    const text = toolResult.content
+        .filter((part): part is vscode.LanguageModelTextPart => part instanceof vscode.LanguageModelTextPart)
+        .map(part => part.value)
+        .join('\n');
+    vscode.window.showErrorMessage(text.replace(/[*`]/g, '').split('\n')[0] || 'EXPLAIN failed.');
+}
+
+async function askAboutSql(query: string) {
+    const statement = query.length > ASK_PROMPT_LENGTH ? `${query.slice(0, ASK_PROMPT_LENGTH)}\n-- …` : query;
+    await vscode.commands.executeCommand('workbench.action.chat.open', {
+        query: `@dbTools Explain what this query does and whether it can be improved:\n\`\`\`sql\n${statement}\n\`\`\`\n`,
+        isPartialQuery: true
+    });
+}
+
+/** Register the SQL editor commands and CodeLens */
+export function registerSqlEditor(context: vscode.ExtensionContext, queryExecutor: QueryExecutor, planStore: ExplainPlanStore) {
+    const codeLensProvider = new SqlCodeLensProvider();
+
+    context.subscriptions.push(
+        codeLensProvider,
+        vscode.languages.registerCodeLensProvider(SQL_SELECTOR, codeLensProvider),
+        vscode.commands.registerCommand('toolsBridger.runSql', async (query?: string) => {
+            const resolved = resolveQuery(query);
+            if (resolved) {
+                await queryExecutor.runWithConfirmation(resolved);
+            }
+        }),
+        vscode.commands.registerCommand('toolsBridger.explainSql', async (query?: string) => {
+            const resolved = resolveQuery(query);
+            if (!resolved) {
+                return;
+            }
+            try {
+                await explainSql(resolved, planStore);
+            } catch (error) {
+                if (!(error instanceof vscode.CancellationError)) {
+                    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+                    vscode.window.showErrorMessage(`EXPLAIN failed: ${errorMessage}`);
+                }
+            }
+        }),
+        vscode.commands.registerCommand('toolsBridger.askAboutSql', async (query?: string) => {
+            const resolved = resolveQuery(query);
+            if (resolved) {
+                await askAboutSql(resolved);
+            }
+        })
+    );
+}
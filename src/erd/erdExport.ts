@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import { McpClient } from '../mcpClient';
+import { SchemaCache } from '../schemaCache';
+import { toErdModel } from './erdModel';
+import { ERD_FORMATS, ErdFormat, isErdFormat, renderErd } from './erdFormats';
+
+export interface ErdDiagram {
+    diagram: string;
+    format: ErdFormat;
+    /** True when the server's `generate_erd_mermaid` tool produced the diagram */
+    fromServer: boolean;
+}
+
+/**
+ * Generate a schema's ERD in the given format. Mermaid comes from the server's
+ * `generate_erd_mermaid` tool when it has one; every other format, and Mermaid
+ * on servers without that tool, is rendered from the `generate_erd_json` data.
+ */
+export async function generateErdDiagram(
+    mcpClient: McpClient,
+    schemaCache: SchemaCache,
+    schema: string,
+    format: ErdFormat = 'mermaid',
+    token?: vscode.CancellationToken
+): Promise<ErdDiagram> {
+    if (format === 'mermaid') {
+        const tools = await schemaCache.cached('tools/list', {}, (_loadToken, profile) => mcpClient.listTools(profile), token);
+        if (tools.some(tool => tool.name === 'generate_erd_mermaid')) {
+            const result = await schemaCache.generateErdMermaid(schema, token);
+            return { diagram: result?.diagram ?? '', format, fromServer: true };
+        }
+    }
+    const erd = await schemaCache.generateErdJson(schema, token);
+    return { diagram: renderErd(toErdModel(schema, erd), format), format, fromServer: false };
+}
+
+async function pickFormat(): Promise<ErdFormat | undefined> {
+    const picked = await vscode.window.showQuickPick(
+        (Object.keys(ERD_FORMATS) as ErdFormat[]).map(format => ({
+            label: ERD_FORMATS[format].label,
+            description: `.${ERD_FORMATS[format].extension}`,
+            format
+        })),
+        { title: 'Export ERD', placeHolder: 'Diagram format' }
+    );
+    return picked?.format;
+}
+
+/** Register the command writing a schema's ERD to a workspace file */
+export function registerErdExportCommand(context: vscode.ExtensionContext, mcpClient: McpClient, schemaCache: SchemaCache) {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('toolsBridger.exportErd', async (schema?: string, format?: string) => {
+            try {
+                if (!mcpClient.isConnected()) {
+                    await mcpClient.connect();
+                }
+                if (!schema) {
+                    schema = await vscode.window.showQuickPick((await schemaCache.listSchemas()).schemas, {
+                        title: 'Export ERD',
+                        placeHolder: 'Schema to export'
+                    });
+                    if (!schema) {
+                        return;
+                    }
+                }
+                const erdFormat = isErdFormat(format) ? format : await pickFormat();
+                if (!erdFormat) {
+                    return;
+                }
+
+                const formatInfo = ERD_FORMATS[erdFormat];
+                const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+                const fileName = `${schema}-erd.${formatInfo.extension}`;
+                const target = await vscode.window.showSaveDialog({
+                    defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName) : undefined,
+                    filters: { [formatInfo.label]: [formatInfo.extension] },
+                    saveLabel: `Export ${formatInfo.label}`
+                });
+                if (!target) {
+                    return;
+                }
+
+                const selectedSchema = schema;
+                const { diagram } = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Window,
+                    title: `Generating ERD of ${selectedSchema}`
+                }, () => generateErdDiagram(mcpClient, schemaCache, selectedSchema, erdFormat));
+                await vscode.workspace.fs.writeFile(target, Buffer.from(diagram, 'utf8'));
+                const choice = await vscode.window.showInformationMessage(`Exported the ERD of ${schema} to ${vscode.workspace.asRelativePath(target)}.`, 'Open File');
+                if (choice === 'Open File') {
+                    await vscode.window.showTextDocument(target);
+                }
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+                vscode.window.showErrorMessage(`Failed to export the ERD: ${errorMessage}`);
+            }
+        })
+    );
+}
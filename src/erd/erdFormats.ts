@@ -0,0 +1,178 @@
+import { ErdModel, ErdTable } from './erdModel';
+
+export type ErdFormat = 'mermaid' | 'dbml' | 'plantuml' | 'dot';
+
+export interface ErdFormatInfo {
+    label: string;
+    /** File extension, without the dot */
+    extension: string;
+    /** Language of Markdown code fences */
+    fence: string;
+}
+
+export const ERD_FORMATS: Record<ErdFormat, ErdFormatInfo> = {
+    mermaid: { label: 'Mermaid', extension: 'mmd', fence: 'mermaid' },
+    dbml: { label: 'DBML', extension: 'dbml', fence: 'dbml' },
+    plantuml: { label: 'PlantUML', extension: 'puml', fence: 'plantuml' },
+    dot: { label: 'Graphviz DOT', extension: 'dot', fence: 'dot' }
+};
+
+export function isErdFormat(value: unknown): value is ErdFormat {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ERD_FORMATS, value);
+}
+
+/** Render an ERD in one of the supported diagram languages */
+export function renderErd(model: ErdModel, format: ErdFormat): string {
+    switch (format) {
+        case 'mermaid':
+            return erdToMermaid(model);
+        case 'dbml':
+            return erdToDbml(model);
+        case 'plantuml':
+            return erdToPlantUml(model);
+        case 'dot':
+            return erdToDot(model);
+    }
+}
+
+/** Entity names for languages that only allow word characters in identifiers */
+function safeName(name: string): string {
+    return name.replace(/[^A-Za-z0-9_]/g, '_');
+}
+
+/** Render an ERD as a Mermaid `erDiagram` */
+export function erdToMermaid(model: ErdModel): string {
+    const lines = ['erDiagram'];
+    for (const table of model.tables) {
+        if (table.columns.length === 0) {
+            lines.push(`    ${safeName(table.name)} {`, '    }');
+            continue;
+        }
+        lines.push(`    ${safeName(table.name)} {`);
+        for (const column of table.columns) {
+            const keys = [column.primaryKey ? 'PK' : '', column.foreignKey ? 'FK' : ''].filter(Boolean).join(', ');
+            // Mermaid types are single words; brackets and parentheses are allowed
+            const type = (column.type ?? 'column').replace(/[^A-Za-z0-9_()[\]-]/g, '_');
+            lines.push(`        ${type} ${safeName(column.name)}${keys ? ` ${keys}` : ''}`);
+        }
+        lines.push('    }');
+    }
+    for (const relationship of model.relationships) {
+        lines.push(`    ${safeName(relationship.from_table)} }o--|| ${safeName(relationship.to_table)} : "${relationship.from_column.replace(/[\r\n]+/g, ' ').replace(/"/g, '\'')}"`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+function dbmlString(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function dbmlName(...parts: string[]): string {
+    return parts.map(dbmlString).join('.');
+}
+
+/** DBML accepts plain type names and sizes as is; anything else must be quoted */
+function dbmlType(type: string | undefined): string {
+    if (!type) {
+        return 'unknown';
+    }
+    return /^\w+(\(\s*\d+(\s*,\s*\d+)?\s*\))?$/.test(type) ? type : dbmlString(type);
+}
+
+/** Render an ERD as DBML tables and references */
+export function erdToDbml(model: ErdModel): string {
+    const lines: string[] = [];
+    for (const table of model.tables) {
+        const primaryKey = table.columns.filter(column => column.primaryKey);
+        lines.push(`Table ${dbmlName(model.schema, table.name)} {`);
+        for (const column of table.columns) {
+            const settings = primaryKey.length === 1 && column.primaryKey ? ' [pk]' : '';
+            lines.push(`  ${dbmlName(column.name)} ${dbmlType(column.type)}${settings}`);
+        }
+        // Composite primary keys are declared as an index
+        if (primaryKey.length > 1) {
+            lines.push('', '  indexes {', `    (${primaryKey.map(column => dbmlName(column.name)).join(', ')}) [pk]`, '  }');
+        }
+        lines.push('}', '');
+    }
+    for (const relationship of model.relationships) {
+        lines.push(`Ref: ${dbmlName(model.schema, relationship.from_table, relationship.from_column)} > ${dbmlName(model.schema, relationship.to_table, relationship.to_column)}`);
+    }
+    return lines.join('\n').trimEnd() + '\n';
+}
+
+/** PlantUML text is line based, so names must stay on one line */
+function plantUmlText(value: string): string {
+    return value.replace(/[\r\n]+/g, ' ');
+}
+
+/** Render an ERD as a PlantUML entity diagram in information engineering notation */
+export function erdToPlantUml(model: ErdModel): string {
+    const lines = ['@startuml', 'hide circle', 'skinparam linetype ortho', ''];
+    for (const table of model.tables) {
+        const describe = (column: ErdTable['columns'][number]) => {
+            const keys = [column.primaryKey ? '<<PK>>' : '', column.foreignKey ? '<<FK>>' : ''].filter(Boolean).join(' ');
+            return `  ${column.primaryKey ? '* ' : ''}${plantUmlText(column.name)}${column.type ? ` : ${plantUmlText(column.type)}` : ''}${keys ? ` ${keys}` : ''}`;
+        };
+        const keyColumns = table.columns.filter(column => column.primaryKey);
+        const otherColumns = table.columns.filter(column => !column.primaryKey);
+
+        lines.push(`entity "${plantUmlText(table.name).replace(/"/g, '\'')}" as ${safeName(table.name)} {`);
+        lines.push(...keyColumns.map(describe));
+        if (keyColumns.length > 0 && otherColumns.length > 0) {
+            lines.push('  --');
+        }
+        lines.push(...otherColumns.map(describe));
+        lines.push('}', '');
+    }
+    for (const relationship of model.relationships) {
+        lines.push(`${safeName(relationship.from_table)} }o--|| ${safeName(relationship.to_table)} : ${plantUmlText(relationship.from_column)}`);
+    }
+    lines.push('@enduml');
+    return lines.join('\n') + '\n';
+}
+
+function dotString(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function htmlText(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Render an ERD as a Graphviz digraph, one HTML-like table per entity with a port per column */
+export function erdToDot(model: ErdModel): string {
+    const lines = [
+        `digraph ${dotString(model.schema)} {`,
+        '  graph [rankdir=LR];',
+        '  node [shape=plaintext, fontname="Helvetica", fontsize=10];',
+        '  edge [arrowhead=tee, arrowtail=crow, dir=both];',
+        ''
+    ];
+    const ports = new Map<string, Map<string, string>>();
+    for (const table of model.tables) {
+        const tablePorts = new Map(table.columns.map((column, index) => [column.name, `c${index}`]));
+        ports.set(table.name, tablePorts);
+
+        lines.push(`  ${dotString(table.name)} [label=<`);
+        lines.push('    <table border="0" cellborder="1" cellspacing="0" cellpadding="4">');
+        lines.push(`      <tr><td bgcolor="lightgrey"><b>${htmlText(table.name)}</b></td></tr>`);
+        for (const column of table.columns) {
+            const keys = [column.primaryKey ? 'PK' : '', column.foreignKey ? 'FK' : ''].filter(Boolean).join(', ');
+            const text = `${column.primaryKey ? `<u>${htmlText(column.name)}</u>` : htmlText(column.name)}${column.type ? `: ${htmlText(column.type)}` : ''}${keys ? ` (${keys})` : ''}`;
+            lines.push(`      <tr><td port="${tablePorts.get(column.name)}" align="left">${text}</td></tr>`);
+        }
+        lines.push('    </table>', '  >];');
+    }
+    lines.push('');
+
+    const endpoint = (table: string, column: string) => {
+        const port = ports.get(table)?.get(column);
+        return port ? `${dotString(table)}:${port}` : dotString(table);
+    };
+    for (const relationship of model.relationships) {
+        lines.push(`  ${endpoint(relationship.from_table, relationship.from_column)} -> ${endpoint(relationship.to_table, relationship.to_column)};`);
+    }
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
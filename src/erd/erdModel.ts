@@ -0,0 +1,96 @@
+import { GenerateErdJsonResponse, RelationshipInfo, TableInfo } from '../types';
+
+export interface ErdColumn {
+    name: string;
+    /** Only known when the server reports column types in its ERD data */
+    type?: string;
+    primaryKey: boolean;
+    foreignKey: boolean;
+}
+
+export interface ErdTable {
+    name: string;
+    columns: ErdColumn[];
+}
+
+/** ERD of one schema, normalized from `generate_erd_json` for the renderers */
+export interface ErdModel {
+    schema: string;
+    tables: ErdTable[];
+    relationships: RelationshipInfo[];
+}
+
+/** Column name and type of an ERD column entry, which servers send as a name or as `{ name, type }` */
+function readColumn(column: unknown): { name: string; type?: string } | undefined {
+    if (typeof column === 'string') {
+        return { name: column };
+    }
+    if (column && typeof column === 'object') {
+        const { name, type } = column as { name?: unknown; type?: unknown };
+        if (typeof name === 'string') {
+            return { name, type: typeof type === 'string' ? type : undefined };
+        }
+    }
+    return undefined;
+}
+
+export function toErdModel(schema: string, erd: GenerateErdJsonResponse | undefined): ErdModel {
+    const tables = (erd?.tables ?? []).map((table: TableInfo) => {
+        const primaryKeys = new Set(table.primary_keys ?? []);
+        const foreignKeys = new Set((table.foreign_keys ?? []).map(foreignKey => foreignKey.column));
+        const columns: ErdColumn[] = [];
+        for (const entry of (table.columns ?? []) as unknown[]) {
+            const column = readColumn(entry);
+            if (column) {
+                columns.push({ ...column, primaryKey: primaryKeys.has(column.name), foreignKey: foreignKeys.has(column.name) });
+            }
+        }
+        return { name: table.name, columns };
+    });
+
+    // Some servers only report foreign keys on the tables, not as relationships
+    const relationships = [...(erd?.relationships ?? [])];
+    if (relationships.length === 0) {
+        for (const table of erd?.tables ?? []) {
+            for (const foreignKey of table.foreign_keys ?? []) {
+                relationships.push({
+                    from_table: table.name,
+                    from_column: foreignKey.column,
+                    to_table: foreignKey.references.table,
+                    to_column: foreignKey.references.column
+                });
+            }
+        }
+    }
+
+    return { schema, tables, relationships };
+}
+
+/** Tables reachable from `focus` over at most `hops` relationships, in either direction */
+export function tablesWithinHops(model: ErdModel, focus: string, hops: number): Set<string> {
+    const reached = new Set([focus]);
+    let frontier = [focus];
+    for (let hop = 0; hop < hops && frontier.length > 0; hop++) {
+        const next: string[] = [];
+        for (const relationship of model.relationships) {
+            for (const [from, to] of [[relationship.from_table, relationship.to_table], [relationship.to_table, relationship.from_table]]) {
+                if (frontier.includes(from) && !reached.has(to)) {
+                    reached.add(to);
+                    next.push(to);
+                }
+            }
+        }
+        frontier = next;
+    }
+    return reached;
+}
+
+/** The part of an ERD covering the given tables and the relationships between them */
+export function subsetErd(model: ErdModel, tableNames: Set<string>): ErdModel {
+    return {
+        schema: model.schema,
+        tables: model.tables.filter(table => tableNames.has(table.name)),
+        relationships: model.relationships.filter(relationship =>
+            tableNames.has(relationship.from_table) && tableNames.has(relationship.to_table))
+    };
+}
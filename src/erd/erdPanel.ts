@@ -0,0 +1,278 @@
+import * as vscode from 'vscode';
+import { McpClient } from '../mcpClient';
+import { SchemaCache } from '../schemaCache';
+import { tokenizeSql } from '../sql';
+import { identifierName, isIdentifier } from '../sql/sqlTokenizer';
+import { SqlSchemaModel } from '../editor/schemaModel';
+import { getNonce } from '../webviewUtils';
+import { ErdModel, subsetErd, tablesWithinHops, toErdModel } from './erdModel';
+import { erdToMermaid } from './erdFormats';
+
+export interface ErdFilter {
+    /** Table the diagram is centered on; all tables are shown without one */
+    focus?: string;
+    /** Relationships to follow from the focus table */
+    hops: number;
+    /** Tables the user unchecked */
+    hidden: string[];
+}
+
+type ErdMessage =
+    | { type: 'ready' }
+    | { type: 'filter'; focus?: string; hops: number; hidden: string[] }
+    | { type: 'export'; format: 'svg' | 'png' | 'mmd'; data?: string };
+
+const DEFAULT_HOPS = 1;
+const MAX_HOPS = 5;
+
+const EXPORT_FILTERS: Record<'svg' | 'png' | 'mmd', Record<string, string[]>> = {
+    svg: { 'SVG Image': ['svg'] },
+    png: { 'PNG Image': ['png'] },
+    mmd: { 'Mermaid Diagram': ['mmd'] }
+};
+
+/** Webview panel drawing a schema's ERD with the bundled renderer in `media/erd.js` */
+export class ErdPanel {
+    static readonly viewType = 'toolsBridger.erd';
+    private static current: ErdPanel | undefined;
+
+    private ready = false;
+    private disposables: vscode.Disposable[] = [];
+
+    static show(extensionUri: vscode.Uri, model: ErdModel, filter: ErdFilter) {
+        if (ErdPanel.current) {
+            ErdPanel.current.panel.reveal(vscode.ViewColumn.Active);
+            ErdPanel.current.update(model, filter);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            ErdPanel.viewType,
+            'ERD',
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')]
+            }
+        );
+        ErdPanel.current = new ErdPanel(panel, extensionUri, model, filter);
+    }
+
+    private constructor(
+        private readonly panel: vscode.WebviewPanel,
+        private readonly extensionUri: vscode.Uri,
+        private model: ErdModel,
+        private filter: ErdFilter
+    ) {
+        this.panel.webview.html = this.getHtml();
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        this.panel.webview.onDidReceiveMessage((message: ErdMessage) => {
+            switch (message.type) {
+                case 'ready':
+                    this.ready = true;
+                    this.postDiagram();
+                    break;
+                case 'filter':
+                    this.filter = { focus: message.focus || undefined, hops: clampHops(message.hops), hidden: message.hidden };
+                    this.postDiagram();
+                    break;
+                case 'export':
+                    this.export(message.format, message.data).catch(error => {
+                        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+                        vscode.window.showErrorMessage(`Failed to export the ERD: ${errorMessage}`);
+                    });
+                    break;
+            }
+        }, null, this.disposables);
+        this.update(model, filter);
+    }
+
+    private update(model: ErdModel, filter: ErdFilter) {
+        this.model = model;
+        this.filter = filter;
+        this.panel.title = `ERD: ${model.schema}`;
+        if (this.ready) {
+            this.postDiagram();
+        }
+    }
+
+    /** Tables and relationships left after applying the focus, hops and unchecked tables */
+    private visibleModel(): ErdModel {
+        const names = this.filter.focus && this.model.tables.some(table => table.name === this.filter.focus) ?
+            tablesWithinHops(this.model, this.filter.focus, this.filter.hops) :
+            new Set(this.model.tables.map(table => table.name));
+        this.filter.hidden.forEach(name => names.delete(name));
+        return subsetErd(this.model, names);
+    }
+
+    private postDiagram() {
+        const visible = this.visibleModel();
+        this.panel.webview.postMessage({
+            type: 'load',
+            schema: this.model.schema,
+            allTables: this.model.tables.map(table => table.name),
+            tables: visible.tables,
+            relationships: visible.relationships,
+            focus: this.filter.focus,
+            hops: this.filter.hops,
+            hidden: this.filter.hidden
+        });
+    }
+
+    private async export(format: 'svg' | 'png' | 'mmd', data?: string) {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const fileName = `${this.model.schema}${this.filter.focus ? `-${this.filter.focus}` : ''}-erd.${format}`;
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName) : undefined,
+            filters: EXPORT_FILTERS[format],
+            title: 'Export ERD'
+        });
+        if (!uri) {
+            return;
+        }
+
+        let content: Uint8Array;
+        if (format === 'mmd') {
+            content = Buffer.from(erdToMermaid(this.visibleModel()), 'utf8');
+        } else if (format === 'png') {
+            content = Buffer.from((data ?? '').replace(/^data:image\/png;base64,/, ''), 'base64');
+        } else {
+            content = Buffer.from(data ?? '', 'utf8');
+        }
+        await vscode.workspace.fs.writeFile(uri, content);
+        vscode.window.showInformationMessage(`Exported the ERD to ${vscode.workspace.asRelativePath(uri)}.`);
+    }
+
+    private getHtml(): string {
+        const webview = this.panel.webview;
+        const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'erd.js'));
+        const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'erd.css'));
+        const nonce = getNonce();
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; img-src blob: data:; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <link href="${styleUri}" rel="stylesheet">
+    <title>ERD</title>
+</head>
+<body>
+    <header class="toolbar">
+        <label>Focus <select id="focus"></select></label>
+        <label>Hops <input id="hops" type="number" min="0" max="${MAX_HOPS}"></label>
+        <div class="summary" id="summary"></div>
+        <button id="zoomIn" title="Zoom in">+</button>
+        <button id="zoomOut" title="Zoom out">−</button>
+        <button id="fit">Fit</button>
+        <button id="exportSvg">Export SVG</button>
+        <button id="exportPng">Export PNG</button>
+        <button id="exportMmd">Export .mmd</button>
+    </header>
+    <main class="content">
+        <aside class="tables">
+            <input id="tableFilter" type="search" placeholder="Filter tables">
+            <div class="tableActions">
+                <button id="showAll">Show all</button>
+                <button id="hideAll">Hide all</button>
+            </div>
+            <ul id="tableList"></ul>
+        </aside>
+        <div id="canvas" class="canvas"></div>
+    </main>
+    <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+    }
+
+    dispose() {
+        ErdPanel.current = undefined;
+        this.panel.dispose();
+        while (this.disposables.length) {
+            this.disposables.pop()?.dispose();
+        }
+    }
+}
+
+function clampHops(hops: number): number {
+    return Math.min(MAX_HOPS, Math.max(0, Math.floor(Number.isFinite(hops) ? hops : DEFAULT_HOPS)));
+}
+
+/** Fetch a schema's ERD data and show it in the ERD panel */
+export async function openErd(extensionUri: vscode.Uri, mcpClient: McpClient, schemaCache: SchemaCache, schema: string, focus?: string, hops = DEFAULT_HOPS) {
+    if (!mcpClient.isConnected()) {
+        await mcpClient.connect();
+    }
+    const erd = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Window,
+        title: `Loading ERD of ${schema}`
+    }, () => schemaCache.generateErdJson(schema));
+    ErdPanel.show(extensionUri, toErdModel(schema, erd), { focus, hops: clampHops(hops), hidden: [] });
+}
+
+/** Table named at the cursor of a SQL editor, as written (possibly schema-qualified) */
+function tableAtCursor(editor: vscode.TextEditor): { schema?: string; table: string } | undefined {
+    const offset = editor.document.offsetAt(editor.selection.active);
+    const tokens = tokenizeSql(editor.document.getText());
+    const index = tokens.findIndex(token => token.start <= offset && offset <= token.end && isIdentifier(token));
+    if (index === -1) {
+        return undefined;
+    }
+    const isDot = (i: number) => tokens[i]?.type === 'punctuation' && tokens[i].value === '.';
+    if (isDot(index - 1) && isIdentifier(tokens[index - 2])) {
+        return { schema: identifierName(tokens[index - 2]), table: identifierName(tokens[index]) };
+    }
+    if (isDot(index + 1) && isIdentifier(tokens[index + 2])) {
+        return { schema: identifierName(tokens[index]), table: identifierName(tokens[index + 2]) };
+    }
+    return { table: identifierName(tokens[index]) };
+}
+
+/** Register the ERD commands: open a schema's ERD, or the ERD around the table at the editor cursor */
+export function registerErdCommands(context: vscode.ExtensionContext, mcpClient: McpClient, schemaCache: SchemaCache, schemaModel: SqlSchemaModel) {
+    const withErrorHandling = <T extends unknown[]>(handler: (...args: T) => Promise<void>) => async (...args: T) => {
+        try {
+            await handler(...args);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`Failed to show the ERD: ${errorMessage}`);
+        }
+    };
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('toolsBridger.openErd', withErrorHandling(async (schema?: string, focus?: string, hops?: number) => {
+            if (!schema) {
+                if (!mcpClient.isConnected()) {
+                    await mcpClient.connect();
+                }
+                schema = await vscode.window.showQuickPick((await schemaCache.listSchemas()).schemas, {
+                    title: 'Open ERD',
+                    placeHolder: 'Schema to draw'
+                });
+                if (!schema) {
+                    return;
+                }
+            }
+            await openErd(context.extensionUri, mcpClient, schemaCache, schema, focus, hops);
+        })),
+        vscode.commands.registerCommand('toolsBridger.openErdForTable', withErrorHandling(async () => {
+            const editor = vscode.window.activeTextEditor;
+            const reference = editor && tableAtCursor(editor);
+            if (!reference) {
+                vscode.window.showInformationMessage('Place the cursor on a table name to show its ERD.');
+                return;
+            }
+            if (!mcpClient.isConnected()) {
+                await mcpClient.connect();
+            }
+            const table = await schemaModel.resolveTable(reference);
+            if (!table) {
+                vscode.window.showWarningMessage(`Table "${reference.schema ? `${reference.schema}.` : ''}${reference.table}" was not found in the active profile's schema.`);
+                return;
+            }
+            await openErd(context.extensionUri, mcpClient, schemaCache, table.schema, table.table);
+        }))
+    );
+}
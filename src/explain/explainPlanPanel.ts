@@ -0,0 +1,150 @@
+import * as vscode from 'vscode';
+import { getNonce } from '../webviewUtils';
+import { analyzePlan } from './planAnalysis';
+import { ExplainPlanStore, StoredExplainPlan } from './explainPlanStore';
+
+/** Plan fields shown as columns of the tree, the rest are listed as node details */
+const SUMMARY_FIELDS = new Set([
+    'Node Type', 'Plans', 'Startup Cost', 'Total Cost', 'Plan Rows', 'Plan Width',
+    'Actual Startup Time', 'Actual Total Time', 'Actual Rows', 'Actual Loops'
+]);
+
+/** Webview panel rendering an EXPLAIN plan as an interactive tree */
+export class ExplainPlanPanel {
+    static readonly viewType = 'toolsBridger.explainPlan';
+    private static current: ExplainPlanPanel | undefined;
+
+    private ready = false;
+    private disposables: vscode.Disposable[] = [];
+
+    static show(extensionUri: vscode.Uri, stored: StoredExplainPlan) {
+        if (ExplainPlanPanel.current) {
+            ExplainPlanPanel.current.panel.reveal(vscode.ViewColumn.Active);
+            ExplainPlanPanel.current.update(stored);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            ExplainPlanPanel.viewType,
+            'Query Plan',
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')]
+            }
+        );
+        ExplainPlanPanel.current = new ExplainPlanPanel(panel, extensionUri, stored);
+    }
+
+    private constructor(private readonly panel: vscode.WebviewPanel, private readonly extensionUri: vscode.Uri, private stored: StoredExplainPlan) {
+        this.panel.webview.html = this.getHtml();
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        this.panel.webview.onDidReceiveMessage((message: { type: string }) => {
+            if (message.type === 'ready') {
+                this.ready = true;
+                this.postPlan();
+            }
+        }, null, this.disposables);
+        this.update(stored);
+    }
+
+    private update(stored: StoredExplainPlan) {
+        this.stored = stored;
+        this.panel.title = `Query Plan #${stored.id}`;
+        if (this.ready) {
+            this.postPlan();
+        }
+    }
+
+    private postPlan() {
+        const analysis = analyzePlan(this.stored.plan);
+        const costliest = new Set(analysis.costliest.map(summary => summary.id));
+
+        this.panel.webview.postMessage({
+            type: 'load',
+            id: this.stored.id,
+            query: this.stored.query,
+            profile: this.stored.profile,
+            analyzed: analysis.analyzed,
+            planningTime: this.stored.plan['Planning Time'],
+            executionTime: this.stored.plan['Execution Time'],
+            nodes: analysis.nodes.map(summary => ({
+                id: summary.id,
+                depth: summary.depth,
+                label: summary.label,
+                exclusiveCost: summary.exclusiveCost,
+                exclusiveTime: summary.exclusiveTime,
+                totalCost: summary.node['Total Cost'],
+                planRows: summary.node['Plan Rows'],
+                actualRows: summary.node['Actual Rows'],
+                loops: summary.node['Actual Loops'],
+                costly: costliest.has(summary.id),
+                issues: analysis.issues.filter(issue => issue.nodeId === summary.id).map(issue => issue.message),
+                details: Object.entries(summary.node)
+                    .filter(([key]) => !SUMMARY_FIELDS.has(key))
+                    .map(([key, value]) => [key, typeof value === 'object' ? JSON.stringify(value) : String(value)])
+            }))
+        });
+    }
+
+    private getHtml(): string {
+        const webview = this.panel.webview;
+        const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'explainPlan.js'));
+        const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'explainPlan.css'));
+        const nonce = getNonce();
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <link href="${styleUri}" rel="stylesheet">
+    <title>Query Plan</title>
+</head>
+<body>
+    <header class="toolbar">
+        <div class="summary" id="summary"></div>
+        <button id="expandAll">Expand All</button>
+        <button id="collapseAll">Collapse All</button>
+    </header>
+    <details class="query">
+        <summary>Query</summary>
+        <pre id="query"></pre>
+    </details>
+    <main class="content">
+        <div id="tree" class="tree" role="tree"></div>
+        <aside id="details" class="details" hidden>
+            <h3 id="detailsTitle"></h3>
+            <ul id="detailsIssues" class="issues"></ul>
+            <table id="detailsTable"></table>
+        </aside>
+    </main>
+    <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+    }
+
+    dispose() {
+        ExplainPlanPanel.current = undefined;
+        this.panel.dispose();
+        while (this.disposables.length) {
+            this.disposables.pop()?.dispose();
+        }
+    }
+}
+
+/** Register the command that opens a stored EXPLAIN plan in the plan viewer */
+export function registerExplainPlanCommands(context: vscode.ExtensionContext, planStore: ExplainPlanStore) {
+    context.subscriptions.push(vscode.commands.registerCommand('toolsBridger.openExplainPlan', (id?: number) => {
+        const stored = id !== undefined ? planStore.get(id) : planStore.latest();
+        if (!stored) {
+            vscode.window.showInformationMessage(id !== undefined ?
+                `Query plan #${id} is no longer available. Run EXPLAIN again.` :
+                'No query plans yet. Ask @dbTools why a query is slow first.');
+            return;
+        }
+        ExplainPlanPanel.show(context.extensionUri, stored);
+    }));
+}
@@ -0,0 +1,51 @@
+import { ExplainPlan } from '../types';
+
+export interface StoredExplainPlan {
+    id: number;
+    query: string;
+    profile: string;
+    executedAt: Date;
+    plan: ExplainPlan;
+}
+
+const MAX_STORED_PLANS = 20;
+
+/** Keeps the most recent EXPLAIN plans in memory for the plan viewer */
+export class ExplainPlanStore {
+    private plans: StoredExplainPlan[] = [];
+    private nextId = 1;
+
+    add(query: string, plan: ExplainPlan, profile: string): StoredExplainPlan {
+        const stored: StoredExplainPlan = {
+            id: this.nextId++,
+            query,
+            profile,
+            executedAt: new Date(),
+            plan
+        };
+
+        this.plans.push(stored);
+        if (this.plans.length > MAX_STORED_PLANS) {
+            this.plans.shift();
+        }
+        return stored;
+    }
+
+    get(id: number): StoredExplainPlan | undefined {
+        return this.plans.find(stored => stored.id === id);
+    }
+
+    latest(): StoredExplainPlan | undefined {
+        return this.plans[this.plans.length - 1];
+    }
+
+    /** Id of the most recently added plan, or 0 when nothing was stored yet */
+    get lastId(): number {
+        return this.nextId - 1;
+    }
+
+    /** Plans added after the given id */
+    since(id: number): StoredExplainPlan[] {
+        return this.plans.filter(stored => stored.id > id);
+    }
+}
@@ -0,0 +1,207 @@
+import { ExplainPlan, ExplainPlanNode, ExplainQueryResponse, RunQueryResponse } from '../types';
+
+/** Seq scans reading at least this many rows are reported */
+const LARGE_TABLE_ROWS = 10000;
+/** Actual and estimated rows differing by this factor are reported */
+const ESTIMATE_MISMATCH_FACTOR = 10;
+/** Mismatches where both counts stay below this are not worth reporting */
+const ESTIMATE_MISMATCH_MIN_ROWS = 100;
+const COSTLIEST_NODE_COUNT = 5;
+
+export interface PlanNodeSummary {
+    id: number;
+    depth: number;
+    node: ExplainPlanNode;
+    /** Node type plus relation or index, e.g. "Index Scan using users_pkey on users" */
+    label: string;
+    /** Cost of the node itself, without its children */
+    exclusiveCost: number;
+    /** Time spent in the node itself across all loops, EXPLAIN ANALYZE only */
+    exclusiveTime?: number;
+    /** Rows produced across all loops, EXPLAIN ANALYZE only */
+    actualRows?: number;
+}
+
+export interface PlanIssue {
+    nodeId: number;
+    kind: 'seqScan' | 'estimateMismatch';
+    message: string;
+}
+
+export interface PlanAnalysis {
+    plan: ExplainPlan;
+    analyzed: boolean;
+    nodes: PlanNodeSummary[];
+    costliest: PlanNodeSummary[];
+    issues: PlanIssue[];
+}
+
+/** Extract the plan from the single "QUERY PLAN" row of an EXPLAIN (FORMAT JSON) result */
+export function parseExplainResult(result: RunQueryResponse): ExplainPlan {
+    const row = result.rows?.[0];
+    if (!row) {
+        throw new Error('EXPLAIN returned no rows');
+    }
+
+    let value: unknown = row['QUERY PLAN'] ?? Object.values(row)[0];
+    if (typeof value === 'string') {
+        value = JSON.parse(value);
+    }
+
+    const plans = value as ExplainQueryResponse;
+    const plan = Array.isArray(plans) ? plans[0] : plans as unknown as ExplainPlan;
+    if (!plan || typeof plan !== 'object' || !plan.Plan) {
+        throw new Error('EXPLAIN did not return a JSON plan');
+    }
+    return plan;
+}
+
+export function nodeLabel(node: ExplainPlanNode): string {
+    let label = node['Node Type'];
+    if (node['Join Type'] && /Join|Nested Loop/.test(label)) {
+        label = `${node['Join Type']} ${label}`;
+    }
+    if (node['Index Name']) {
+        label += ` using ${node['Index Name']}`;
+    }
+    if (node['Relation Name']) {
+        const relation = node['Schema'] ? `${node['Schema']}.${node['Relation Name']}` : node['Relation Name'];
+        label += ` on ${relation}`;
+        if (node['Alias'] && node['Alias'] !== node['Relation Name']) {
+            label += ` ${node['Alias']}`;
+        }
+    }
+    return label;
+}
+
+function flattenPlan(root: ExplainPlanNode, analyzed: boolean): PlanNodeSummary[] {
+    const nodes: PlanNodeSummary[] = [];
+
+    const visit = (node: ExplainPlanNode, depth: number) => {
+        const children = node['Plans'] ?? [];
+        const loops = node['Actual Loops'] ?? 1;
+        const childCost = children.reduce((sum, child) => sum + child['Total Cost'], 0);
+
+        const summary: PlanNodeSummary = {
+            id: nodes.length,
+            depth,
+            node,
+            label: nodeLabel(node),
+            exclusiveCost: Math.max(0, node['Total Cost'] - childCost)
+        };
+
+        if (analyzed && node['Actual Total Time'] !== undefined) {
+            const childTime = children.reduce((sum, child) => sum + (child['Actual Total Time'] ?? 0) * (child['Actual Loops'] ?? 1), 0);
+            summary.exclusiveTime = Math.max(0, node['Actual Total Time'] * loops - childTime);
+            summary.actualRows = (node['Actual Rows'] ?? 0) * loops;
+        }
+
+        nodes.push(summary);
+        children.forEach(child => visit(child, depth + 1));
+    };
+
+    visit(root, 0);
+    return nodes;
+}
+
+function findIssues(nodes: PlanNodeSummary[], analyzed: boolean): PlanIssue[] {
+    const issues: PlanIssue[] = [];
+
+    for (const summary of nodes) {
+        const node = summary.node;
+
+        if (node['Node Type'] === 'Seq Scan') {
+            // Rows read = rows returned plus rows discarded by the filter
+            const rowsRead = analyzed ?
+                (summary.actualRows ?? 0) + (node['Rows Removed by Filter'] ?? 0) * (node['Actual Loops'] ?? 1) :
+                node['Plan Rows'];
+            if (rowsRead >= LARGE_TABLE_ROWS) {
+                let message = `Sequential scan on ${node['Relation Name'] ?? 'a table'} reads ${analyzed ? '' : '~'}${rowsRead.toLocaleString()} rows`;
+                if (node['Filter']) {
+                    message += ` to apply \`${node['Filter']}\`; an index on the filtered columns may help`;
+                }
+                issues.push({ nodeId: summary.id, kind: 'seqScan', message });
+            }
+        }
+
+        if (analyzed && node['Actual Rows'] !== undefined) {
+            const estimated = node['Plan Rows'];
+            const actual = node['Actual Rows'];
+            const larger = Math.max(estimated, actual);
+            const smaller = Math.max(Math.min(estimated, actual), 1);
+            if (larger >= ESTIMATE_MISMATCH_MIN_ROWS && larger / smaller >= ESTIMATE_MISMATCH_FACTOR) {
+                issues.push({
+                    nodeId: summary.id,
+                    kind: 'estimateMismatch',
+                    message: `${summary.label}: estimated ${estimated.toLocaleString()} rows, actual ${actual.toLocaleString()} per loop ` +
+                        `(${actual > estimated ? 'under' : 'over'}estimated ${Math.round(larger / smaller)}×); statistics may be stale, try ANALYZE on the table`
+                });
+            }
+        }
+    }
+
+    return issues;
+}
+
+export function analyzePlan(plan: ExplainPlan): PlanAnalysis {
+    const analyzed = plan.Plan['Actual Total Time'] !== undefined;
+    const nodes = flattenPlan(plan.Plan, analyzed);
+    const costliest = [...nodes]
+        .sort((a, b) => analyzed ? (b.exclusiveTime ?? 0) - (a.exclusiveTime ?? 0) : b.exclusiveCost - a.exclusiveCost)
+        .slice(0, COSTLIEST_NODE_COUNT);
+
+    return { plan, analyzed, nodes, costliest, issues: findIssues(nodes, analyzed) };
+}
+
+function formatMs(ms: number): string {
+    return `${ms.toFixed(ms < 10 ? 3 : 1)} ms`;
+}
+
+/** Markdown report of the costliest nodes and likely problems of a plan */
+export function formatPlanReport(analysis: PlanAnalysis, query: string): string {
+    const { plan, analyzed } = analysis;
+    const root = plan.Plan;
+
+    let output = `## ${analyzed ? 'EXPLAIN ANALYZE' : 'EXPLAIN'} Report\n\n`;
+    output += `**Query:**\n\`\`\`sql\n${query}\n\`\`\`\n\n`;
+
+    output += `**Estimated total cost:** ${root['Total Cost'].toFixed(2)} · **Estimated rows:** ${root['Plan Rows'].toLocaleString()} · **Plan nodes:** ${analysis.nodes.length}\n`;
+    if (plan['Planning Time'] !== undefined) {
+        output += `\n**Planning time:** ${formatMs(plan['Planning Time'])}`;
+    }
+    if (plan['Execution Time'] !== undefined) {
+        output += ` · **Execution time:** ${formatMs(plan['Execution Time'])}`;
+    }
+    output += '\n\n';
+
+    output += `### Costliest Nodes\n\n`;
+    if (analyzed) {
+        output += '| Node | Self Time | Actual Rows | Estimated Rows | Loops |\n| --- | --- | --- | --- | --- |\n';
+        output += analysis.costliest.map(summary =>
+            `| ${summary.label} | ${formatMs(summary.exclusiveTime ?? 0)} | ${(summary.node['Actual Rows'] ?? 0).toLocaleString()} | ${summary.node['Plan Rows'].toLocaleString()} | ${summary.node['Actual Loops'] ?? 1} |`
+        ).join('\n');
+    } else {
+        output += '| Node | Self Cost | Total Cost | Estimated Rows |\n| --- | --- | --- | --- |\n';
+        output += analysis.costliest.map(summary =>
+            `| ${summary.label} | ${summary.exclusiveCost.toFixed(2)} | ${summary.node['Total Cost'].toFixed(2)} | ${summary.node['Plan Rows'].toLocaleString()} |`
+        ).join('\n');
+    }
+    output += '\n\n';
+
+    const seqScans = analysis.issues.filter(issue => issue.kind === 'seqScan');
+    const mismatches = analysis.issues.filter(issue => issue.kind === 'estimateMismatch');
+
+    if (seqScans.length > 0) {
+        output += `### Sequential Scans on Large Tables\n\n${seqScans.map(issue => `- ⚠️ ${issue.message}`).join('\n')}\n\n`;
+    }
+    if (mismatches.length > 0) {
+        output += `### Row Estimate Mismatches\n\n${mismatches.map(issue => `- ⚠️ ${issue.message}`).join('\n')}\n\n`;
+    }
+    if (analysis.issues.length === 0) {
+        output += analyzed ?
+            'No large sequential scans or row estimate mismatches found.\n' :
+            'No large sequential scans found. Run with `analyze: true` to compare estimates with actual rows and timings.\n';
+    }
+
+    return output;
+}
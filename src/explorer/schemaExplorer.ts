@@ -0,0 +1,288 @@
+import * as vscode from 'vscode';
+import { McpClient } from '../mcpClient';
+import { SchemaCache } from '../schemaCache';
+import { quoteIdentifier } from '../results/resultExport';
+import {
+    ColumnInfo,
+    GenerateErdJsonResponse,
+    SampleColumnDataResponse,
+    TableInfo
+} from '../types';
+
+export type SchemaNode =
+    | { kind: 'schema'; schema: string }
+    | { kind: 'table'; schema: string; table: string }
+    | { kind: 'column'; schema: string; table: string; column: ColumnInfo; primaryKey: boolean; references?: string }
+    | { kind: 'message'; message: string; error?: boolean };
+
+const SAMPLE_LIMIT = 20;
+
+function errorMessageOf(error: unknown): string {
+    return error instanceof Error ? error.message : 'Unknown error occurred';
+}
+
+/**
+ * Tree of schemas → tables → columns of the active connection profile,
+ * loaded lazily through the same MCP tools the chat tools use.
+ */
+export class SchemaExplorerProvider implements vscode.TreeDataProvider<SchemaNode>, vscode.Disposable {
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<SchemaNode | undefined>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private mcpClient: McpClient, private schemaCache: SchemaCache) {
+        this.disposables.push(
+            this._onDidChangeTreeData,
+            mcpClient.onDidChangeActiveProfile(() => this.refresh()),
+            schemaCache.onDidInvalidate(() => this.refresh()),
+            mcpClient.onDidChangeState(change => {
+                if (change.profile === mcpClient.getActiveProfile().name && change.state === 'connected') {
+                    this.refresh();
+                }
+            })
+        );
+    }
+
+    refresh() {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    getTreeItem(node: SchemaNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'schema': {
+                const item = new vscode.TreeItem(node.schema, vscode.TreeItemCollapsibleState.Collapsed);
+                item.contextValue = 'schema';
+                item.iconPath = new vscode.ThemeIcon('symbol-namespace');
+                return item;
+            }
+            case 'table': {
+                const item = new vscode.TreeItem(node.table, vscode.TreeItemCollapsibleState.Collapsed);
+                item.contextValue = 'table';
+                item.iconPath = new vscode.ThemeIcon('table');
+                item.tooltip = `${node.schema}.${node.table}`;
+                return item;
+            }
+            case 'column': {
+                const item = new vscode.TreeItem(node.column.name, vscode.TreeItemCollapsibleState.None);
+                item.contextValue = 'column';
+                item.description = `${node.column.type}${node.column.is_nullable ? '' : ' not null'}`;
+                item.iconPath = new vscode.ThemeIcon(node.primaryKey ? 'key' : node.references ? 'references' : 'symbol-field');
+
+                const tooltip = new vscode.MarkdownString(`**${node.schema}.${node.table}.${node.column.name}**\n\n`);
+                tooltip.appendMarkdown(`Type: \`${node.column.type}\`${node.column.is_nullable ? ' (nullable)' : ' (not null)'}`);
+                if (node.primaryKey) {
+                    tooltip.appendMarkdown('\n\nPrimary key');
+                }
+                if (node.references) {
+                    tooltip.appendMarkdown(`\n\nForeign key → \`${node.references}\``);
+                }
+                item.tooltip = tooltip;
+                return item;
+            }
+            case 'message': {
+                const item = new vscode.TreeItem(node.message, vscode.TreeItemCollapsibleState.None);
+                item.contextValue = 'message';
+                item.iconPath = new vscode.ThemeIcon(node.error ? 'warning' : 'info');
+                return item;
+            }
+        }
+    }
+
+    async getChildren(node?: SchemaNode): Promise<SchemaNode[]> {
+        try {
+            if (!node) {
+                return await this.loadSchemas();
+            }
+            switch (node.kind) {
+                case 'schema':
+                    return await this.loadTables(node.schema);
+                case 'table':
+                    return await this.loadColumns(node.schema, node.table);
+                default:
+                    return [];
+            }
+        } catch (error) {
+            return [{ kind: 'message', message: `Failed to load: ${errorMessageOf(error)}`, error: true }];
+        }
+    }
+
+    private async ensureConnected() {
+        if (!this.mcpClient.isConnected()) {
+            await this.mcpClient.connect();
+        }
+    }
+
+    private async loadSchemas(): Promise<SchemaNode[]> {
+        await this.ensureConnected();
+        const result = await this.schemaCache.listSchemas();
+        if (!result?.schemas?.length) {
+            return [{ kind: 'message', message: 'No schemas found' }];
+        }
+        return result.schemas.map(schema => ({ kind: 'schema', schema }));
+    }
+
+    private async loadTables(schema: string): Promise<SchemaNode[]> {
+        await this.ensureConnected();
+        const result = await this.schemaCache.listTables(schema);
+        if (!result?.tables?.length) {
+            return [{ kind: 'message', message: 'No tables' }];
+        }
+        return result.tables.map(table => ({ kind: 'table', schema, table }));
+    }
+
+    private async loadColumns(schema: string, table: string): Promise<SchemaNode[]> {
+        await this.ensureConnected();
+        const [result, erd] = await Promise.all([
+            this.schemaCache.listColumns(schema, table),
+            this.getErd(schema)
+        ]);
+        if (!result?.columns?.length) {
+            return [{ kind: 'message', message: 'No columns' }];
+        }
+
+        const tableInfo: TableInfo | undefined = erd?.tables?.find(info => info.name === table);
+        return result.columns.map(column => {
+            const foreignKey = tableInfo?.foreign_keys?.find(fk => fk.column === column.name);
+            return {
+                kind: 'column',
+                schema,
+                table,
+                column,
+                primaryKey: !!tableInfo?.primary_keys?.includes(column.name),
+                references: foreignKey ? `${foreignKey.references.table}.${foreignKey.references.column}` : undefined
+            };
+        });
+    }
+
+    /** ERD data of a schema; key markers are optional, so failures only drop the icons */
+    private getErd(schema: string): Promise<GenerateErdJsonResponse | undefined> {
+        return this.schemaCache.generateErdJson(schema).catch(error => {
+            console.warn(`Failed to load key information for schema ${schema}:`, error);
+            return undefined;
+        });
+    }
+
+    dispose() {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+/** Qualified, quoted name of a schema, table or column node */
+export function qualifiedName(node: SchemaNode): string {
+    switch (node.kind) {
+        case 'schema':
+            return quoteIdentifier(node.schema);
+        case 'table':
+            return [node.schema, node.table].map(quoteIdentifier).join('.');
+        case 'column':
+            return [node.schema, node.table, node.column.name].map(quoteIdentifier).join('.');
+        default:
+            return '';
+    }
+}
+
+async function showMarkdown(content: string) {
+    const document = await vscode.workspace.openTextDocument({ content, language: 'markdown' });
+    await vscode.window.showTextDocument(document, { preview: true });
+}
+
+async function sampleColumnData(mcpClient: McpClient, node: SchemaNode) {
+    if (node.kind !== 'column') {
+        return;
+    }
+    const result = await mcpClient.json<SampleColumnDataResponse>('sample_column_data', {
+        schema: node.schema,
+        table: node.table,
+        column: node.column.name,
+        limit: SAMPLE_LIMIT
+    });
+
+    const values = result?.values ?? [];
+    let content = `# Sample data: ${node.schema}.${node.table}.${node.column.name}\n\n`;
+    content += `Type: \`${node.column.type}\`\n\n`;
+    content += values.length === 0 ?
+        'No sample values found.\n' :
+        values.map(value => `- ${value === null || value === undefined ? '*NULL*' : typeof value === 'object' ? JSON.stringify(value) : String(value)}`).join('\n') + '\n';
+    await showMarkdown(content);
+}
+
+async function findRelatedTables(schemaCache: SchemaCache, node: SchemaNode) {
+    if (node.kind !== 'table') {
+        return;
+    }
+    const result = await schemaCache.findRelatedTables(node.schema, node.table);
+
+    const related = result?.related_tables ?? [];
+    let content = `# Tables related to ${node.schema}.${node.table}\n\n`;
+    if (related.length === 0) {
+        content += 'No related tables found.\n';
+    } else {
+        content += '| Table | Foreign Key | Primary Key |\n| --- | --- | --- |\n';
+        content += related.map(rel => `| ${rel.schema}.${rel.table} | ${rel.fk_column} | ${rel.pk_column} |`).join('\n') + '\n';
+    }
+    await showMarkdown(content);
+}
+
+async function showErd(node: SchemaNode) {
+    if (node.kind !== 'schema' && node.kind !== 'table') {
+        return;
+    }
+    await vscode.commands.executeCommand('toolsBridger.openErd', node.schema, node.kind === 'table' ? node.table : undefined);
+}
+
+async function askAboutTable(node: SchemaNode) {
+    if (node.kind !== 'table') {
+        return;
+    }
+    await vscode.commands.executeCommand('workbench.action.chat.open', {
+        query: `@dbTools Tell me about the table ${node.schema}.${node.table}: its columns, keys and related tables. `,
+        isPartialQuery: true
+    });
+}
+
+/** Register the "Database" explorer view and its context menu commands */
+export function registerSchemaExplorer(context: vscode.ExtensionContext, mcpClient: McpClient, schemaCache: SchemaCache) {
+    const provider = new SchemaExplorerProvider(mcpClient, schemaCache);
+    const treeView = vscode.window.createTreeView('toolsBridger.schemaExplorer', {
+        treeDataProvider: provider,
+        showCollapseAll: true
+    });
+
+    // Wrap MCP-backed actions so failures surface as notifications
+    const withErrorHandling = (action: string, handler: (node: SchemaNode) => Promise<void>) => async (node?: SchemaNode) => {
+        const target = node ?? treeView.selection[0];
+        if (!target) {
+            return;
+        }
+        try {
+            if (!mcpClient.isConnected()) {
+                await mcpClient.connect();
+            }
+            await handler(target);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to ${action}: ${errorMessageOf(error)}`);
+        }
+    };
+
+    context.subscriptions.push(
+        provider,
+        treeView,
+        vscode.commands.registerCommand('toolsBridger.refreshSchemaExplorer', () => schemaCache.invalidate()),
+        vscode.commands.registerCommand('toolsBridger.sampleColumnData', withErrorHandling('sample column data', node => sampleColumnData(mcpClient, node))),
+        vscode.commands.registerCommand('toolsBridger.findRelatedTables', withErrorHandling('find related tables', node => findRelatedTables(schemaCache, node))),
+        vscode.commands.registerCommand('toolsBridger.showErd', withErrorHandling('show ERD', showErd)),
+        vscode.commands.registerCommand('toolsBridger.copyQualifiedName', async (node?: SchemaNode) => {
+            const target = node ?? treeView.selection[0];
+            if (target) {
+                await vscode.env.clipboard.writeText(qualifiedName(target));
+            }
+        }),
+        vscode.commands.registerCommand('toolsBridger.askAboutTable', async (node?: SchemaNode) => {
+            const target = node ?? treeView.selection[0];
+            if (target) {
+                await askAboutTable(target);
+            }
+        })
+    );
+}
@@ -1,32 +1,204 @@
 import * as vscode from 'vscode';
 import { McpClient } from './mcpClient';
-import { registerPostgreSQLTools } from './tools';
+import { ServerLog } from './serverLog';
+import { registerPostgreSQLTools, McpToolRegistry } from './tools';
 import { registerDatabaseToolsParticipant } from './databaseParticipant';
+import { registerConnectionStatus } from './connectionStatus';
+import { QueryResultStore } from './results/queryResultStore';
+import { registerQueryResultCommands } from './results/queryResultPanel';
+import { registerSchemaExplorer } from './explorer/schemaExplorer';
+import { SchemaCache } from './schemaCache';
+import { ExplainPlanStore } from './explain/explainPlanStore';
+import { registerExplainPlanCommands } from './explain/explainPlanPanel';
+import { QueryHistoryStore } from './history/queryHistoryStore';
+import { registerQueryHistoryView } from './history/queryHistoryView';
+import { QueryExecutor } from './results/queryExecutor';
+import { AuditLog, registerAuditLogCommands } from './audit/auditLog';
+import { ServerRequestHandler } from './serverRequests/serverRequestHandler';
+import { registerSqlEditor } from './editor/sqlEditor';
+import { SqlSchemaModel } from './editor/schemaModel';
+import { registerSqlCompletion } from './editor/sqlCompletion';
+import { registerSqlDiagnostics } from './editor/sqlDiagnostics';
+import { registerErdCommands } from './erd/erdPanel';
+import { registerErdExportCommand } from './erd/erdExport';
+import { registerResourceCommands } from './resources/serverResources';
+import { registerPromptCommands } from './prompts/serverPrompts';
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('VSCode PostgreSQL Tools Bridger extension is now active!');
     
+    // Server stderr, lifecycle events and MCP traffic, shown in the "Tools Bridger" output channel
+    const serverLog = new ServerLog();
+    context.subscriptions.push(serverLog);
+
     // Initialize MCP client
-    const mcpClient = new McpClient();
+    const mcpClient = new McpClient(context.secrets, serverLog);
+    context.subscriptions.push(mcpClient);
+
+    // Audit trail of MCP tool calls and user confirmations
+    const auditLog = new AuditLog(mcpClient, context.globalStorageUri);
+    context.subscriptions.push(auditLog);
+    registerAuditLogCommands(context, auditLog);
+    mcpClient.setServerRequestHandler(new ServerRequestHandler(auditLog));
+
+    // Discover tools advertised by the MCP server (dynamic bridging)
+    const toolRegistry = new McpToolRegistry(mcpClient, auditLog);
+    context.subscriptions.push(toolRegistry);
+    
+    // Schema metadata shared by the tools and the schema explorer
+    const schemaCache = new SchemaCache(mcpClient);
+    context.subscriptions.push(schemaCache);
+
+    // Recent query results, shown in the result grid webview
+    const resultStore = new QueryResultStore();
+
+    // Persistent query history and saved queries, and the executor that records them
+    const historyStore = new QueryHistoryStore(context.globalState);
+    context.subscriptions.push(historyStore);
+    const queryExecutor = new QueryExecutor(mcpClient, resultStore, schemaCache, historyStore, auditLog);
+    registerQueryResultCommands(context, resultStore, queryExecutor);
+    registerQueryHistoryView(context, historyStore, queryExecutor);
+
+    // Recent EXPLAIN plans, shown in the plan viewer webview
+    const planStore = new ExplainPlanStore();
+    registerExplainPlanCommands(context, planStore);
+
+    // Run, explain and ask about statements of SQL files
+    registerSqlEditor(context, queryExecutor, planStore);
+
+    // Schema-aware completion and hover in SQL files
+    const sqlSchemaModel = new SqlSchemaModel(mcpClient, schemaCache);
+    registerSqlCompletion(context, sqlSchemaModel);
+
+    // Validate SQL files against the live schema
+    registerSqlDiagnostics(context, mcpClient, schemaCache, sqlSchemaModel);
+    registerErdCommands(context, mcpClient, schemaCache, sqlSchemaModel);
+    registerErdExportCommand(context, mcpClient, schemaCache);
+    registerResourceCommands(context, mcpClient);
+    registerPromptCommands(context, mcpClient);
+    
+    // Register the connection profile status bar item and selector
+    registerConnectionStatus(context, mcpClient);
+    
+    // Register the "Database" schema explorer view
+    registerSchemaExplorer(context, mcpClient, schemaCache);
     
     // Register the database tools participant
-    registerDatabaseToolsParticipant(context, mcpClient);
+    registerDatabaseToolsParticipant(context, mcpClient, toolRegistry, resultStore, planStore, auditLog);
     
     // Register the PostgreSQL tools (static registration)
-    registerPostgreSQLTools(context, mcpClient);
+    registerPostgreSQLTools(context, mcpClient, queryExecutor, schemaCache, planStore, historyStore, auditLog);
+
+    // Register command to re-discover MCP server tools
+    const refreshToolsCommand = vscode.commands.registerCommand('toolsBridger.refreshTools', async () => {
+        try {
+            await toolRegistry.refresh();
+            vscode.window.showInformationMessage(`Discovered ${toolRegistry.getTools().length} additional MCP tools.`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`Failed to refresh MCP tools: ${errorMessage}`);
+        }
+    });
+
+    // Register command to drop cached schema metadata of the active profile
+    const refreshSchemaCacheCommand = vscode.commands.registerCommand('toolsBridger.refreshSchemaCache', () => {
+        schemaCache.invalidate();
+        vscode.window.showInformationMessage(`Schema cache cleared for profile "${mcpClient.getActiveProfile().name}".`);
+    });
+
+    // Register commands to manage the MCP server auth token in SecretStorage
+    const setAuthTokenCommand = vscode.commands.registerCommand('toolsBridger.setAuthToken', async () => {
+        const token = await vscode.window.showInputBox({
+            title: 'MCP Server Auth Token',
+            prompt: `Bearer token for profile "${mcpClient.getActiveProfile().name}" (stored in VS Code SecretStorage)`,
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (token === undefined) {
+            return;
+        }
+        try {
+            await mcpClient.setAuthToken(token.trim() || undefined);
+            vscode.window.showInformationMessage('MCP server auth token saved.');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`Failed to reconnect with the new auth token: ${errorMessage}`);
+        }
+    });
+
+    const clearAuthTokenCommand = vscode.commands.registerCommand('toolsBridger.clearAuthToken', async () => {
+        try {
+            await mcpClient.setAuthToken(undefined);
+            vscode.window.showInformationMessage('MCP server auth token cleared.');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`Failed to reconnect without the auth token: ${errorMessage}`);
+        }
+    });
     
+    // Register command to store secrets referenced as ${secret:name} in stdio server settings
+    const setServerSecretCommand = vscode.commands.registerCommand('toolsBridger.setServerSecret', async () => {
+        const name = await vscode.window.showInputBox({
+            title: 'MCP Server Secret',
+            prompt: 'Secret name, referenced as ${secret:name} in toolsBridger.serverEnv, serverArgs or a profile\'s env',
+            ignoreFocusOut: true,
+            validateInput: value => /^[\w.-]+$/.test(value.trim()) ? undefined : 'Use letters, digits, ".", "-" and "_"'
+        });
+        if (name === undefined) {
+            return;
+        }
+        const value = await vscode.window.showInputBox({
+            title: `MCP Server Secret "${name.trim()}"`,
+            prompt: 'Value (stored in VS Code SecretStorage); leave empty to delete the secret',
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (value === undefined) {
+            return;
+        }
+        try {
+            await mcpClient.setServerSecret(name.trim(), value || undefined);
+            vscode.window.showInformationMessage(value ? `MCP server secret "${name.trim()}" saved.` : `MCP server secret "${name.trim()}" deleted.`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`Failed to reconnect with the new secret: ${errorMessage}`);
+        }
+    });
+
+    // Register commands to restart the MCP server and show its logs
+    const restartServerCommand = vscode.commands.registerCommand('toolsBridger.restartServer', async (profileName?: string) => {
+        const name = typeof profileName === 'string' ? profileName : mcpClient.getActiveProfile().name;
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Window,
+                title: `Restarting MCP server of profile "${name}"...`
+            }, () => mcpClient.restartServer(name));
+            vscode.window.showInformationMessage(`MCP server of profile "${name}" restarted.`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`Failed to restart the MCP server: ${errorMessage}`, 'Show Server Logs').then(choice => {
+                if (choice) {
+                    serverLog.show();
+                }
+            });
+        }
+    });
+
+    const showServerLogsCommand = vscode.commands.registerCommand('toolsBridger.showServerLogs', () => serverLog.show());
+
     // Register configuration change listener
     const configListener = vscode.workspace.onDidChangeConfiguration(event => {
         if (event.affectsConfiguration('toolsBridger')) {
-            mcpClient.updateConfiguration();
+            mcpClient.updateConfiguration().catch(error => {
+                console.error('Failed to apply MCP server configuration:', error);
+            });
         }
     });
     
-    context.subscriptions.push(configListener);
+    context.subscriptions.push(refreshToolsCommand, refreshSchemaCacheCommand, setAuthTokenCommand, clearAuthTokenCommand, setServerSecretCommand, restartServerCommand, showServerLogsCommand, configListener);
 }
 
 export function deactivate() {
     console.log('VSCode PostgreSQL Tools Bridger extension is now deactivated!');
 }
 
- 
\ No newline at end of file
@@ -0,0 +1,138 @@
+import * as vscode from 'vscode';
+
+export interface QueryHistoryEntry {
+    id: string;
+    query: string;
+    profile: string;
+    /** ISO timestamp */
+    executedAt: string;
+    durationMs: number;
+    rowCount?: number;
+    /** Error message of a failed or cancelled query */
+    error?: string;
+}
+
+export interface SavedQueryParameter {
+    name: string;
+    description?: string;
+    defaultValue?: string;
+}
+
+export interface SavedQuery {
+    id: string;
+    name: string;
+    query: string;
+    tags: string[];
+    /** Values for the `${name}` placeholders of the query, asked for when it runs */
+    parameters: SavedQueryParameter[];
+    /** ISO timestamp */
+    createdAt: string;
+}
+
+export interface QueryHistorySearch {
+    /** Whitespace-separated terms that must all appear in the query, name or tags */
+    text?: string;
+    tags?: string[];
+    profile?: string;
+    includeFailed?: boolean;
+    limit?: number;
+}
+
+const HISTORY_KEY = 'toolsBridger.queryHistory';
+const SAVED_QUERIES_KEY = 'toolsBridger.savedQueries';
+const MAX_HISTORY_ENTRIES = 500;
+const DEFAULT_SEARCH_LIMIT = 10;
+
+function newId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function matchesTerms(haystack: string, text?: string): boolean {
+    const lower = haystack.toLowerCase();
+    return (text ?? '').toLowerCase().split(/\s+/).filter(Boolean).every(term => lower.includes(term));
+}
+
+/**
+ * Persistent history of executed queries and the saved query library, kept in
+ * the extension's global state so they are shared across workspaces.
+ */
+export class QueryHistoryStore implements vscode.Disposable {
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange = this._onDidChange.event;
+
+    constructor(private state: vscode.Memento) {}
+
+    /** History entries, newest first */
+    getHistory(): QueryHistoryEntry[] {
+        return this.state.get<QueryHistoryEntry[]>(HISTORY_KEY, []);
+    }
+
+    getSavedQueries(): SavedQuery[] {
+        return this.state.get<SavedQuery[]>(SAVED_QUERIES_KEY, []);
+    }
+
+    async record(entry: Omit<QueryHistoryEntry, 'id'>): Promise<QueryHistoryEntry> {
+        const recorded: QueryHistoryEntry = { id: newId(), ...entry };
+        const history = [recorded, ...this.getHistory()].slice(0, MAX_HISTORY_ENTRIES);
+        await this.state.update(HISTORY_KEY, history);
+        this._onDidChange.fire();
+        return recorded;
+    }
+
+    async removeHistoryEntry(id: string) {
+        await this.state.update(HISTORY_KEY, this.getHistory().filter(entry => entry.id !== id));
+        this._onDidChange.fire();
+    }
+
+    async clearHistory() {
+        await this.state.update(HISTORY_KEY, []);
+        this._onDidChange.fire();
+    }
+
+    async saveQuery(query: Omit<SavedQuery, 'id' | 'createdAt'>): Promise<SavedQuery> {
+        const saved: SavedQuery = { id: newId(), createdAt: new Date().toISOString(), ...query };
+        const savedQueries = [...this.getSavedQueries().filter(existing => existing.name !== saved.name), saved]
+            .sort((a, b) => a.name.localeCompare(b.name));
+        await this.state.update(SAVED_QUERIES_KEY, savedQueries);
+        this._onDidChange.fire();
+        return saved;
+    }
+
+    async removeSavedQuery(id: string) {
+        await this.state.update(SAVED_QUERIES_KEY, this.getSavedQueries().filter(saved => saved.id !== id));
+        this._onDidChange.fire();
+    }
+
+    searchSavedQueries(search: QueryHistorySearch = {}): SavedQuery[] {
+        const tags = (search.tags ?? []).map(tag => tag.toLowerCase());
+        return this.getSavedQueries()
+            .filter(saved => matchesTerms(`${saved.name}\n${saved.tags.join(' ')}\n${saved.query}`, search.text))
+            .filter(saved => tags.every(tag => saved.tags.some(savedTag => savedTag.toLowerCase() === tag)))
+            .slice(0, search.limit ?? DEFAULT_SEARCH_LIMIT);
+    }
+
+    /** Matching history entries, newest first, without repeating the same query text */
+    searchHistory(search: QueryHistorySearch = {}): QueryHistoryEntry[] {
+        const seen = new Set<string>();
+        const matches: QueryHistoryEntry[] = [];
+        for (const entry of this.getHistory()) {
+            if (matches.length >= (search.limit ?? DEFAULT_SEARCH_LIMIT)) {
+                break;
+            }
+            const key = entry.query.trim();
+            if (seen.has(key) ||
+                (entry.error && !search.includeFailed) ||
+                (search.profile && entry.profile !== search.profile) ||
+                !matchesTerms(entry.query, search.text)) {
+                continue;
+            }
+            seen.add(key);
+            matches.push(entry);
+        }
+        return matches;
+    }
+
+    dispose() {
+        this._onDidChange.dispose();
+    }
+}
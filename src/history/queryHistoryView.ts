@@ -0,0 +1,248 @@
+import * as vscode from 'vscode';
+import { QueryExecutor } from '../results/queryExecutor';
+import { QueryHistoryEntry, QueryHistoryStore, SavedQuery } from './queryHistoryStore';
+import { findParameterNames, substituteParameters } from './queryParameters';
+
+export type QueryNode =
+    | { kind: 'group'; group: 'saved' | 'history' }
+    | { kind: 'saved'; saved: SavedQuery }
+    | { kind: 'history'; entry: QueryHistoryEntry }
+    | { kind: 'message'; message: string };
+
+/** History entries listed in the tree; the rest stay searchable by the chat tool */
+const MAX_VISIBLE_HISTORY = 100;
+const LABEL_LENGTH = 60;
+
+/** First line of a query, shortened for a tree label */
+function queryLabel(query: string): string {
+    const text = query.trim().replace(/\s+/g, ' ');
+    return text.length > LABEL_LENGTH ? `${text.slice(0, LABEL_LENGTH - 1)}…` : text;
+}
+
+function formatDuration(ms: number): string {
+    return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function sqlTooltip(title: string, query: string, details: string[]): vscode.MarkdownString {
+    const tooltip = new vscode.MarkdownString(`**${title}**\n\n`);
+    if (details.length > 0) {
+        tooltip.appendMarkdown(`${details.join('  \n')}\n\n`);
+    }
+    tooltip.appendCodeblock(query, 'sql');
+    return tooltip;
+}
+
+/** Tree of saved queries and recently executed queries */
+export class QueryHistoryProvider implements vscode.TreeDataProvider<QueryNode>, vscode.Disposable {
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<QueryNode | undefined>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private historyStore: QueryHistoryStore) {
+        this.disposables.push(
+            this._onDidChangeTreeData,
+            historyStore.onDidChange(() => this._onDidChangeTreeData.fire(undefined))
+        );
+    }
+
+    getTreeItem(node: QueryNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'group': {
+                const saved = node.group === 'saved';
+                const item = new vscode.TreeItem(saved ? 'Saved Queries' : 'History', vscode.TreeItemCollapsibleState.Expanded);
+                item.contextValue = saved ? 'savedGroup' : 'historyGroup';
+                item.iconPath = new vscode.ThemeIcon(saved ? 'bookmark' : 'history');
+                return item;
+            }
+            case 'saved': {
+                const { saved } = node;
+                const item = new vscode.TreeItem(saved.name, vscode.TreeItemCollapsibleState.None);
+                item.contextValue = 'savedQuery';
+                item.iconPath = new vscode.ThemeIcon('symbol-event');
+                item.description = saved.tags.join(', ');
+                item.tooltip = sqlTooltip(saved.name, saved.query, [
+                    ...(saved.tags.length > 0 ? [`Tags: ${saved.tags.join(', ')}`] : []),
+                    ...(saved.parameters.length > 0 ? [`Parameters: ${saved.parameters.map(parameter => parameter.name).join(', ')}`] : [])
+                ]);
+                return item;
+            }
+            case 'history': {
+                const { entry } = node;
+                const item = new vscode.TreeItem(queryLabel(entry.query), vscode.TreeItemCollapsibleState.None);
+                item.contextValue = 'historyEntry';
+                item.iconPath = entry.error ?
+                    new vscode.ThemeIcon('error', new vscode.ThemeColor('errorForeground')) :
+                    new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+                const executedAt = new Date(entry.executedAt).toLocaleString();
+                item.description = `${entry.profile} · ${executedAt}`;
+                item.tooltip = sqlTooltip(executedAt, entry.query, [
+                    `Profile: ${entry.profile}`,
+                    entry.error ? `Failed: ${entry.error}` : `${entry.rowCount ?? 0} rows`,
+                    `Duration: ${formatDuration(entry.durationMs)}`
+                ]);
+                return item;
+            }
+            case 'message': {
+                const item = new vscode.TreeItem(node.message, vscode.TreeItemCollapsibleState.None);
+                item.contextValue = 'message';
+                item.iconPath = new vscode.ThemeIcon('info');
+                return item;
+            }
+        }
+    }
+
+    getChildren(node?: QueryNode): QueryNode[] {
+        if (!node) {
+            return [{ kind: 'group', group: 'saved' }, { kind: 'group', group: 'history' }];
+        }
+        if (node.kind !== 'group') {
+            return [];
+        }
+
+        if (node.group === 'saved') {
+            const savedQueries = this.historyStore.getSavedQueries();
+            return savedQueries.length > 0 ?
+                savedQueries.map(saved => ({ kind: 'saved', saved })) :
+                [{ kind: 'message', message: 'No saved queries' }];
+        }
+
+        const history = this.historyStore.getHistory().slice(0, MAX_VISIBLE_HISTORY);
+        return history.length > 0 ?
+            history.map(entry => ({ kind: 'history', entry })) :
+            [{ kind: 'message', message: 'No queries run yet' }];
+    }
+
+    dispose() {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+/** Query text of a node, with saved query parameters filled in; undefined when the user cancels */
+async function resolveQuery(node: QueryNode): Promise<string | undefined> {
+    if (node.kind === 'history') {
+        return node.entry.query;
+    }
+    if (node.kind !== 'saved') {
+        return undefined;
+    }
+
+    const { saved } = node;
+    const values: Record<string, string> = {};
+    for (const parameter of saved.parameters) {
+        const value = await vscode.window.showInputBox({
+            title: `${saved.name}: ${parameter.name}`,
+            prompt: parameter.description ?? `Value for \${${parameter.name}} (inserted as a quoted literal)`,
+            value: parameter.defaultValue,
+            ignoreFocusOut: true
+        });
+        if (value === undefined) {
+            return undefined;
+        }
+        values[parameter.name] = value;
+    }
+    return substituteParameters(saved.query, values);
+}
+
+async function insertQuery(query: string) {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        const document = await vscode.workspace.openTextDocument({ content: query, language: 'sql' });
+        await vscode.window.showTextDocument(document);
+        return;
+    }
+    await editor.edit(edit => {
+        for (const selection of editor.selections) {
+            edit.replace(selection, query);
+        }
+    });
+}
+
+/** Save a query from a history entry, or from the editor selection (the whole document when nothing is selected) */
+async function saveQuery(historyStore: QueryHistoryStore, node?: QueryNode) {
+    let query: string | undefined;
+    if (node?.kind === 'history') {
+        query = node.entry.query;
+    } else {
+        const editor = vscode.window.activeTextEditor;
+        query = editor && (editor.selection.isEmpty ? editor.document.getText() : editor.document.getText(editor.selection));
+    }
+    if (!query?.trim()) {
+        vscode.window.showInformationMessage('Select a query in the editor or the query history to save it.');
+        return;
+    }
+
+    const name = await vscode.window.showInputBox({
+        title: 'Save Query',
+        prompt: 'Name of the saved query (an existing query with this name is replaced)',
+        value: queryLabel(query),
+        ignoreFocusOut: true,
+        validateInput: value => value.trim() ? undefined : 'Enter a name'
+    });
+    if (name === undefined) {
+        return;
+    }
+    const tags = await vscode.window.showInputBox({
+        title: 'Save Query',
+        prompt: 'Tags, separated by commas (optional)',
+        ignoreFocusOut: true
+    });
+    if (tags === undefined) {
+        return;
+    }
+
+    const parameters = findParameterNames(query).map(parameterName => ({ name: parameterName }));
+    await historyStore.saveQuery({
+        name: name.trim(),
+        query: query.trim(),
+        tags: tags.split(',').map(tag => tag.trim()).filter(Boolean),
+        parameters
+    });
+    vscode.window.showInformationMessage(parameters.length > 0 ?
+        `Saved query "${name.trim()}" with parameters ${parameters.map(parameter => parameter.name).join(', ')}.` :
+        `Saved query "${name.trim()}".`);
+}
+
+/** Register the "Queries" view with the saved queries and query history */
+export function registerQueryHistoryView(context: vscode.ExtensionContext, historyStore: QueryHistoryStore, queryExecutor: QueryExecutor) {
+    const provider = new QueryHistoryProvider(historyStore);
+    const treeView = vscode.window.createTreeView('toolsBridger.queryHistory', {
+        treeDataProvider: provider
+    });
+
+    const selected = (node?: QueryNode) => node ?? treeView.selection[0];
+
+    context.subscriptions.push(
+        provider,
+        treeView,
+        vscode.commands.registerCommand('toolsBridger.runStoredQuery', async (node?: QueryNode) => {
+            const target = selected(node);
+            const query = target && await resolveQuery(target);
+            if (query) {
+                await queryExecutor.runWithConfirmation(query);
+            }
+        }),
+        vscode.commands.registerCommand('toolsBridger.insertStoredQuery', async (node?: QueryNode) => {
+            const target = selected(node);
+            const query = target && await resolveQuery(target);
+            if (query) {
+                await insertQuery(query);
+            }
+        }),
+        vscode.commands.registerCommand('toolsBridger.saveQuery', (node?: QueryNode) => saveQuery(historyStore, node)),
+        vscode.commands.registerCommand('toolsBridger.deleteStoredQuery', async (node?: QueryNode) => {
+            const target = selected(node);
+            if (target?.kind === 'saved') {
+                await historyStore.removeSavedQuery(target.saved.id);
+            } else if (target?.kind === 'history') {
+                await historyStore.removeHistoryEntry(target.entry.id);
+            }
+        }),
+        vscode.commands.registerCommand('toolsBridger.clearQueryHistory', async () => {
+            const choice = await vscode.window.showWarningMessage('Clear the query history? Saved queries are kept.', { modal: true }, 'Clear History');
+            if (choice === 'Clear History') {
+                await historyStore.clearHistory();
+            }
+        })
+    );
+}
@@ -0,0 +1,23 @@
+import { sqlLiteral } from '../results/resultExport';
+
+/** `${name}` placeholder of a saved query; `${` cannot start any PostgreSQL token */
+const PARAMETER_PATTERN = /\$\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}/g;
+
+/** Names of the `${name}` placeholders in a query, in order of first use */
+export function findParameterNames(query: string): string[] {
+    const names = new Set<string>();
+    for (const match of query.matchAll(PARAMETER_PATTERN)) {
+        names.add(match[1]);
+    }
+    return [...names];
+}
+
+/**
+ * Replace placeholders with values. Values are inlined as quoted literals, so
+ * PostgreSQL casts them to the type the surrounding expression expects.
+ */
+export function substituteParameters(query: string, values: Record<string, string>): string {
+    return query.replace(PARAMETER_PATTERN, (placeholder, name: string) =>
+        Object.prototype.hasOwnProperty.call(values, name) ? sqlLiteral(values[name]) : placeholder
+    );
+}
@@ -1,241 +1,306 @@
 import * as vscode from 'vscode';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
-import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
-import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
-import { CallToolResultSchema, ListToolsResultSchema, Tool } from '@modelcontextprotocol/sdk/types.js';
-
-export interface McpClientConfig {
-  mcpServerUrl: string;
-  authToken?: string;
-  timeout?: number;
-  retries?: number;
-  allowInsecure?: boolean;
+import { CallToolResult, GetPromptResult, Prompt, ReadResourceResult, Resource, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { McpCallOptions, McpConnection, McpConnectionState, McpServerRequestHandler, McpStreamChunk, McpToolProgress } from './mcpConnection';
+import { ServerLog } from './serverLog';
+import { authTokenSecretKey, ConnectionProfile, readActiveProfileName, readProfiles, serverSecretKey } from './profiles';
+
+export {
+  McpCallOptions,
+  McpClientConfig,
+  McpConnectionState,
+  McpServerRequestContext,
+  McpServerRequestHandler,
+  McpStreamChunk,
+  McpToolProgress
+} from './mcpConnection';
+
+export interface McpConnectionStateChange {
+  profile: string;
+  state: McpConnectionState;
 }
 
-export class McpClient {
-  private client: Client | null = null;
-  private transport: StdioClientTransport | SSEClientTransport | StreamableHTTPClientTransport | null = null;
-  private connected: boolean = false;
+/** A finished MCP tool call, reported for auditing */
+export interface McpToolCallRecord {
+  profile: string;
+  tool: string;
+  params: Record<string, unknown>;
+  durationMs: number;
+  /** Length of the serialized result; undefined when the call failed */
+  resultSize?: number;
+  /** Error message of a failed call, or of a result the server flagged as an error */
+  error?: string;
+  cancelled?: boolean;
+}
 
-  constructor() {
-    // Configuration will be read when connecting
-  }
+/** Human readable text of an MCP progress notification, e.g. "Scanning rows (40%)" */
+export function describeProgress(progress: { progress: number; total?: number; message?: string }): string {
+  const amount = progress.total ? `${Math.round((progress.progress / progress.total) * 100)}%` : `${progress.progress}`;
+  return progress.message ? `${progress.message} (${amount})` : amount;
+}
 
-  updateConfiguration() {
-    // Configuration will be read when connecting
+/**
+ * Entry point used by the tools and the participant. Holds one live connection per
+ * connection profile and routes calls to the active profile unless told otherwise.
+ */
+export class McpClient implements vscode.Disposable {
+  private connections = new Map<string, McpConnection>();
+  private profiles: ConnectionProfile[];
+  private activeProfile: string;
+  private serverRequestHandler: McpServerRequestHandler | undefined;
+  private readonly onDidChangeStateEmitter = new vscode.EventEmitter<McpConnectionStateChange>();
+  private readonly onDidChangeActiveProfileEmitter = new vscode.EventEmitter<string>();
+  private readonly onDidReceiveProgressEmitter = new vscode.EventEmitter<McpToolProgress & { profile: string }>();
+  private readonly onDidCallToolEmitter = new vscode.EventEmitter<McpToolCallRecord>();
+  private readonly onDidUpdateResourceEmitter = new vscode.EventEmitter<{ profile: string; uri: string }>();
+
+  /** Fires whenever the state of any profile's connection changes */
+  readonly onDidChangeState = this.onDidChangeStateEmitter.event;
+
+  /** Fires when a different profile becomes active */
+  readonly onDidChangeActiveProfile = this.onDidChangeActiveProfileEmitter.event;
+
+  /** Fires for progress notifications of tool calls on any profile */
+  readonly onDidReceiveProgress = this.onDidReceiveProgressEmitter.event;
+
+  /** Fires after every tool call on any profile, whether it succeeded or not */
+  readonly onDidCallTool = this.onDidCallToolEmitter.event;
+
+  /** Fires when the server of any profile reports a change to a resource read earlier */
+  readonly onDidUpdateResource = this.onDidUpdateResourceEmitter.event;
+
+  constructor(private secrets: vscode.SecretStorage, private log: ServerLog) {
+    this.profiles = readProfiles();
+    this.activeProfile = readActiveProfileName(this.profiles);
   }
 
+  /** Re-read profiles, reconnecting changed profiles and dropping removed ones */
+  async updateConfiguration() {
+    this.profiles = readProfiles();
 
-  /** Initialize MCP connection */
-  async connect() {
-    if (this.connected) {
-      return;
-    }
-
-    try {
-      const config = vscode.workspace.getConfiguration('toolsBridger');
-      const serverType = config.get<string>('serverType', 'stdio');
-
-      if (serverType === 'stdio') {
-        await this.connectStdio();
-      } else if (serverType === 'sse') {
-        await this.connectSSE();
-      } else if (serverType === 'streamable') {
-        await this.connectStreamable();
+    const updates: Promise<void>[] = [];
+    for (const [name, connection] of this.connections) {
+      const profile = this.profiles.find(p => p.name === name);
+      if (profile) {
+        updates.push(connection.updateProfile(profile));
       } else {
-        throw new Error(`Unsupported server type: ${serverType}`);
+        this.connections.delete(name);
+        connection.dispose();
       }
+    }
 
-      this.connected = true;
-      console.log('MCP client initialized successfully');
-    } catch (error) {
-      console.error('Failed to initialize MCP client:', error);
-      throw error;
+    const activeProfile = readActiveProfileName(this.profiles);
+    if (activeProfile !== this.activeProfile) {
+      this.activeProfile = activeProfile;
+      console.log(`Active MCP profile switched to "${activeProfile}"`);
+      this.onDidChangeActiveProfileEmitter.fire(activeProfile);
     }
+
+    await Promise.all(updates);
+  }
+
+  getProfiles(): ConnectionProfile[] {
+    return this.profiles;
   }
 
-  private async connectStdio() {
-    const config = vscode.workspace.getConfiguration('toolsBridger');
-    const serverCommand = config.get<string>('serverCommand', '');
-    const serverArgs = config.get<string[]>('serverArgs', []);
+  getActiveProfile(): ConnectionProfile {
+    return this.getProfile(this.activeProfile);
+  }
 
-    if (!serverCommand) {
-      throw new Error('Server command is required for stdio transport');
+  getProfile(name: string): ConnectionProfile {
+    const profile = this.profiles.find(p => p.name === name);
+    if (!profile) {
+      throw new Error(`Unknown connection profile: ${name}`);
     }
+    return profile;
+  }
 
-    this.transport = new StdioClientTransport({
-      command: serverCommand,
-      args: serverArgs
-    });
-
-    this.client = new Client({
-      name: 'vscode-database-tools',
-      version: '0.0.1'
-    }, {
-      capabilities: {}
-    });
+  /** Make a profile active by updating the `toolsBridger.activeProfile` setting */
+  async setActiveProfile(name: string) {
+    this.getProfile(name);
 
-    await this.client.connect(this.transport);
+    const target = vscode.workspace.workspaceFolders ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+    await vscode.workspace.getConfiguration('toolsBridger').update('activeProfile', name, target);
+    await this.updateConfiguration();
   }
 
-  private async connectSSE() {
-    const config = vscode.workspace.getConfiguration('toolsBridger');
-    const serverUrl = config.get<string>('serverUrl', '');
-
-    if (!serverUrl) {
-      throw new Error('Server URL is required for SSE transport');
+  /** Store (or clear) a profile's bearer token in SecretStorage and reconnect with it */
+  async setAuthToken(token: string | undefined, profileName: string = this.activeProfile) {
+    const key = authTokenSecretKey(profileName);
+    if (token) {
+      await this.secrets.store(key, token);
+    } else {
+      await this.secrets.delete(key);
     }
 
-    this.transport = new SSEClientTransport(new URL(serverUrl));
+    const connection = this.connections.get(profileName);
+    if (connection && connection.getState() !== 'disconnected') {
+      await connection.reconnect();
+    }
+  }
 
-    this.client = new Client({
-      name: 'vscode-database-tools',
-      version: '0.0.1'
-    }, {
-      capabilities: {}
-    });
+  /**
+   * Store (or clear) a secret referenced as `${secret:name}` in stdio server settings,
+   * reconnecting the stdio profiles that use it
+   */
+  async setServerSecret(name: string, value: string | undefined) {
+    const key = serverSecretKey(name);
+    if (value) {
+      await this.secrets.store(key, value);
+    } else {
+      await this.secrets.delete(key);
+    }
 
-    await this.client.connect(this.transport);
+    const reference = `\${secret:${name}}`;
+    const reconnects = [...this.connections.values()]
+      .filter(connection => {
+        const profile = connection.getProfile();
+        return profile.serverType === 'stdio' && connection.getState() !== 'disconnected' &&
+          JSON.stringify([profile.serverCommand, profile.serverArgs, profile.serverCwd, profile.env]).includes(reference);
+      })
+      .map(connection => connection.reconnect());
+    await Promise.all(reconnects);
   }
 
-  private async connectStreamable() {
-    const config = vscode.workspace.getConfiguration('toolsBridger');
-    const serverUrl = config.get<string>('serverUrl', '');
+  /** Set the handler answering sampling and elicitation requests of every profile's server */
+  setServerRequestHandler(handler: McpServerRequestHandler) {
+    this.serverRequestHandler = handler;
+  }
 
-    if (!serverUrl) {
-      throw new Error('Server URL is required for Streamable HTTP transport');
+  /** Get (creating on first use) the connection for a profile */
+  getConnection(profileName: string = this.activeProfile): McpConnection {
+    let connection = this.connections.get(profileName);
+    if (!connection) {
+      connection = new McpConnection(this.getProfile(profileName), this.secrets, this.log, () => this.serverRequestHandler);
+      connection.onDidChangeState(state => this.onDidChangeStateEmitter.fire({ profile: profileName, state }));
+      connection.onDidReceiveProgress(progress => this.onDidReceiveProgressEmitter.fire({ ...progress, profile: profileName }));
+      connection.onDidUpdateResource(uri => this.onDidUpdateResourceEmitter.fire({ profile: profileName, uri }));
+      this.connections.set(profileName, connection);
     }
+    return connection;
+  }
 
-    this.transport = new StreamableHTTPClientTransport(new URL(serverUrl));
+  /** Initialize MCP connection */
+  async connect(profileName?: string) {
+    await this.getConnection(profileName).connect();
+  }
 
-    this.client = new Client({
-      name: 'vscode-database-tools',
-      version: '0.0.1'
-    }, {
-      capabilities: {}
-    });
+  /** Tear down a profile's connection and connect again */
+  async reconnect(profileName?: string) {
+    await this.getConnection(profileName).reconnect();
+  }
+
+  /** Restart a profile's server, also after automatic restarts stopped because it kept crashing */
+  async restartServer(profileName?: string) {
+    await this.getConnection(profileName).restart();
+  }
 
-    await this.client.connect(this.transport);
+  /** Connection state of a profile (the active profile by default) */
+  getState(profileName: string = this.activeProfile): McpConnectionState {
+    return this.connections.get(profileName)?.getState() ?? 'disconnected';
   }
 
   /** Check if client is connected */
-  isConnected(): boolean {
-    return this.connected;
+  isConnected(profileName?: string): boolean {
+    return this.getState(profileName) === 'connected';
   }
 
   /** Get the underlying MCP client for direct access */
-  getClient(): Client {
-    if (!this.client) {
-      throw new Error('MCP client not initialized. Call connect() first.');
-    }
-    return this.client;
+  getClient(profileName?: string): Client {
+    return this.getConnection(profileName).getClient();
   }
 
   /** List available tools from the MCP server */
-  async listTools(): Promise<Tool[]> {
-    if (!this.client) {
-      throw new Error('MCP client not initialized. Call connect() first.');
-    }
+  async listTools(profileName?: string): Promise<Tool[]> {
+    return this.getConnection(profileName).listTools();
+  }
 
-    try {
-      const result = await this.client.listTools();
-      return result.tools || [];
-    } catch (error) {
-      console.error('Failed to list tools from MCP server:', error);
-      throw error;
-    }
+  /** List the resources published by the MCP server */
+  async listResources(profileName?: string): Promise<Resource[]> {
+    return this.getConnection(profileName).listResources();
+  }
+
+  /** Read a resource, subscribing to its updates when the server supports it */
+  async readResource(uri: string, token?: vscode.CancellationToken, profileName?: string): Promise<ReadResourceResult> {
+    return this.getConnection(profileName).readResource(uri, token);
+  }
+
+  /** List the prompts offered by the MCP server */
+  async listPrompts(profileName?: string): Promise<Prompt[]> {
+    return this.getConnection(profileName).listPrompts();
+  }
+
+  /** Get a server prompt's messages for the given arguments */
+  async getPrompt(name: string, args: Record<string, string>, token?: vscode.CancellationToken, profileName?: string): Promise<GetPromptResult> {
+    return this.getConnection(profileName).getPrompt(name, args, token);
+  }
+
+  /** Call an MCP tool and return the raw result content */
+  async callTool(toolName: string, params: Record<string, unknown>, options?: McpCallOptions, profileName?: string): Promise<CallToolResult> {
+    return this.audited(toolName, params, profileName, () => this.getConnection(profileName).callTool(toolName, params, options));
   }
 
   /** Call an MCP tool and return result */
-  async json<T = unknown>(toolName: string, params: any): Promise<T> {
-    if (!this.client) {
-      throw new Error('MCP client not initialized. Call connect() first.');
-    }
+  async json<T = unknown>(toolName: string, params: Record<string, unknown>, options?: McpCallOptions, profileName?: string): Promise<T> {
+    return this.audited(toolName, params, profileName, () => this.getConnection(profileName).json<T>(toolName, params, options));
+  }
 
-    try {
-      // Use the dedicated callTool method instead of manual request construction
-      const result = await this.client.callTool({
-        name: toolName,
-        arguments: params
-      }, CallToolResultSchema);
-
-      // Extract the result content
-      if (result && result.content && Array.isArray(result.content) && result.content.length > 0) {
-        const firstContent = result.content[0];
-        if (firstContent.type === 'text') {
-          try {
-            // Parse the JSON response
-            const parsedResult = JSON.parse(firstContent.text);
-            return parsedResult as T;
-          } catch (parseError) {
-            // If parsing fails, return as is (might be plain text)
-            console.warn(`Failed to parse JSON response for ${toolName}:`, parseError);
-            return firstContent.text as T;
-          }
-        }
-      }
-      
-      return result as T;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(`Tool call failed for ${toolName}:`, {
-        toolName,
-        params,
-        error: errorMessage,
-        stack: error instanceof Error ? error.stack : undefined
-      });
-      throw new Error(`MCP tool call failed for ${toolName}: ${errorMessage}`);
-    }
+  /** Call an MCP tool, delivering progress as it arrives and the result's content blocks when it is complete */
+  async stream(
+    toolName: string,
+    params: Record<string, unknown>,
+    onChunk: (chunk: McpStreamChunk) => void,
+    options?: McpCallOptions,
+    profileName?: string
+  ): Promise<CallToolResult> {
+    return this.audited(toolName, params, profileName, () => this.getConnection(profileName).stream(toolName, params, onChunk, options));
+  }
+
+  /** Disconnect from MCP server (all profiles by default) */
+  async disconnect(profileName?: string) {
+    const connections = profileName ? [this.connections.get(profileName)] : [...this.connections.values()];
+    await Promise.all(connections.map(connection => connection?.disconnect()));
   }
 
-  /** Call an MCP tool with streaming support */
-  async stream<T = unknown>(toolName: string, params: any, onChunk: (data: T) => void) {
-    if (!this.client) {
-      throw new Error('MCP client not initialized. Call connect() first.');
+  dispose() {
+    for (const connection of this.connections.values()) {
+      connection.dispose();
     }
+    this.connections.clear();
+    this.onDidChangeStateEmitter.dispose();
+    this.onDidChangeActiveProfileEmitter.dispose();
+    this.onDidReceiveProgressEmitter.dispose();
+    this.onDidCallToolEmitter.dispose();
+    this.onDidUpdateResourceEmitter.dispose();
+  }
 
+  /** Run a tool call and report its outcome through `onDidCallTool` */
+  private async audited<T>(
+    toolName: string,
+    params: Record<string, unknown>,
+    profileName: string | undefined,
+    call: () => Promise<T>
+  ): Promise<T> {
+    const record = { profile: profileName ?? this.activeProfile, tool: toolName, params };
+    const startedAt = Date.now();
     try {
-      // Use the dedicated callTool method instead of manual request construction
-      const result = await this.client.callTool({
-        name: toolName,
-        arguments: params
-      }, CallToolResultSchema);
-
-      // Handle the result content
-      if (result && result.content && Array.isArray(result.content)) {
-        for (const item of result.content) {
-          if (item.type === 'text') {
-            onChunk(item.text as T);
-          }
-        }
-      }
-
-      return () => {
-        // Cancel function - the SDK handles cleanup automatically
-      };
+      const result = await call();
+      const flaggedError = result && typeof result === 'object' && (result as Partial<CallToolResult>).isError;
+      this.onDidCallToolEmitter.fire({
+        ...record,
+        durationMs: Date.now() - startedAt,
+        resultSize: JSON.stringify(result)?.length ?? 0,
+        error: flaggedError ? 'The tool reported an error' : undefined
+      });
+      return result;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(`Streaming tool call failed for ${toolName}:`, {
-        toolName,
-        params,
-        error: errorMessage,
-        stack: error instanceof Error ? error.stack : undefined
+      this.onDidCallToolEmitter.fire({
+        ...record,
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error),
+        cancelled: error instanceof vscode.CancellationError || undefined
       });
-      throw new Error(`MCP streaming tool call failed for ${toolName}: ${errorMessage}`);
-    }
-  }
-
-  /** Disconnect from MCP server */
-  async disconnect() {
-    if (this.client) {
-      await this.client.close();
-      this.client = null;
-    }
-    if (this.transport) {
-      await this.transport.close();
-      this.transport = null;
+      throw error;
     }
-    this.connected = false;
   }
-}
\ No newline at end of file
+}
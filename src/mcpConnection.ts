@@ -0,0 +1,878 @@
+import * as vscode from 'vscode';
+import * as https from 'https';
+import { Readable } from 'stream';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { FetchLike, Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolResult,
+  CallToolResultSchema,
+  ContentBlock,
+  CreateMessageRequest,
+  CreateMessageRequestSchema,
+  CreateMessageResult,
+  ElicitRequest,
+  ElicitRequestSchema,
+  ElicitResult,
+  ErrorCode,
+  GetPromptResult,
+  ListRootsRequestSchema,
+  McpError,
+  Progress,
+  Prompt,
+  ReadResourceResult,
+  Resource,
+  ResourceUpdatedNotificationSchema,
+  Tool
+} from '@modelcontextprotocol/sdk/types.js';
+import { authTokenSecretKey, ConnectionProfile } from './profiles';
+import { resolveStdioLaunchOptions } from './serverEnvironment';
+import { describeExit, ManagedStdioTransport } from './serverProcess';
+import { ServerLog } from './serverLog';
+
+export interface McpClientConfig {
+  mcpServerUrl: string;
+  authToken?: string;
+  /** Per-request timeout in milliseconds */
+  timeout?: number;
+  /** Retries for idempotent tool calls */
+  retries?: number;
+  /** Accept self-signed or otherwise untrusted TLS certificates */
+  allowInsecure?: boolean;
+}
+
+export interface McpCallOptions {
+  /** Whether the call may be safely repeated; defaults to true for the known read-only tools */
+  idempotent?: boolean;
+  /** Cancels the call; the server is notified with `notifications/cancelled` */
+  token?: vscode.CancellationToken;
+  /** Receives `notifications/progress` sent by the server for this call */
+  onProgress?: (progress: Progress) => void;
+}
+
+export interface McpToolProgress extends Progress {
+  toolName: string;
+}
+
+/**
+ * Output of `stream()`: progress notifications while the call runs, then the content
+ * blocks of the result. MCP has no partial tool results, so content only arrives once
+ * the server sends the whole result.
+ */
+export type McpStreamChunk =
+  | { type: 'progress'; progress: Progress }
+  | { type: 'content'; content: ContentBlock };
+
+export type McpConnectionState = 'disconnected' | 'connecting' | 'connected' | 'failed';
+
+export interface McpServerRequestContext {
+  /** Profile whose server sent the request */
+  profile: string;
+  /** Aborted when the server cancels the request or the connection closes */
+  signal: AbortSignal;
+}
+
+/** Handles the requests a server sends to the client: sampling with the chat model and elicitation of user input */
+export interface McpServerRequestHandler {
+  createMessage(params: CreateMessageRequest['params'], context: McpServerRequestContext): Promise<CreateMessageResult>;
+  elicit(params: ElicitRequest['params'], context: McpServerRequestContext): Promise<ElicitResult>;
+}
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const RETRY_BASE_DELAY_MS = 500;
+/** A stdio server that exits this often within the window is not restarted again */
+const CRASH_LOOP_LIMIT = 5;
+const CRASH_LOOP_WINDOW_MS = 3 * 60 * 1000;
+
+/** Tools that only read from the database and may be retried */
+const IDEMPOTENT_TOOLS = new Set([
+  'list_schemas',
+  'list_tables',
+  'list_columns',
+  'generate_erd_mermaid',
+  'generate_erd_json',
+  'fuzzy_column_match',
+  'sample_column_data',
+  'find_related_tables',
+  'describe_relationship',
+  'list_indexes',
+  'list_views',
+  'list_functions',
+  'describe_function',
+  'list_constraints',
+  'describe_schema'
+]);
+
+/** Network errors raised before a connection to the server existed, so nothing was sent */
+const CONNECT_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH']);
+
+/** A request that failed before it reached the server; repeating it cannot run anything twice */
+class RequestNotSentError extends Error {}
+
+/** Errors that indicate the connection itself is gone rather than a failing tool */
+function isConnectionError(error: unknown): boolean {
+  if (error instanceof McpError) {
+    return error.code === ErrorCode.ConnectionClosed;
+  }
+  return true;
+}
+
+/** Node error code of an error or of one of its causes, e.g. `ECONNREFUSED` behind "fetch failed" */
+function errorCode(error: unknown): string | undefined {
+  let current = error;
+  for (let depth = 0; depth < 5 && current && typeof current === 'object'; depth++) {
+    const code = (current as { code?: unknown }).code;
+    if (typeof code === 'string') {
+      return code;
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+  return undefined;
+}
+
+/**
+ * Turn send failures that provably never reached the server into `RequestNotSentError`.
+ * A stdio write that fails never reaches the process; an HTTP request only provably
+ * failed to arrive when no connection to the server could be opened.
+ */
+function markUnsentRequests(transport: Transport, everyFailureUnsent: boolean): Transport {
+  const send = transport.send.bind(transport);
+  transport.send = async (message, options) => {
+    try {
+      await send(message, options);
+    } catch (error) {
+      const code = errorCode(error);
+      if (everyFailureUnsent || (code !== undefined && CONNECT_ERROR_CODES.has(code))) {
+        throw new RequestNotSentError(error instanceof Error ? error.message : String(error));
+      }
+      throw error;
+    }
+  };
+  return transport;
+}
+
+/** Errors worth retrying for idempotent tool calls */
+function isRetryableError(error: unknown): boolean {
+  return isConnectionError(error) || (error instanceof McpError && error.code === ErrorCode.RequestTimeout);
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** fetch() replacement that skips TLS certificate verification, used when `allowInsecure` is set */
+const insecureFetch: FetchLike = (url, init) => new Promise((resolve, reject) => {
+  const headers: Record<string, string> = {};
+  new Headers(init?.headers).forEach((value, key) => {
+    headers[key] = value;
+  });
+
+  const request = https.request(url, {
+    method: init?.method || 'GET',
+    headers,
+    rejectUnauthorized: false,
+    signal: init?.signal || undefined
+  }, response => {
+    const responseHeaders = new Headers();
+    for (const [key, value] of Object.entries(response.headers)) {
+      if (value !== undefined) {
+        responseHeaders.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    }
+    resolve(new Response(Readable.toWeb(response) as ReadableStream, {
+      status: response.statusCode,
+      statusText: response.statusMessage,
+      headers: responseHeaders
+    }));
+  });
+
+  request.on('error', reject);
+  if (typeof init?.body === 'string') {
+    request.write(init.body);
+  }
+  request.end();
+});
+
+/** Workspace folders on disk, advertised to servers as MCP roots */
+function workspaceRoots(): { uri: string; name: string }[] {
+  return (vscode.workspace.workspaceFolders ?? [])
+    .filter(folder => folder.uri.scheme === 'file')
+    .map(folder => ({ uri: folder.uri.toString(), name: folder.name }));
+}
+
+/**
+ * A single MCP server connection for one connection profile, with its own
+ * state machine, reconnection and health checks.
+ */
+export class McpConnection implements vscode.Disposable {
+  private client: Client | null = null;
+  private transport: ManagedStdioTransport | SSEClientTransport | StreamableHTTPClientTransport | null = null;
+  private state: McpConnectionState = 'disconnected';
+  private connectPromise: Promise<void> | null = null;
+  private connectionSettings: string | undefined;
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | undefined;
+  private healthCheckTimer: NodeJS.Timeout | undefined;
+  /** Times the stdio server exited unexpectedly, for crash-loop protection */
+  private crashTimes: number[] = [];
+  /** Set while `restart()` runs; its caller reports a failed start itself */
+  private restarting = false;
+  private readonly onDidChangeStateEmitter = new vscode.EventEmitter<McpConnectionState>();
+  private readonly onDidReceiveProgressEmitter = new vscode.EventEmitter<McpToolProgress>();
+  private readonly onDidUpdateResourceEmitter = new vscode.EventEmitter<string>();
+  private readonly workspaceFoldersListener: vscode.Disposable;
+  /** Resource contents read while subscribed to their updates, keyed by URI */
+  private resourceCache = new Map<string, ReadResourceResult>();
+
+  /** Fires whenever the connection state changes */
+  readonly onDidChangeState = this.onDidChangeStateEmitter.event;
+
+  /** Fires for every progress notification the server sends for a tool call */
+  readonly onDidReceiveProgress = this.onDidReceiveProgressEmitter.event;
+
+  /** Fires with the URI of a subscribed resource the server reports as changed */
+  readonly onDidUpdateResource = this.onDidUpdateResourceEmitter.event;
+
+  constructor(
+    private profile: ConnectionProfile,
+    private secrets: vscode.SecretStorage,
+    private log: ServerLog,
+    private getServerRequestHandler: () => McpServerRequestHandler | undefined = () => undefined
+  ) {
+    // Configuration will be read when connecting
+    this.workspaceFoldersListener = vscode.workspace.onDidChangeWorkspaceFolders(() => {
+      if (this.client && this.state === 'connected') {
+        this.client.sendRootsListChanged().catch(error => console.warn('Failed to send roots/list_changed:', error));
+      }
+    });
+  }
+
+  getProfile(): ConnectionProfile {
+    return this.profile;
+  }
+
+  /** Read the client configuration from the profile, `toolsBridger.*` settings and SecretStorage */
+  private async readConfig(): Promise<McpClientConfig> {
+    const config = vscode.workspace.getConfiguration('toolsBridger');
+    return {
+      mcpServerUrl: this.profile.serverUrl || '',
+      authToken: await this.secrets.get(authTokenSecretKey(this.profile.name)),
+      allowInsecure: this.profile.allowInsecure ?? config.get<boolean>('allowInsecure', false),
+      ...this.readRequestSettings()
+    };
+  }
+
+  private readRequestSettings(): Pick<McpClientConfig, 'timeout' | 'retries'> {
+    const config = vscode.workspace.getConfiguration('toolsBridger');
+    return {
+      timeout: config.get<number>('requestTimeout', 60) * 1000,
+      retries: config.get<number>('retries', 2)
+    };
+  }
+
+  /** Apply an updated profile, reconnecting when its connection settings changed */
+  async updateProfile(profile: ConnectionProfile) {
+    this.profile = profile;
+    if (this.connectionSettings === undefined || this.readConnectionSettings() === this.connectionSettings) {
+      return;
+    }
+
+    console.log(`MCP server settings for profile "${profile.name}" changed, reconnecting...`);
+    await this.reconnect();
+  }
+
+  /** Initialize MCP connection */
+  async connect() {
+    if (this.state === 'connected') {
+      return;
+    }
+    if (!this.connectPromise) {
+      this.connectPromise = this.establishConnection().finally(() => {
+        this.connectPromise = null;
+      });
+    }
+    return this.connectPromise;
+  }
+
+  /** Tear down the current connection and connect again */
+  async reconnect() {
+    await this.disconnect();
+    await this.connect();
+  }
+
+  /** Restart the server process (or reconnect to a remote server), forgetting earlier crashes and failed attempts */
+  async restart() {
+    this.log.info(this.profile.name, 'Restarting MCP server');
+    this.crashTimes = [];
+    this.reconnectAttempts = 0;
+    this.restarting = true;
+    try {
+      await this.reconnect();
+    } finally {
+      this.restarting = false;
+    }
+  }
+
+  private async establishConnection() {
+    this.clearReconnectTimer();
+    this.setState('connecting');
+
+    try {
+      const serverType = this.profile.serverType;
+      this.connectionSettings = this.readConnectionSettings();
+
+      if (serverType === 'stdio') {
+        await this.connectStdio();
+      } else if (serverType === 'sse') {
+        await this.connectSSE();
+      } else if (serverType === 'streamable') {
+        await this.connectStreamable();
+      } else {
+        throw new Error(`Unsupported server type: ${serverType}`);
+      }
+
+      this.reconnectAttempts = 0;
+      this.setState('connected');
+      this.startHealthCheck();
+      console.log(`MCP client initialized successfully for profile "${this.profile.name}"`);
+    } catch (error) {
+      console.error(`Failed to initialize MCP client for profile "${this.profile.name}":`, error);
+      const transport = this.transport;
+      await this.closeConnection();
+      this.setState('failed');
+
+      if (transport instanceof ManagedStdioTransport) {
+        // Only notify for the first attempt, not for every automatic retry
+        const diagnostics = transport.diagnose(error, this.readRequestSettings().timeout);
+        this.log.reportStartupFailure(this.profile.name, diagnostics, this.reconnectAttempts === 0 && !this.restarting);
+        throw new Error(`MCP server failed to start: ${diagnostics.summary}`);
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.log.error(this.profile.name, `Failed to connect: ${errorMessage}`);
+      throw error;
+    }
+  }
+
+  private async connectStdio() {
+    const options = await resolveStdioLaunchOptions(this.profile, this.secrets);
+    const transport = new ManagedStdioTransport(options, line => this.log.stderr(this.profile.name, line));
+    this.transport = transport;
+
+    this.log.info(this.profile.name, `Starting MCP server: ${transport.describeCommand()}${options.cwd ? ` (in ${options.cwd})` : ''}`);
+    await this.attachClient(transport);
+    this.log.info(this.profile.name, `MCP server started (pid ${transport.pid})`);
+  }
+
+  private async connectSSE() {
+    const config = await this.readConfig();
+
+    if (!config.mcpServerUrl) {
+      throw new Error('Server URL is required for SSE transport');
+    }
+
+    this.transport = new SSEClientTransport(new URL(config.mcpServerUrl), this.httpTransportOptions(config));
+
+    await this.attachClient(this.transport);
+  }
+
+  private async connectStreamable() {
+    const config = await this.readConfig();
+
+    if (!config.mcpServerUrl) {
+      throw new Error('Server URL is required for Streamable HTTP transport');
+    }
+
+    this.transport = new StreamableHTTPClientTransport(new URL(config.mcpServerUrl), this.httpTransportOptions(config));
+
+    await this.attachClient(this.transport);
+  }
+
+  /** Auth headers and TLS handling shared by the HTTP based transports */
+  private httpTransportOptions(config: McpClientConfig): { requestInit?: RequestInit; fetch?: FetchLike } {
+    const useInsecureFetch = config.allowInsecure && new URL(config.mcpServerUrl).protocol === 'https:';
+    return {
+      requestInit: config.authToken ? { headers: { Authorization: `Bearer ${config.authToken}` } } : undefined,
+      fetch: useInsecureFetch ? insecureFetch : undefined
+    };
+  }
+
+  private async attachClient(transport: Transport) {
+    const client = new Client({
+      name: 'vscode-database-tools',
+      version: '0.0.1'
+    }, {
+      capabilities: {
+        sampling: {},
+        elicitation: { form: {} },
+        roots: { listChanged: true }
+      }
+    });
+
+    client.onclose = () => this.handleConnectionLost(client, 'transport closed');
+    client.setRequestHandler(ListRootsRequestSchema, () => ({ roots: workspaceRoots() }));
+    client.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+      this.requireServerRequestHandler('Sampling').createMessage(request.params, { profile: this.profile.name, signal: extra.signal }));
+    client.setRequestHandler(ElicitRequestSchema, (request, extra) =>
+      this.requireServerRequestHandler('Elicitation').elicit(request.params, { profile: this.profile.name, signal: extra.signal }));
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      this.resourceCache.delete(notification.params.uri);
+      this.onDidUpdateResourceEmitter.fire(notification.params.uri);
+    });
+    client.onerror = (error) => {
+      console.warn('MCP transport error:', error);
+      // Not every transport error is fatal; let a ping decide
+      if (this.client === client && this.state === 'connected') {
+        this.checkHealth();
+      }
+    };
+
+    this.client = client;
+    const marked = markUnsentRequests(transport, transport instanceof ManagedStdioTransport);
+    await client.connect(this.log.traced(this.profile.name, marked), { timeout: this.readRequestSettings().timeout });
+  }
+
+  private requireServerRequestHandler(feature: string): McpServerRequestHandler {
+    const handler = this.getServerRequestHandler();
+    if (!handler) {
+      throw new McpError(ErrorCode.InvalidRequest, `${feature} is not available yet`);
+    }
+    return handler;
+  }
+
+  private readConnectionSettings(): string {
+    const config = vscode.workspace.getConfiguration('toolsBridger');
+    return JSON.stringify([this.profile, config.get('allowInsecure')]);
+  }
+
+  private setState(state: McpConnectionState) {
+    if (this.state === state) {
+      return;
+    }
+    console.log(`MCP connection state [${this.profile.name}]: ${this.state} -> ${state}`);
+    this.log.info(this.profile.name, `Connection ${state}`);
+    this.state = state;
+    this.onDidChangeStateEmitter.fire(state);
+  }
+
+  private handleConnectionLost(client: Client, reason: string) {
+    // Ignore events from clients we have already replaced, closed on purpose or are still connecting
+    if (client !== this.client || this.state !== 'connected') {
+      return;
+    }
+
+    console.warn(`MCP connection lost for profile "${this.profile.name}" (${reason})`);
+    const exit = this.transport instanceof ManagedStdioTransport ? this.transport.getExit() : undefined;
+    this.log.warn(this.profile.name, exit ? `MCP server ${describeExit(exit)}` : `Connection lost (${reason})`);
+
+    this.stopHealthCheck();
+    this.client = null;
+    this.transport = null;
+    this.resourceCache.clear();
+    client.close().catch(() => undefined);
+
+    if (exit && !vscode.workspace.getConfiguration('toolsBridger').get<boolean>('autoRestart', true)) {
+      this.log.info(this.profile.name, 'Automatic restart is off; run "Restart MCP Server" to start the server again');
+      this.setState('disconnected');
+      return;
+    }
+    if (exit && this.isCrashLooping()) {
+      this.setState('failed');
+      return;
+    }
+    this.setState('disconnected');
+    this.scheduleReconnect();
+  }
+
+  /** Record an unexpected exit of the stdio server; true when it crashed too often to restart it again */
+  private isCrashLooping(): boolean {
+    const now = Date.now();
+    this.crashTimes = this.crashTimes.filter(time => now - time < CRASH_LOOP_WINDOW_MS);
+    this.crashTimes.push(now);
+    if (this.crashTimes.length < CRASH_LOOP_LIMIT) {
+      return false;
+    }
+    this.log.reportCrashLoop(this.profile.name, this.crashTimes.length, CRASH_LOOP_WINDOW_MS / 60000);
+    return true;
+  }
+
+  /** Reconnect with exponential backoff until `maxReconnectAttempts` is reached */
+  private scheduleReconnect() {
+    if (this.reconnectTimer) {
+      return;
+    }
+
+    const config = vscode.workspace.getConfiguration('toolsBridger');
+    const maxAttempts = config.get<number>('maxReconnectAttempts', 5);
+    if (this.reconnectAttempts >= maxAttempts) {
+      console.error(`Giving up reconnecting to MCP server after ${this.reconnectAttempts} attempts`);
+      this.log.error(this.profile.name, `Giving up reconnecting after ${this.reconnectAttempts} attempts`);
+      this.setState('failed');
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+    this.reconnectAttempts++;
+    console.log(`Reconnecting to MCP server in ${delay}ms (attempt ${this.reconnectAttempts}/${maxAttempts})`);
+    this.log.info(this.profile.name, `Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}/${maxAttempts})`);
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = undefined;
+      try {
+        await this.connect();
+      } catch {
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+  }
+
+  private startHealthCheck() {
+    this.stopHealthCheck();
+
+    const config = vscode.workspace.getConfiguration('toolsBridger');
+    const intervalSeconds = config.get<number>('healthCheckInterval', 30);
+    if (intervalSeconds <= 0) {
+      return;
+    }
+
+    this.healthCheckTimer = setInterval(() => this.checkHealth(), intervalSeconds * 1000);
+  }
+
+  private stopHealthCheck() {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = undefined;
+    }
+  }
+
+  private async checkHealth() {
+    const client = this.client;
+    if (!client) {
+      return;
+    }
+
+    try {
+      await client.ping();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.handleConnectionLost(client, `health check failed: ${errorMessage}`);
+    }
+  }
+
+  /** Current connection state */
+  getState(): McpConnectionState {
+    return this.state;
+  }
+
+  /** Check if client is connected */
+  isConnected(): boolean {
+    return this.state === 'connected';
+  }
+
+  /** Get the underlying MCP client for direct access */
+  getClient(): Client {
+    if (!this.client) {
+      throw new Error('MCP client not initialized. Call connect() first.');
+    }
+    return this.client;
+  }
+
+  /** List available tools from the MCP server */
+  async listTools(): Promise<Tool[]> {
+    if (!this.client) {
+      throw new Error('MCP client not initialized. Call connect() first.');
+    }
+
+    try {
+      const result = await this.client.listTools(undefined, { timeout: this.readRequestSettings().timeout });
+      return result.tools || [];
+    } catch (error) {
+      console.error('Failed to list tools from MCP server:', error);
+      throw error;
+    }
+  }
+
+  /** List the resources the server publishes, following pagination; empty when it has no resources capability */
+  async listResources(): Promise<Resource[]> {
+    const client = this.getClient();
+    if (!client.getServerCapabilities()?.resources) {
+      return [];
+    }
+
+    const resources: Resource[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await client.listResources(cursor ? { cursor } : undefined, { timeout: this.readRequestSettings().timeout });
+      resources.push(...result.resources);
+      cursor = result.nextCursor;
+    } while (cursor);
+    return resources;
+  }
+
+  /**
+   * Read a resource. When the server supports subscriptions the connection subscribes
+   * to the resource and keeps its contents until the server reports a change.
+   */
+  async readResource(uri: string, token?: vscode.CancellationToken): Promise<ReadResourceResult> {
+    const client = this.getClient();
+    const cached = this.resourceCache.get(uri);
+    if (cached) {
+      return cached;
+    }
+
+    const abortController = new AbortController();
+    const cancellation = token?.onCancellationRequested(() => abortController.abort('Cancelled by the user'));
+    try {
+      const result = await client.readResource({ uri }, { timeout: this.readRequestSettings().timeout, signal: abortController.signal });
+      if (client.getServerCapabilities()?.resources?.subscribe) {
+        // Only a subscribed resource is cached, since only then do updates clear it
+        try {
+          await client.subscribeResource({ uri });
+          this.resourceCache.set(uri, result);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+          this.log.error(this.profile.name, `Failed to subscribe to ${uri}: ${errorMessage}`);
+        }
+      }
+      return result;
+    } catch (error) {
+      if (token?.isCancellationRequested) {
+        throw new vscode.CancellationError();
+      }
+      throw error;
+    } finally {
+      cancellation?.dispose();
+    }
+  }
+
+  /** List the prompts the server offers; empty when it has no prompts capability */
+  async listPrompts(): Promise<Prompt[]> {
+    const client = this.getClient();
+    if (!client.getServerCapabilities()?.prompts) {
+      return [];
+    }
+
+    const prompts: Prompt[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await client.listPrompts(cursor ? { cursor } : undefined, { timeout: this.readRequestSettings().timeout });
+      prompts.push(...result.prompts);
+      cursor = result.nextCursor;
+    } while (cursor);
+    return prompts;
+  }
+
+  /** Get the messages of a server prompt filled in with its arguments */
+  async getPrompt(name: string, args: Record<string, string>, token?: vscode.CancellationToken): Promise<GetPromptResult> {
+    const client = this.getClient();
+    const abortController = new AbortController();
+    const cancellation = token?.onCancellationRequested(() => abortController.abort('Cancelled by the user'));
+    try {
+      return await client.getPrompt({ name, arguments: args }, { timeout: this.readRequestSettings().timeout, signal: abortController.signal });
+    } catch (error) {
+      if (token?.isCancellationRequested) {
+        throw new vscode.CancellationError();
+      }
+      throw error;
+    } finally {
+      cancellation?.dispose();
+    }
+  }
+
+  /**
+   * Call an MCP tool and return the raw result content. After a lost connection, calls
+   * are retried once after a reconnect when they never reached the server or are
+   * idempotent; idempotent calls are additionally retried up to `retries` times. Other
+   * calls, such as `run_query`, are never repeated since they may already have run.
+   */
+  async callTool(toolName: string, params: Record<string, unknown>, options: McpCallOptions = {}): Promise<CallToolResult> {
+    const { timeout, retries = 0 } = this.readRequestSettings();
+    const idempotent = options.idempotent ?? IDEMPOTENT_TOOLS.has(toolName);
+    const maxAttempts = idempotent ? retries + 1 : 1;
+    let reconnected = false;
+
+    for (let attempt = 1; ; attempt++) {
+      if (options.token?.isCancellationRequested) {
+        throw new vscode.CancellationError();
+      }
+
+      try {
+        return await this.requestToolCall(toolName, params, timeout, options);
+      } catch (error) {
+        // A cancelled call fails like a timeout; never retry it
+        if (options.token?.isCancellationRequested) {
+          throw new vscode.CancellationError();
+        }
+
+        if (isConnectionError(error) && !reconnected && !idempotent && !(error instanceof RequestNotSentError)) {
+          throw this.toolCallError(toolName, params, new Error(
+            `${error instanceof Error ? error.message : String(error)}. The connection was lost after the call was sent, ` +
+            'so it was not repeated: it may already have run on the server.'
+          ));
+        }
+
+        if (isConnectionError(error) && !reconnected) {
+          console.warn(`Connection problem while calling ${toolName}, reconnecting and retrying once...`);
+          reconnected = true;
+          try {
+            await this.reconnect();
+          } catch (reconnectError) {
+            throw this.toolCallError(toolName, params, reconnectError);
+          }
+          continue;
+        }
+
+        if (attempt < maxAttempts && isRetryableError(error)) {
+          console.warn(`Retrying ${toolName} (attempt ${attempt + 1}/${maxAttempts})...`);
+          await delay(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+          continue;
+        }
+
+        throw this.toolCallError(toolName, params, error);
+      }
+    }
+  }
+
+  private async requestToolCall(toolName: string, params: Record<string, unknown>, timeout: number | undefined, options: McpCallOptions): Promise<CallToolResult> {
+    if (!this.client || this.state !== 'connected') {
+      throw new RequestNotSentError('Not connected to the MCP server');
+    }
+
+    // Aborting the request makes the SDK send notifications/cancelled to the server
+    const abortController = new AbortController();
+    const cancellation = options.token?.onCancellationRequested(() => abortController.abort('Cancelled by the user'));
+
+    try {
+      const result = await this.client.callTool({
+        name: toolName,
+        arguments: params
+      }, CallToolResultSchema, {
+        timeout,
+        resetTimeoutOnProgress: true,
+        signal: abortController.signal,
+        onprogress: progress => {
+          this.onDidReceiveProgressEmitter.fire({ ...progress, toolName });
+          options.onProgress?.(progress);
+        }
+      });
+
+      return result as CallToolResult;
+    } catch (error) {
+      // The SDK refuses requests before sending them when its transport is gone
+      if (!(error instanceof McpError) && error instanceof Error && error.message === 'Not connected') {
+        throw new RequestNotSentError(error.message);
+      }
+      throw error;
+    } finally {
+      cancellation?.dispose();
+    }
+  }
+
+  private toolCallError(toolName: string, params: Record<string, unknown>, error: unknown): Error {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Tool call failed for ${toolName}:`, {
+      toolName,
+      params,
+      error: errorMessage,
+      stack: error instanceof Error ? error.stack : undefined
+    });
+    return new Error(`MCP tool call failed for ${toolName}: ${errorMessage}`);
+  }
+
+  /** Call an MCP tool and return result */
+  async json<T = unknown>(toolName: string, params: Record<string, unknown>, options: McpCallOptions = {}): Promise<T> {
+    const result = await this.callTool(toolName, params, options);
+
+    // Extract the result content
+    if (result && result.content && Array.isArray(result.content) && result.content.length > 0) {
+      const firstContent = result.content[0];
+      if (firstContent.type === 'text') {
+        try {
+          // Parse the JSON response
+          const parsedResult = JSON.parse(firstContent.text);
+          return parsedResult as T;
+        } catch (parseError) {
+          // If parsing fails, return as is (might be plain text)
+          console.warn(`Failed to parse JSON response for ${toolName}:`, parseError);
+          return firstContent.text as T;
+        }
+      }
+    }
+
+    return result as T;
+  }
+
+  /**
+   * Call an MCP tool, delivering each progress notification as it arrives and then,
+   * once the server sends the result, each of its content blocks. Resolves with the
+   * full result.
+   */
+  async stream(
+    toolName: string,
+    params: Record<string, unknown>,
+    onChunk: (chunk: McpStreamChunk) => void,
+    options: McpCallOptions = {}
+  ): Promise<CallToolResult> {
+    const result = await this.callTool(toolName, params, {
+      ...options,
+      onProgress: progress => {
+        options.onProgress?.(progress);
+        onChunk({ type: 'progress', progress });
+      }
+    });
+
+    for (const content of result.content ?? []) {
+      if (options.token?.isCancellationRequested) {
+        throw new vscode.CancellationError();
+      }
+      onChunk({ type: 'content', content });
+    }
+    return result;
+  }
+
+  /** Disconnect from MCP server */
+  async disconnect() {
+    this.clearReconnectTimer();
+    await this.closeConnection();
+    this.setState('disconnected');
+  }
+
+  private async closeConnection() {
+    this.stopHealthCheck();
+    // Subscriptions end with the session
+    this.resourceCache.clear();
+
+    // Clear the fields first so the resulting onclose is not treated as a lost connection
+    const client = this.client;
+    const transport = this.transport;
+    this.client = null;
+    this.transport = null;
+
+    try {
+      if (client) {
+        await client.close();
+      }
+      if (transport) {
+        await transport.close();
+      }
+    } catch (error) {
+      console.warn('Error while closing MCP connection:', error);
+    }
+  }
+
+  dispose() {
+    this.disconnect().catch(() => undefined);
+    this.onDidChangeStateEmitter.dispose();
+    this.onDidReceiveProgressEmitter.dispose();
+    this.onDidUpdateResourceEmitter.dispose();
+    this.workspaceFoldersListener.dispose();
+  }
+}
@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+
+export type McpServerType = 'streamable' | 'sse' | 'stdio';
+
+/** A named MCP server connection from `toolsBridger.profiles` */
+export interface ConnectionProfile {
+  name: string;
+  serverType: McpServerType;
+  serverUrl?: string;
+  serverCommand?: string;
+  serverArgs?: string[];
+  /** Working directory of the server process (stdio); relative paths start at the first workspace folder */
+  serverCwd?: string;
+  env?: Record<string, string>;
+  allowInsecure?: boolean;
+  /** Block statements that are not read-only before they reach the server */
+  readOnly?: boolean;
+}
+
+/** Profile built from the single-server settings when no profiles are configured */
+export const DEFAULT_PROFILE_NAME = 'default';
+
+const AUTH_TOKEN_SECRET_KEY = 'toolsBridger.authToken';
+
+/** SecretStorage key holding the bearer token of a profile */
+export function authTokenSecretKey(profileName: string): string {
+  return profileName === DEFAULT_PROFILE_NAME ? AUTH_TOKEN_SECRET_KEY : `${AUTH_TOKEN_SECRET_KEY}.${profileName}`;
+}
+
+const SERVER_SECRET_KEY_PREFIX = 'toolsBridger.serverSecret.';
+
+/** SecretStorage key of a value referenced as `${secret:name}` in stdio server settings */
+export function serverSecretKey(name: string): string {
+  return `${SERVER_SECRET_KEY_PREFIX}${name}`;
+}
+
+/** Read the configured profiles, falling back to the legacy `serverType`/`serverUrl` settings */
+export function readProfiles(): ConnectionProfile[] {
+  const config = vscode.workspace.getConfiguration('toolsBridger');
+  const profiles = config.get<ConnectionProfile[]>('profiles', [])
+    .filter(profile => profile && typeof profile.name === 'string' && profile.name.trim() !== '');
+
+  if (profiles.length > 0) {
+    return profiles.map(profile => ({ ...profile, serverType: profile.serverType || 'streamable' }));
+  }
+
+  return [{
+    name: DEFAULT_PROFILE_NAME,
+    serverType: config.get<McpServerType>('serverType', 'stdio'),
+    serverUrl: config.get<string>('serverUrl', ''),
+    serverCommand: config.get<string>('serverCommand', ''),
+    serverArgs: config.get<string[]>('serverArgs', []),
+    serverCwd: config.get<string>('serverCwd', '') || undefined,
+    env: config.get<Record<string, string>>('serverEnv')
+  }];
+}
+
+/** Name of the active profile, defaulting to the first configured profile */
+export function readActiveProfileName(profiles: ConnectionProfile[] = readProfiles()): string {
+  const config = vscode.workspace.getConfiguration('toolsBridger');
+  const activeProfile = config.get<string>('activeProfile', '');
+  return profiles.some(profile => profile.name === activeProfile) ? activeProfile : profiles[0].name;
+}
+
+/** Short description of where a profile connects to */
+export function describeProfile(profile: ConnectionProfile): string {
+  if (profile.serverType === 'stdio') {
+    return [profile.serverCommand, ...(profile.serverArgs || [])].filter(Boolean).join(' ');
+  }
+  return profile.serverUrl || '';
+}
@@ -0,0 +1,179 @@
+import * as vscode from 'vscode';
+import { ContentBlock, GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { McpClient } from '../mcpClient';
+
+/** A server prompt named in a `@dbTools /prompt` request, e.g. `/prompt analyze_table table=orders` */
+export interface PromptInvocation {
+    name: string;
+    /** Arguments given as `name=value` */
+    args: Record<string, string>;
+    /** Values given without a name, assigned to the remaining arguments in order */
+    positional: string[];
+}
+
+const ARGUMENT_PATTERN = /([A-Za-z_][\w.-]*)=(?:"([^"]*)"|'([^']*)'|(\S+))|"([^"]*)"|'([^']*)'|(\S+)/g;
+
+/** Parse the text after `/prompt`; undefined when it names no prompt */
+export function parsePromptInvocation(text: string): PromptInvocation | undefined {
+    const values: { key?: string; value: string }[] = [];
+    for (const match of text.matchAll(ARGUMENT_PATTERN)) {
+        if (match[1]) {
+            values.push({ key: match[1], value: match[2] ?? match[3] ?? match[4] ?? '' });
+        } else {
+            values.push({ value: match[5] ?? match[6] ?? match[7] ?? '' });
+        }
+    }
+
+    const first = values.shift();
+    if (!first || first.key) {
+        return undefined;
+    }
+    const args: Record<string, string> = {};
+    const positional: string[] = [];
+    for (const { key, value } of values) {
+        if (key) {
+            args[key] = value;
+        } else {
+            positional.push(value);
+        }
+    }
+    return { name: first.value, args, positional };
+}
+
+/** Quote an argument value for a `/prompt` request when it is not a single word */
+function quoteArgument(value: string): string {
+    if (/^[^\s"']+$/.test(value)) {
+        return value;
+    }
+    return value.includes('"') ? `'${value}'` : `"${value}"`;
+}
+
+/** The `/prompt` request text running a prompt with the given arguments */
+export function formatPromptInvocation(name: string, args: Record<string, string>): string {
+    return [name, ...Object.entries(args).map(([key, value]) => `${key}=${quoteArgument(value)}`)].join(' ');
+}
+
+/**
+ * Arguments of a prompt invocation, with positional values assigned to the
+ * arguments not given by name and the user asked for missing required ones.
+ * Undefined when the user cancels an input box.
+ */
+export async function resolvePromptArguments(prompt: Prompt, invocation: PromptInvocation): Promise<Record<string, string> | undefined> {
+    const args = { ...invocation.args };
+    const positional = [...invocation.positional];
+    for (const argument of prompt.arguments ?? []) {
+        if (args[argument.name] === undefined && positional.length > 0) {
+            args[argument.name] = positional.shift() as string;
+        }
+    }
+    // Extra words belong to the last argument, e.g. a free text question
+    const lastArgument = prompt.arguments?.[prompt.arguments.length - 1];
+    if (positional.length > 0 && lastArgument) {
+        args[lastArgument.name] = [args[lastArgument.name], ...positional].join(' ');
+    }
+
+    for (const argument of prompt.arguments ?? []) {
+        if (!argument.required || args[argument.name]) {
+            continue;
+        }
+        const value = await vscode.window.showInputBox({
+            title: `${prompt.title ?? prompt.name}: ${argument.name}`,
+            prompt: argument.description,
+            ignoreFocusOut: true,
+            validateInput: input => input.trim() ? undefined : `${argument.name} is required`
+        });
+        if (value === undefined) {
+            return undefined;
+        }
+        args[argument.name] = value;
+    }
+    return args;
+}
+
+/** Markdown list of the server's prompts and their arguments */
+export function formatPromptList(prompts: Prompt[]): string {
+    if (prompts.length === 0) {
+        return 'The MCP server does not offer any prompts.';
+    }
+
+    let output = `Prompts offered by the MCP server (${prompts.length}):\n\n`;
+    for (const prompt of prompts) {
+        output += `- **${prompt.name}**`;
+        if (prompt.description) {
+            output += ` — ${prompt.description}`;
+        }
+        output += '\n';
+        for (const argument of prompt.arguments ?? []) {
+            output += `  - \`${argument.name}\`${argument.required ? ' (required)' : ''}${argument.description ? `: ${argument.description}` : ''}\n`;
+        }
+    }
+    return output + '\nRun one with `@dbTools /prompt <name> <argument>=<value> ...`.';
+}
+
+function contentText(content: ContentBlock): string {
+    switch (content.type) {
+        case 'text':
+            return content.text;
+        case 'resource':
+            return 'text' in content.resource ?
+                `Resource ${content.resource.uri}:\n${content.resource.text}` :
+                `[Binary resource ${content.resource.uri} omitted]`;
+        case 'resource_link':
+            return `Resource ${content.uri}${content.description ? ` (${content.description})` : ''}`;
+        default:
+            return `[${content.type} content omitted]`;
+    }
+}
+
+/** Language model messages of a server prompt, keeping the roles the server gave them */
+export function promptMessagesToChat(result: GetPromptResult): vscode.LanguageModelChatMessage[] {
+    return result.messages.map(message => message.role === 'assistant' ?
+        vscode.LanguageModelChatMessage.Assistant(contentText(message.content)) :
+        vscode.LanguageModelChatMessage.User(contentText(message.content)));
+}
+
+/** Register the command running a server prompt in `@dbTools` */
+export function registerPromptCommands(context: vscode.ExtensionContext, mcpClient: McpClient) {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('toolsBridger.runServerPrompt', async (name?: string) => {
+            try {
+                if (!mcpClient.isConnected()) {
+                    await mcpClient.connect();
+                }
+                const prompts = await mcpClient.listPrompts();
+                let prompt = prompts.find(candidate => candidate.name === name);
+                if (!prompt) {
+                    if (prompts.length === 0) {
+                        vscode.window.showInformationMessage(`The MCP server of profile "${mcpClient.getActiveProfile().name}" does not offer any prompts.`);
+                        return;
+                    }
+                    const picked = await vscode.window.showQuickPick(prompts.map(candidate => ({
+                        label: candidate.title ?? candidate.name,
+                        description: candidate.title ? candidate.name : undefined,
+                        detail: candidate.description,
+                        prompt: candidate
+                    })), {
+                        title: 'Run MCP Server Prompt',
+                        placeHolder: 'Prompt to run in @dbTools',
+                        matchOnDetail: true
+                    });
+                    if (!picked) {
+                        return;
+                    }
+                    prompt = picked.prompt;
+                }
+
+                const args = await resolvePromptArguments(prompt, { name: prompt.name, args: {}, positional: [] });
+                if (!args) {
+                    return;
+                }
+                await vscode.commands.executeCommand('workbench.action.chat.open', {
+                    query: `@dbTools /prompt ${formatPromptInvocation(prompt.name, args)}`
+                });
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+                vscode.window.showErrorMessage(`Failed to run the MCP prompt: ${errorMessage}`);
+            }
+        })
+    );
+}
@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import { ReadResourceResult, Resource } from '@modelcontextprotocol/sdk/types.js';
+import { McpClient } from '../mcpClient';
+
+/** Characters of a resource's text included in chat; longer resources are cut */
+const MAX_RESOURCE_TEXT = 20000;
+
+/** Markdown code fence language for a resource MIME type */
+function fenceLanguage(mimeType: string | undefined): string {
+    if (!mimeType) {
+        return '';
+    }
+    if (mimeType.includes('json')) {
+        return 'json';
+    }
+    if (mimeType.includes('sql')) {
+        return 'sql';
+    }
+    if (mimeType.includes('yaml')) {
+        return 'yaml';
+    }
+    return '';
+}
+
+/** Markdown list of resources, one line per resource */
+export function formatResourceList(resources: Resource[]): string {
+    if (resources.length === 0) {
+        return 'The MCP server does not publish any resources.';
+    }
+
+    let output = `## MCP Resources (${resources.length})\n\n`;
+    for (const resource of resources) {
+        const title = resource.title ?? resource.name;
+        output += `- \`${resource.uri}\` — **${title}**`;
+        if (resource.description) {
+            output += `: ${resource.description}`;
+        }
+        if (resource.mimeType) {
+            output += ` (${resource.mimeType})`;
+        }
+        output += '\n';
+    }
+    return output;
+}
+
+/** Markdown of the contents of a read resource; binary contents are only described */
+export function formatResourceContents(uri: string, result: ReadResourceResult): string {
+    let output = `## Resource \`${uri}\`\n\n`;
+    if (result.contents.length === 0) {
+        return output + 'The resource is empty.';
+    }
+
+    for (const content of result.contents) {
+        if (result.contents.length > 1 || content.uri !== uri) {
+            output += `### \`${content.uri}\`\n\n`;
+        }
+        if ('text' in content && typeof content.text === 'string') {
+            const text = content.text.length > MAX_RESOURCE_TEXT ?
+                `${content.text.slice(0, MAX_RESOURCE_TEXT)}\n… (${content.text.length - MAX_RESOURCE_TEXT} more characters)` :
+                content.text;
+            output += `\`\`\`${fenceLanguage(content.mimeType)}\n${text}\n\`\`\`\n\n`;
+        } else if ('blob' in content && typeof content.blob === 'string') {
+            const size = Math.floor(content.blob.length * 3 / 4);
+            output += `*Binary content${content.mimeType ? ` (${content.mimeType})` : ''}, about ${size} bytes, not shown.*\n\n`;
+        }
+    }
+    return output;
+}
+
+/** Register the command attaching an MCP resource to a `@dbTools` request */
+export function registerResourceCommands(context: vscode.ExtensionContext, mcpClient: McpClient) {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('toolsBridger.attachResource', async (uri?: string) => {
+            try {
+                if (!uri) {
+                    if (!mcpClient.isConnected()) {
+                        await mcpClient.connect();
+                    }
+                    const resources = await mcpClient.listResources();
+                    if (resources.length === 0) {
+                        vscode.window.showInformationMessage(`The MCP server of profile "${mcpClient.getActiveProfile().name}" does not publish any resources.`);
+                        return;
+                    }
+                    const picked = await vscode.window.showQuickPick(resources.map(resource => ({
+                        label: resource.title ?? resource.name,
+                        description: resource.uri,
+                        detail: resource.description,
+                        uri: resource.uri
+                    })), {
+                        title: 'Attach MCP Resource to Chat',
+                        placeHolder: 'Resource to pull into the @dbTools request',
+                        matchOnDescription: true,
+                        matchOnDetail: true
+                    });
+                    if (!picked) {
+                        return;
+                    }
+                    uri = picked.uri;
+                }
+
+                await vscode.commands.executeCommand('workbench.action.chat.open', {
+                    query: `@dbTools #dbResource ${uri} `,
+                    isPartialQuery: true
+                });
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+                vscode.window.showErrorMessage(`Failed to list MCP resources: ${errorMessage}`);
+            }
+        })
+    );
+}
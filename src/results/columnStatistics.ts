@@ -0,0 +1,77 @@
+import { QueryField, RunQueryResponse } from '../types';
+import { pgTypeCategory, pgTypeName } from '../sql/pgTypes';
+import { formatCellValue, formatMarkdownCell } from './resultExport';
+
+/** Most common values listed per column */
+const TOP_VALUES = 3;
+
+export interface ColumnStatistics {
+    field: QueryField;
+    /** Values that are not NULL */
+    nonNullCount: number;
+    distinctCount: number;
+    min?: unknown;
+    max?: unknown;
+    /** Values occurring more than once, most frequent first */
+    mostCommon: { value: unknown; count: number }[];
+}
+
+function compareValues(a: unknown, b: unknown, numeric: boolean): number {
+    if (numeric) {
+        return Number(a) - Number(b);
+    }
+    const left = formatCellValue(a);
+    const right = formatCellValue(b);
+    return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/** Statistics of one column over all rows of a result */
+export function columnStatistics(result: RunQueryResponse, field: QueryField): ColumnStatistics {
+    const values = result.rows.map(row => row[field.name]).filter(value => value !== null && value !== undefined);
+    const counts = new Map<string, { value: unknown; count: number }>();
+    for (const value of values) {
+        const key = formatCellValue(value);
+        const entry = counts.get(key);
+        if (entry) {
+            entry.count++;
+        } else {
+            counts.set(key, { value, count: 1 });
+        }
+    }
+
+    // Ranges only make sense for scalars; JSON, arrays and binary values have none
+    const category = pgTypeCategory(field.dataTypeID);
+    const ordered = ['number', 'datetime', 'text'].includes(category) ?
+        [...values].sort((a, b) => compareValues(a, b, category === 'number')) : [];
+
+    return {
+        field,
+        nonNullCount: values.length,
+        distinctCount: counts.size,
+        min: ordered[0],
+        max: ordered[ordered.length - 1],
+        mostCommon: [...counts.values()]
+            .filter(entry => entry.count > 1)
+            .sort((a, b) => b.count - a.count)
+            .slice(0, TOP_VALUES)
+    };
+}
+
+/**
+ * One markdown line per column of a result, e.g.
+ * `- **status** (text): 98 of 100 set, 3 distinct, "closed" … "open", most common: "open" (60), "closed" (30)`
+ */
+export function formatColumnStatistics(result: RunQueryResponse): string {
+    const total = result.rows.length;
+    return result.fields.map(field => {
+        const stats = columnStatistics(result, field);
+        let line = `- **${field.name}** (${pgTypeName(field.dataTypeID)}): ${stats.nonNullCount} of ${total} set, ${stats.distinctCount} distinct`;
+        if (stats.min !== undefined && stats.distinctCount > 1) {
+            line += `, ${formatMarkdownCell(stats.min, 40)} … ${formatMarkdownCell(stats.max, 40)}`;
+        }
+        if (stats.mostCommon.length > 0) {
+            line += `, most common: ${stats.mostCommon.map(entry => `${formatMarkdownCell(entry.value, 40)} (${entry.count})`).join(', ')}`;
+        }
+        return line;
+    }).join('\n');
+}
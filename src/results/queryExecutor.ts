@@ -0,0 +1,190 @@
+import * as vscode from 'vscode';
+import { describeProgress, McpCallOptions, McpClient } from '../mcpClient';
+import { SchemaCache } from '../schemaCache';
+import { analyzeSql, SqlRiskReport, SqlStatementAnalysis, SqlStatementKind } from '../sql';
+import { QueryHistoryStore } from '../history/queryHistoryStore';
+import { AuditLog } from '../audit/auditLog';
+import { QueryPage, RunQueryResponse } from '../types';
+import { buildPageQuery, getQueryPageSize, isPageableQuery, nextPageOffset, QueryPageResult, runQueryPage } from './queryPaging';
+import { QueryResultStore, StoredQueryResult } from './queryResultStore';
+
+/** Statement kinds after which cached schema metadata may be stale; SELECT INTO is analyzed as CREATE */
+const SCHEMA_CHANGING_KINDS = new Set<SqlStatementKind>(['create', 'alter', 'drop', 'comment', 'do', 'call']);
+
+const DEFAULT_CLIENT_ID = 'vscode-tools-bridger';
+/** Name the audit log records for queries confirmed through `runWithConfirmation` */
+const CONFIRMATION_TOOL = 'toolsBridger.runQuery';
+
+export interface QueryExecutionOptions extends McpCallOptions {
+    clientId?: string;
+    /** Rows per page of a pageable query; defaults to `toolsBridger.queryPageSize` */
+    limit?: number;
+    offset?: number;
+}
+
+export interface QueryExecution {
+    stored: StoredQueryResult;
+    report: SqlRiskReport;
+    page?: QueryPage;
+}
+
+/**
+ * Read-only mode from the active profile, falling back to `toolsBridger.readOnly`.
+ * A `true` in any settings scope wins, so workspace settings can turn read-only
+ * mode on but never off.
+ */
+export function isReadOnlyMode(mcpClient: McpClient): boolean {
+    const setting = vscode.workspace.getConfiguration('toolsBridger').inspect<boolean>('readOnly');
+    const configured = [setting?.globalValue, setting?.workspaceValue, setting?.workspaceFolderValue].some(value => value === true);
+    return mcpClient.getActiveProfile().readOnly ?? configured;
+}
+
+/** EXPLAIN ANALYZE runs its statement, which may itself be DDL such as CREATE TABLE AS */
+function changesSchema(statement: SqlStatementAnalysis): boolean {
+    return SCHEMA_CHANGING_KINDS.has(statement.kind) || (statement.kind === 'explain' && !statement.readOnly);
+}
+
+function errorMessageOf(error: unknown): string {
+    return error instanceof Error ? error.message : 'Unknown error occurred';
+}
+
+/**
+ * Runs queries through the server's `run_query` tool for the chat tools and
+ * commands alike: pages single SELECT statements, keeps the result for the
+ * result grid, records the query history and drops stale schema metadata.
+ * Callers check read-only mode and confirm risky statements first.
+ */
+export class QueryExecutor {
+    constructor(
+        private mcpClient: McpClient,
+        private resultStore: QueryResultStore,
+        private schemaCache: SchemaCache,
+        private historyStore: QueryHistoryStore,
+        private auditLog: AuditLog
+    ) {}
+
+    async execute(query: string, options: QueryExecutionOptions = {}): Promise<QueryExecution> {
+        const report = analyzeSql(query);
+        const profile = this.mcpClient.getActiveProfile().name;
+        const startedAt = Date.now();
+
+        try {
+            const { result, page } = await this.run(query, report, options);
+            const stored = this.resultStore.add(query, result, profile, page);
+            this.recordHistory({ query, profile, startedAt, rowCount: result.rowCount });
+            return { stored, report, page };
+        } catch (error) {
+            const message = error instanceof vscode.CancellationError ? 'Cancelled' : errorMessageOf(error);
+            this.recordHistory({ query, profile, startedAt, error: message });
+            throw error;
+        } finally {
+            // DDL may have run even when a later statement failed
+            if (report.statements.some(changesSchema)) {
+                this.schemaCache.invalidate(profile);
+            }
+        }
+    }
+
+    /**
+     * Load the page after the rows of a paged result and append it in the
+     * result store. The statement is analyzed again, so only a read-only
+     * statement is ever re-run, and the page is recorded in the query history.
+     */
+    async loadNextPage(stored: StoredQueryResult, options: McpCallOptions = {}): Promise<QueryPageResult> {
+        const loaded = stored.page;
+        if (!loaded) {
+            throw new Error(`Query result #${stored.id} has no further pages.`);
+        }
+        if (!isPageableQuery(analyzeSql(loaded.statement))) {
+            throw new Error('Only a single read-only SELECT, VALUES or TABLE statement can be paged.');
+        }
+
+        const request = { ...loaded, offset: nextPageOffset(loaded, stored.result.rows.length) };
+        const query = buildPageQuery(request.statement, request.limit, request.offset);
+        const startedAt = Date.now();
+        try {
+            const next = await runQueryPage(this.mcpClient, request, options, stored.profile);
+            this.resultStore.appendPage(stored.id, next.result, next.page);
+            this.recordHistory({ query, profile: stored.profile, startedAt, rowCount: next.result.rowCount });
+            return next;
+        } catch (error) {
+            const message = error instanceof vscode.CancellationError ? 'Cancelled' : errorMessageOf(error);
+            this.recordHistory({ query, profile: stored.profile, startedAt, error: message });
+            throw error;
+        }
+    }
+
+    /**
+     * Run a query started from a command: refuse it in read-only mode, confirm
+     * statements that are not read-only, then open the result grid.
+     */
+    async runWithConfirmation(query: string): Promise<StoredQueryResult | undefined> {
+        const report = analyzeSql(query);
+        const profile = this.mcpClient.getActiveProfile().name;
+
+        if (!report.readOnly) {
+            const kinds = [...new Set(report.statements.map(statement => statement.kind.toUpperCase()))].join(', ');
+            if (isReadOnlyMode(this.mcpClient)) {
+                vscode.window.showErrorMessage(`Query blocked by read-only mode: profile "${profile}" only allows read-only statements (found ${kinds}).`);
+                return undefined;
+            }
+            this.auditLog.confirmationRequested(CONFIRMATION_TOOL, { query });
+            const choice = await vscode.window.showWarningMessage(
+                `Run ${kinds} against profile "${profile}"?`,
+                { modal: true, detail: [...report.warnings, `Affected: ${report.affectedTables.join(', ') || '-'}`].join('\n') },
+                'Run Query'
+            );
+            this.auditLog.confirmationResolved(CONFIRMATION_TOOL, { query }, choice === 'Run Query');
+            if (choice !== 'Run Query') {
+                return undefined;
+            }
+        }
+
+        try {
+            if (!this.mcpClient.isConnected()) {
+                await this.mcpClient.connect();
+            }
+            const { stored } = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Running query on "${profile}"`,
+                cancellable: true
+            }, (progress, token) => this.execute(query, {
+                token,
+                onProgress: update => progress.report({ message: describeProgress(update) })
+            }));
+            await vscode.commands.executeCommand('toolsBridger.openQueryResult', stored.id);
+            return stored;
+        } catch (error) {
+            if (!(error instanceof vscode.CancellationError)) {
+                vscode.window.showErrorMessage(`Query failed: ${errorMessageOf(error)}`);
+            }
+            return undefined;
+        }
+    }
+
+    private async run(query: string, report: SqlRiskReport, options: QueryExecutionOptions): Promise<{ result: RunQueryResponse; page?: QueryPage }> {
+        const { clientId = DEFAULT_CLIENT_ID, limit, offset, ...callOptions } = options;
+        if (!isPageableQuery(report)) {
+            const result = await this.mcpClient.json<RunQueryResponse>('run_query', { query, clientId }, callOptions);
+            return { result };
+        }
+
+        return runQueryPage(this.mcpClient, {
+            statement: report.statements[0].text,
+            clientId,
+            limit: limit !== undefined ? Math.max(1, Math.floor(limit)) : getQueryPageSize(),
+            offset: offset !== undefined ? Math.max(0, Math.floor(offset)) : 0
+        }, callOptions);
+    }
+
+    private recordHistory(entry: { query: string; profile: string; startedAt: number; rowCount?: number; error?: string }) {
+        this.historyStore.record({
+            query: entry.query,
+            profile: entry.profile,
+            executedAt: new Date(entry.startedAt).toISOString(),
+            durationMs: Date.now() - entry.startedAt,
+            rowCount: entry.rowCount,
+            error: entry.error
+        }).then(undefined, error => console.error('Failed to record query history:', error));
+    }
+}
@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import { McpCallOptions, McpClient } from '../mcpClient';
+import { SqlRiskReport, SqlStatementKind } from '../sql';
+import { QueryPage, RunQueryResponse } from '../types';
+
+const DEFAULT_PAGE_SIZE = 200;
+
+/** Statement kinds that can be wrapped in a subquery to fetch one page */
+const PAGEABLE_KINDS = new Set<SqlStatementKind>(['select', 'values', 'table']);
+
+export interface QueryPageResult {
+    result: RunQueryResponse;
+    page: QueryPage;
+}
+
+/** Rows per page from `toolsBridger.queryPageSize` */
+export function getQueryPageSize(): number {
+    const config = vscode.workspace.getConfiguration('toolsBridger');
+    return Math.max(1, Math.floor(config.get<number>('queryPageSize', DEFAULT_PAGE_SIZE)));
+}
+
+/** A single read-only SELECT, VALUES or TABLE statement, which can be paged with LIMIT/OFFSET */
+export function isPageableQuery(report: SqlRiskReport): boolean {
+    if (report.statements.length !== 1) {
+        return false;
+    }
+    const [statement] = report.statements;
+    return statement.readOnly && PAGEABLE_KINDS.has(statement.kind) && statement.dataModifyingCtes.length === 0;
+}
+
+/**
+ * Wrap a statement so the server returns one page. One extra row is requested
+ * to find out whether another page follows.
+ */
+export function buildPageQuery(statement: string, limit: number, offset: number): string {
+    // The newline keeps a trailing line comment from swallowing the closing parenthesis
+    return `SELECT * FROM (\n${statement}\n) AS page LIMIT ${limit + 1} OFFSET ${offset}`;
+}
+
+/** Run one page of a pageable statement through the server's `run_query` tool */
+export async function runQueryPage(
+    mcpClient: McpClient,
+    request: Omit<QueryPage, 'hasMore'>,
+    options: McpCallOptions = {},
+    profileName?: string
+): Promise<QueryPageResult> {
+    const { statement, clientId, limit, offset } = request;
+    const response = await mcpClient.json<RunQueryResponse>('run_query', {
+        query: buildPageQuery(statement, limit, offset),
+        clientId
+    }, options, profileName);
+
+    const rows = response.rows.slice(0, limit);
+    // The server may cap results below the page size; the rest is still on the next page
+    const hasMore = response.rows.length > limit || response.wasLimited;
+    return {
+        result: {
+            ...response,
+            rows,
+            rowCount: rows.length,
+            totalRowCount: rows.length,
+            wasLimited: false
+        },
+        page: { statement, clientId, limit, offset, hasMore }
+    };
+}
+
+/** Offset of the page after the given one */
+export function nextPageOffset(page: QueryPage, rowCount: number): number {
+    return page.offset + rowCount;
+}
+
+/** Offset of the page before the given one */
+export function previousPageOffset(page: QueryPage): number {
+    return Math.max(0, page.offset - page.limit);
+}
+
+/** "rows 201–400 (more available)" */
+export function describePage(page: QueryPage, rowCount: number): string {
+    const range = rowCount > 0 ? `rows ${page.offset + 1}–${page.offset + rowCount}` : `no rows after row ${page.offset}`;
+    return page.hasMore ? `${range} (more available)` : range;
+}
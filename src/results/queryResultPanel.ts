@@ -0,0 +1,231 @@
+import * as vscode from 'vscode';
+import { analyzeSql } from '../sql';
+import { pgTypeCategory, pgTypeName } from '../sql/pgTypes';
+import { QueryResultStore, StoredQueryResult } from './queryResultStore';
+import { EXPORT_FORMATS, exportResult, ResultExportFormat } from './resultExport';
+import { QueryExecutor } from './queryExecutor';
+import { getNonce } from '../webviewUtils';
+
+type ResultPanelMessage =
+    | { type: 'ready' }
+    | { type: 'export'; format: ResultExportFormat; rowIndexes: number[] }
+    | { type: 'loadMore' };
+
+/**
+ * Webview panel showing a full query result with sorting, filtering, column
+ * resizing, cell inspection and export. Paged results load further pages on demand.
+ */
+export class QueryResultPanel {
+    static readonly viewType = 'toolsBridger.queryResult';
+    private static current: QueryResultPanel | undefined;
+
+    private ready = false;
+    private loadingPage = false;
+    private disposables: vscode.Disposable[] = [];
+
+    static show(extensionUri: vscode.Uri, stored: StoredQueryResult, queryExecutor: QueryExecutor) {
+        if (QueryResultPanel.current) {
+            QueryResultPanel.current.panel.reveal(vscode.ViewColumn.Active);
+            QueryResultPanel.current.update(stored);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            QueryResultPanel.viewType,
+            'Query Result',
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')]
+            }
+        );
+        QueryResultPanel.current = new QueryResultPanel(panel, extensionUri, stored, queryExecutor);
+    }
+
+    private constructor(
+        private readonly panel: vscode.WebviewPanel,
+        private readonly extensionUri: vscode.Uri,
+        private stored: StoredQueryResult,
+        private readonly queryExecutor: QueryExecutor
+    ) {
+        this.panel.webview.html = this.getHtml();
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        this.panel.webview.onDidReceiveMessage((message: ResultPanelMessage) => this.handleMessage(message), null, this.disposables);
+        this.update(stored);
+    }
+
+    private update(stored: StoredQueryResult) {
+        this.stored = stored;
+        this.panel.title = `Query Result #${stored.id}`;
+        if (this.ready) {
+            this.postResult();
+        }
+    }
+
+    private postResult() {
+        const { result } = this.stored;
+        this.panel.webview.postMessage({
+            type: 'load',
+            id: this.stored.id,
+            query: this.stored.query,
+            profile: this.stored.profile,
+            executedAt: this.stored.executedAt.toISOString(),
+            columns: result.fields.map(field => ({
+                name: field.name,
+                type: pgTypeName(field.dataTypeID),
+                category: pgTypeCategory(field.dataTypeID)
+            })),
+            rows: result.rows,
+            rowCount: result.rowCount,
+            totalRowCount: result.totalRowCount,
+            wasLimited: result.wasLimited,
+            page: this.stored.page && { offset: this.stored.page.offset, hasMore: this.stored.page.hasMore }
+        });
+    }
+
+    private async handleMessage(message: ResultPanelMessage) {
+        switch (message.type) {
+            case 'ready':
+                this.ready = true;
+                this.postResult();
+                break;
+            case 'export':
+                await this.exportRows(message.format, message.rowIndexes);
+                break;
+            case 'loadMore':
+                await this.loadNextPage();
+                break;
+        }
+    }
+
+    /** Fetch the page after the loaded rows and append it to the grid */
+    private async loadNextPage() {
+        const stored = this.stored;
+        const loaded = stored.page;
+        if (!loaded?.hasMore || this.loadingPage) {
+            return;
+        }
+
+        this.loadingPage = true;
+        try {
+            const { result, page } = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Window,
+                title: `Loading more rows of result #${stored.id}`
+            }, () => this.queryExecutor.loadNextPage(stored));
+
+            if (this.stored === stored) {
+                this.panel.webview.postMessage({ type: 'append', id: stored.id, rows: result.rows, hasMore: page.hasMore });
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`Failed to load more rows: ${errorMessage}`);
+            this.panel.webview.postMessage({ type: 'append', id: stored.id, rows: [], hasMore: true });
+        } finally {
+            this.loadingPage = false;
+        }
+    }
+
+    private async exportRows(format: ResultExportFormat, rowIndexes: number[]) {
+        const { result, query, id } = this.stored;
+        const rows = rowIndexes.map(index => result.rows[index]).filter(row => row !== undefined);
+
+        // Use the queried table as INSERT target when the query reads exactly one table
+        const referencedTables = analyzeSql(query).statements.flatMap(statement => statement.referencedTables);
+        const tableName = referencedTables.length === 1 ? referencedTables[0] : undefined;
+
+        const content = exportResult(result, format, { rows, tableName });
+        const formatInfo = EXPORT_FORMATS[format];
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const fileName = `query-result-${id}.${formatInfo.extension}`;
+
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName) : undefined,
+            filters: { [formatInfo.label]: [formatInfo.extension] },
+            saveLabel: `Export ${formatInfo.label}`
+        });
+        if (!target) {
+            return;
+        }
+
+        try {
+            await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+            const choice = await vscode.window.showInformationMessage(`Exported ${rows.length} rows to ${vscode.workspace.asRelativePath(target)}.`, 'Open File');
+            if (choice === 'Open File') {
+                await vscode.window.showTextDocument(target);
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`Failed to export query result: ${errorMessage}`);
+        }
+    }
+
+    private getHtml(): string {
+        const webview = this.panel.webview;
+        const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'queryResult.js'));
+        const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'queryResult.css'));
+        const nonce = getNonce();
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <link href="${styleUri}" rel="stylesheet">
+    <title>Query Result</title>
+</head>
+<body>
+    <header class="toolbar">
+        <div class="summary" id="summary"></div>
+        <input type="search" id="filter" placeholder="Filter rows..." aria-label="Filter rows">
+        <div class="exports">
+            ${(Object.keys(EXPORT_FORMATS) as ResultExportFormat[]).map(format =>
+                `<button data-export="${format}" title="Export as ${EXPORT_FORMATS[format].label}">${format === 'sql' ? 'SQL INSERT' : EXPORT_FORMATS[format].label}</button>`
+            ).join('\n            ')}
+        </div>
+    </header>
+    <details class="query">
+        <summary>Query</summary>
+        <pre id="query"></pre>
+    </details>
+    <main class="grid-container">
+        <table id="grid"></table>
+        <button id="showMore" class="show-more" hidden>Show more rows</button>
+        <button id="loadMore" class="show-more" hidden>Load next page</button>
+    </main>
+    <aside id="inspector" class="inspector" hidden>
+        <div class="inspector-header">
+            <span id="inspectorTitle"></span>
+            <button id="copyValue">Copy</button>
+            <button id="closeInspector" title="Close">✕</button>
+        </div>
+        <pre id="inspectorValue"></pre>
+    </aside>
+    <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+    }
+
+    dispose() {
+        QueryResultPanel.current = undefined;
+        this.panel.dispose();
+        while (this.disposables.length) {
+            this.disposables.pop()?.dispose();
+        }
+    }
+}
+
+/** Register the command that opens a stored query result in the result grid */
+export function registerQueryResultCommands(context: vscode.ExtensionContext, resultStore: QueryResultStore, queryExecutor: QueryExecutor) {
+    context.subscriptions.push(vscode.commands.registerCommand('toolsBridger.openQueryResult', (id?: number) => {
+        const stored = id !== undefined ? resultStore.get(id) : resultStore.latest();
+        if (!stored) {
+            vscode.window.showInformationMessage(id !== undefined ?
+                `Query result #${id} is no longer available. Run the query again.` :
+                'No query results yet. Ask @dbTools to run a query first.');
+            return;
+        }
+        QueryResultPanel.show(context.extensionUri, stored, queryExecutor);
+    }));
+}
@@ -0,0 +1,69 @@
+import { QueryPage, RunQueryResponse } from '../types';
+
+export interface StoredQueryResult {
+    id: number;
+    query: string;
+    profile: string;
+    executedAt: Date;
+    result: RunQueryResponse;
+    /** Set for paged results; rows loaded so far start at `page.offset` */
+    page?: QueryPage;
+}
+
+const MAX_STORED_RESULTS = 20;
+
+/**
+ * Keeps the most recent query results in memory so the result grid can be
+ * opened from chat after the tool call has finished.
+ */
+export class QueryResultStore {
+    private results: StoredQueryResult[] = [];
+    private nextId = 1;
+
+    add(query: string, result: RunQueryResponse, profile: string, page?: QueryPage): StoredQueryResult {
+        const stored: StoredQueryResult = {
+            id: this.nextId++,
+            query,
+            profile,
+            executedAt: new Date(),
+            result,
+            page
+        };
+
+        this.results.push(stored);
+        if (this.results.length > MAX_STORED_RESULTS) {
+            this.results.shift();
+        }
+        return stored;
+    }
+
+    /** Append the next page of a paged result */
+    appendPage(id: number, result: RunQueryResponse, page: QueryPage): StoredQueryResult | undefined {
+        const stored = this.get(id);
+        if (!stored?.page) {
+            return undefined;
+        }
+        const rows = [...stored.result.rows, ...result.rows];
+        stored.result = { ...stored.result, rows, rowCount: rows.length, totalRowCount: rows.length };
+        stored.page = { ...stored.page, hasMore: page.hasMore };
+        return stored;
+    }
+
+    get(id: number): StoredQueryResult | undefined {
+        return this.results.find(stored => stored.id === id);
+    }
+
+    latest(): StoredQueryResult | undefined {
+        return this.results[this.results.length - 1];
+    }
+
+    /** Id of the most recently added result, or 0 when nothing was stored yet */
+    get lastId(): number {
+        return this.nextId - 1;
+    }
+
+    /** Results added after the given id */
+    since(id: number): StoredQueryResult[] {
+        return this.results.filter(stored => stored.id > id);
+    }
+}
@@ -0,0 +1,170 @@
+import { QueryField, RunQueryResponse } from '../types';
+import { pgTypeCategory } from '../sql/pgTypes';
+
+export type ResultExportFormat = 'csv' | 'json' | 'markdown' | 'sql';
+
+export const EXPORT_FORMATS: Record<ResultExportFormat, { label: string; extension: string; language: string }> = {
+    csv: { label: 'CSV', extension: 'csv', language: 'csv' },
+    json: { label: 'JSON', extension: 'json', language: 'json' },
+    markdown: { label: 'Markdown', extension: 'md', language: 'markdown' },
+    sql: { label: 'SQL INSERT statements', extension: 'sql', language: 'sql' }
+};
+
+export interface ResultExportOptions {
+    /** Rows to export instead of all rows, e.g. the sorted and filtered grid rows */
+    rows?: Record<string, unknown>[];
+    /** Target table of SQL INSERT statements */
+    tableName?: string;
+}
+
+interface SerializedBuffer {
+    type: 'Buffer';
+    data: number[];
+}
+
+function isSerializedBuffer(value: unknown): value is SerializedBuffer {
+    return !!value && typeof value === 'object' && (value as SerializedBuffer).type === 'Buffer' && Array.isArray((value as SerializedBuffer).data);
+}
+
+function bufferToHex(value: SerializedBuffer): string {
+    return `\\x${value.data.map(byte => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/** Plain text representation of a cell value */
+export function formatCellValue(value: unknown): string {
+    if (value === null || value === undefined) {
+        return 'NULL';
+    }
+    if (isSerializedBuffer(value)) {
+        return bufferToHex(value);
+    }
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+    if (typeof value === 'object') {
+        return JSON.stringify(value);
+    }
+    return String(value);
+}
+
+/** Cell value for a markdown table: escaped, single line and shortened */
+export function formatMarkdownCell(value: unknown, maxLength = 80): string {
+    if (value === null || value === undefined) {
+        return '*NULL*';
+    }
+    let text = formatCellValue(value).replace(/\r?\n/g, ' ').replace(/\|/g, '\\|');
+    if (text.length > maxLength) {
+        text = `${text.slice(0, maxLength - 1)}…`;
+    }
+    return text;
+}
+
+/** Keywords PostgreSQL reserves, which cannot be used as unquoted column or table names */
+const RESERVED_KEYWORDS = new Set([
+    'all', 'analyse', 'analyze', 'and', 'any', 'array', 'as', 'asc', 'asymmetric', 'authorization', 'binary', 'both',
+    'case', 'cast', 'check', 'collate', 'collation', 'column', 'concurrently', 'constraint', 'create', 'cross',
+    'current_catalog', 'current_date', 'current_role', 'current_schema', 'current_time', 'current_timestamp',
+    'current_user', 'default', 'deferrable', 'desc', 'distinct', 'do', 'else', 'end', 'except', 'false', 'fetch',
+    'for', 'foreign', 'freeze', 'from', 'full', 'grant', 'group', 'having', 'ilike', 'in', 'initially', 'inner',
+    'intersect', 'into', 'is', 'isnull', 'join', 'lateral', 'leading', 'left', 'like', 'limit', 'localtime',
+    'localtimestamp', 'natural', 'not', 'notnull', 'null', 'offset', 'on', 'only', 'or', 'order', 'outer',
+    'overlaps', 'placing', 'primary', 'references', 'returning', 'right', 'select', 'session_user', 'similar',
+    'some', 'symmetric', 'system_user', 'table', 'tablesample', 'then', 'to', 'trailing', 'true', 'union', 'unique',
+    'user', 'using', 'variadic', 'verbose', 'when', 'where', 'window', 'with'
+]);
+
+/** Quote a single identifier when PostgreSQL requires it; dots are part of the name */
+export function quoteIdentifier(name: string): string {
+    return /^[a-z_][a-z0-9_$]*$/.test(name) && !RESERVED_KEYWORDS.has(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
+
+/** Quote each part of a possibly schema-qualified name, e.g. `public.Orders` */
+export function quoteQualifiedName(name: string): string {
+    return name.split('.').map(quoteIdentifier).join('.');
+}
+
+function quoteLiteral(text: string): string {
+    return `'${text.replace(/'/g, '\'\'')}'`;
+}
+
+function pgArrayLiteral(values: unknown[]): string {
+    const elements = values.map(value => {
+        if (value === null || value === undefined) {
+            return 'NULL';
+        }
+        if (Array.isArray(value)) {
+            return pgArrayLiteral(value);
+        }
+        const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+        return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    });
+    return `{${elements.join(',')}}`;
+}
+
+/** SQL literal for a cell value of the given field */
+export function sqlLiteral(value: unknown, field?: QueryField): string {
+    if (value === null || value === undefined) {
+        return 'NULL';
+    }
+    if (typeof value === 'bigint' || (typeof value === 'number' && Number.isFinite(value))) {
+        return String(value);
+    }
+    if (typeof value === 'boolean') {
+        return value ? 'TRUE' : 'FALSE';
+    }
+    if (isSerializedBuffer(value)) {
+        return `${quoteLiteral(bufferToHex(value))}::bytea`;
+    }
+
+    const category = field ? pgTypeCategory(field.dataTypeID) : 'other';
+    if (Array.isArray(value) && category === 'array') {
+        return quoteLiteral(pgArrayLiteral(value));
+    }
+    if (typeof value === 'object' && !(value instanceof Date)) {
+        return quoteLiteral(JSON.stringify(value));
+    }
+    return quoteLiteral(formatCellValue(value));
+}
+
+function toCsv(fields: QueryField[], rows: Record<string, unknown>[]): string {
+    const escape = (text: string) => /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    const lines = [fields.map(field => escape(field.name)).join(',')];
+    for (const row of rows) {
+        lines.push(fields.map(field => {
+            const value = row[field.name];
+            return value === null || value === undefined ? '' : escape(formatCellValue(value));
+        }).join(','));
+    }
+    return lines.join('\r\n') + '\r\n';
+}
+
+function toMarkdown(fields: QueryField[], rows: Record<string, unknown>[]): string {
+    const headerRow = `| ${fields.map(field => field.name.replace(/\r?\n/g, ' ').replace(/\|/g, '\\|')).join(' | ')} |`;
+    const separatorRow = `| ${fields.map(() => '---').join(' | ')} |`;
+    const dataRows = rows.map(row => `| ${fields.map(field => formatMarkdownCell(row[field.name], Number.MAX_SAFE_INTEGER)).join(' | ')} |`);
+    return [headerRow, separatorRow, ...dataRows].join('\n') + '\n';
+}
+
+function toSqlInserts(fields: QueryField[], rows: Record<string, unknown>[], tableName: string): string {
+    const table = quoteQualifiedName(tableName);
+    const columns = fields.map(field => quoteIdentifier(field.name)).join(', ');
+    return rows.map(row =>
+        `INSERT INTO ${table} (${columns}) VALUES (${fields.map(field => sqlLiteral(row[field.name], field)).join(', ')});`
+    ).join('\n') + '\n';
+}
+
+/** Serialize query results into one of the export formats */
+export function exportResult(result: RunQueryResponse, format: ResultExportFormat, options: ResultExportOptions = {}): string {
+    const rows = options.rows ?? result.rows;
+
+    switch (format) {
+        case 'csv':
+            return toCsv(result.fields, rows);
+        case 'json':
+            return JSON.stringify(rows, null, 2) + '\n';
+        case 'markdown':
+            return toMarkdown(result.fields, rows);
+        case 'sql':
+            return toSqlInserts(result.fields, rows, options.tableName || 'query_result');
+    }
+}
@@ -0,0 +1,249 @@
+import * as vscode from 'vscode';
+import { McpClient } from './mcpClient';
+import {
+    ColumnInfo,
+    FindRelatedTablesResponse,
+    GenerateErdJsonResponse,
+    GenerateErdMermaidResponse,
+    ListColumnsResponse,
+    ListSchemasResponse,
+    ListTablesResponse,
+    RelatedTable
+} from './types';
+
+interface CacheEntry {
+    expiresAt: number;
+    value: Promise<unknown>;
+}
+
+export interface SchemaCacheInvalidation {
+    /** Profile whose entries were dropped, or undefined when the whole cache was cleared */
+    profile?: string;
+}
+
+const DEFAULT_TTL_SECONDS = 300;
+
+/**
+ * Caches schema metadata returned by the MCP server, keyed by profile, tool,
+ * schema and table. Entries expire after `toolsBridger.schemaCacheTtl` seconds,
+ * and are dropped on demand or when a query changes the schema.
+ *
+ * Cached `generate_erd_json` data of a schema is also used to answer
+ * `list_tables`, `list_columns` and `find_related_tables` without a round trip.
+ */
+export class SchemaCache implements vscode.Disposable {
+    private entries = new Map<string, CacheEntry>();
+
+    private readonly _onDidInvalidate = new vscode.EventEmitter<SchemaCacheInvalidation>();
+    readonly onDidInvalidate = this._onDidInvalidate.event;
+
+    constructor(private mcpClient: McpClient) {}
+
+    async listSchemas(token?: vscode.CancellationToken): Promise<ListSchemasResponse> {
+        return this.fetch<ListSchemasResponse>(this.activeProfile(), 'list_schemas', {}, token);
+    }
+
+    async listTables(schema: string, token?: vscode.CancellationToken): Promise<ListTablesResponse> {
+        const profile = this.activeProfile();
+        const erd = this.peek<GenerateErdJsonResponse>(profile, 'generate_erd_json', { schema });
+        if (erd) {
+            const tables = (await erd)?.tables;
+            if (Array.isArray(tables)) {
+                return { tables: tables.map(table => table.name) };
+            }
+        }
+        return this.fetch<ListTablesResponse>(profile, 'list_tables', { schema }, token);
+    }
+
+    async listColumns(schema: string, table: string, token?: vscode.CancellationToken): Promise<ListColumnsResponse> {
+        const profile = this.activeProfile();
+        const erd = this.peek<GenerateErdJsonResponse>(profile, 'generate_erd_json', { schema });
+        if (erd) {
+            const columns = erdColumns(await erd, table);
+            if (columns) {
+                return { columns };
+            }
+        }
+        return this.fetch<ListColumnsResponse>(profile, 'list_columns', { schema, table }, token);
+    }
+
+    async generateErdJson(schema: string, token?: vscode.CancellationToken): Promise<GenerateErdJsonResponse> {
+        return this.fetch<GenerateErdJsonResponse>(this.activeProfile(), 'generate_erd_json', { schema }, token);
+    }
+
+    async generateErdMermaid(schema: string, token?: vscode.CancellationToken): Promise<GenerateErdMermaidResponse> {
+        return this.fetch<GenerateErdMermaidResponse>(this.activeProfile(), 'generate_erd_mermaid', { schema }, token);
+    }
+
+    async findRelatedTables(schema: string, table: string, token?: vscode.CancellationToken): Promise<FindRelatedTablesResponse> {
+        const profile = this.activeProfile();
+        const erd = this.peek<GenerateErdJsonResponse>(profile, 'generate_erd_json', { schema });
+        if (erd) {
+            const relationships = (await erd)?.relationships;
+            if (Array.isArray(relationships)) {
+                return { related_tables: relatedTablesFromErd(schema, table, relationships) };
+            }
+        }
+        return this.fetch<FindRelatedTablesResponse>(profile, 'find_related_tables', { schema, table }, token);
+    }
+
+    /**
+     * Cache the result of a custom loader under a tool name, for metadata that is
+     * not fetched with a single MCP tool call (e.g. catalog query fallbacks).
+     * The loader is given the profile the entry is cached under.
+     */
+    cached<T>(
+        toolName: string,
+        params: Record<string, unknown>,
+        load: (token: vscode.CancellationToken | undefined, profile: string) => Promise<T>,
+        token?: vscode.CancellationToken
+    ): Promise<T> {
+        return this.fetch<T>(this.activeProfile(), toolName, params, token, load);
+    }
+
+    /** Drop cached entries of a profile (the active one by default) */
+    invalidate(profile = this.activeProfile()) {
+        const prefix = `${profile}\u0000`;
+        for (const key of [...this.entries.keys()]) {
+            if (key.startsWith(prefix)) {
+                this.entries.delete(key);
+            }
+        }
+        this._onDidInvalidate.fire({ profile });
+    }
+
+    /** Drop all cached entries of every profile */
+    clear() {
+        this.entries.clear();
+        this._onDidInvalidate.fire({});
+    }
+
+    /**
+     * Profile a request's entries belong to, read once when the request starts
+     * so a profile switch while it is in flight cannot file its result under
+     * the other profile
+     */
+    private activeProfile(): string {
+        return this.mcpClient.getActiveProfile().name;
+    }
+
+    private key(profile: string, toolName: string, params: Record<string, unknown>): string {
+        return [profile, toolName, params.schema ?? '', params.table ?? '', params.name ?? ''].join('\u0000');
+    }
+
+    private ttl(): number {
+        const config = vscode.workspace.getConfiguration('toolsBridger');
+        return Math.max(0, config.get<number>('schemaCacheTtl', DEFAULT_TTL_SECONDS)) * 1000;
+    }
+
+    /** Cached, unexpired value without fetching it */
+    private peek<T>(profile: string, toolName: string, params: Record<string, unknown>): Promise<T> | undefined {
+        const key = this.key(profile, toolName, params);
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        if (entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        return entry.value as Promise<T>;
+    }
+
+    private fetch<T>(
+        profile: string,
+        toolName: string,
+        params: Record<string, unknown>,
+        token?: vscode.CancellationToken,
+        load: (token: vscode.CancellationToken | undefined, profile: string) => Promise<T> =
+            loadToken => this.mcpClient.json<T>(toolName, params, { token: loadToken }, profile)
+    ): Promise<T> {
+        const cached = this.peek<T>(profile, toolName, params);
+        if (cached) {
+            return withCancellation(cached, token);
+        }
+
+        const ttl = this.ttl();
+        if (ttl === 0) {
+            return load(token, profile);
+        }
+
+        // The request is shared with later callers, so one caller's cancellation must not abort it
+        const value = load(undefined, profile);
+
+        // Share in-flight requests, but never cache failures
+        const key = this.key(profile, toolName, params);
+        const entry: CacheEntry = { expiresAt: Date.now() + ttl, value };
+        this.entries.set(key, entry);
+        value.catch(() => {
+            if (this.entries.get(key) === entry) {
+                this.entries.delete(key);
+            }
+        });
+        return withCancellation(value, token);
+    }
+
+    dispose() {
+        this.entries.clear();
+        this._onDidInvalidate.dispose();
+    }
+}
+
+/** Settle with the promise, or reject as soon as the token is cancelled */
+function withCancellation<T>(promise: Promise<T>, token?: vscode.CancellationToken): Promise<T> {
+    if (!token) {
+        return promise;
+    }
+    if (token.isCancellationRequested) {
+        return Promise.reject(new vscode.CancellationError());
+    }
+    return new Promise<T>((resolve, reject) => {
+        const cancellation = token.onCancellationRequested(() => {
+            cancellation.dispose();
+            reject(new vscode.CancellationError());
+        });
+        promise.then(value => {
+            cancellation.dispose();
+            resolve(value);
+        }, error => {
+            cancellation.dispose();
+            reject(error);
+        });
+    });
+}
+
+/**
+ * Columns of a table from ERD data. Only servers that report column types in
+ * the ERD can answer `list_columns`; plain column names are not enough.
+ */
+function erdColumns(erd: GenerateErdJsonResponse | undefined, table: string): ColumnInfo[] | undefined {
+    const tableInfo = erd?.tables?.find(info => info.name === table);
+    if (!tableInfo || !Array.isArray(tableInfo.columns)) {
+        return undefined;
+    }
+
+    const columns: ColumnInfo[] = [];
+    for (const column of tableInfo.columns as unknown[]) {
+        if (!column || typeof column !== 'object') {
+            return undefined;
+        }
+        const { name, type, is_nullable } = column as Partial<ColumnInfo>;
+        if (typeof name !== 'string' || typeof type !== 'string') {
+            return undefined;
+        }
+        columns.push({ name, type, is_nullable: is_nullable ?? true });
+    }
+    return columns;
+}
+
+function relatedTablesFromErd(schema: string, table: string, relationships: GenerateErdJsonResponse['relationships']): RelatedTable[] {
+    const related: RelatedTable[] = [];
+    for (const relationship of relationships) {
+        if (relationship.from_table === table) {
+            related.push({ schema, table: relationship.to_table, fk_column: relationship.from_column, pk_column: relationship.to_column });
+        } else if (relationship.to_table === table) {
+            related.push({ schema, table: relationship.from_table, fk_column: relationship.from_column, pk_column: relationship.to_column });
+        }
+    }
+    return related;
+}
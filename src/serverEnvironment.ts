@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { ConnectionProfile, serverSecretKey } from './profiles';
+
+/** Command line, working directory and environment of a stdio MCP server, with variables resolved */
+export interface StdioLaunchOptions {
+  command: string;
+  args: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+}
+
+const VARIABLE_PATTERN = /\$\{([^}]+)\}/g;
+
+function workspaceFolderPath(name?: string): string {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  const folder = name ? folders.find(candidate => candidate.name === name) : folders[0];
+  if (!folder) {
+    throw new Error(name ? `No workspace folder named "${name}" is open` : 'No workspace folder is open');
+  }
+  return folder.uri.fsPath;
+}
+
+/**
+ * Replace `${workspaceFolder}`, `${workspaceFolder:name}`, `${workspaceFolderBasename}`,
+ * `${userHome}`, `${env:NAME}` and `${secret:NAME}` in a setting value. Secrets come
+ * from SecretStorage, set with the "Set MCP Server Secret" command.
+ */
+export async function resolveVariables(value: string, secrets: vscode.SecretStorage): Promise<string> {
+  let resolved = '';
+  let last = 0;
+  for (const match of value.matchAll(VARIABLE_PATTERN)) {
+    const [variable, name] = match;
+    const separator = name.indexOf(':');
+    const kind = separator === -1 ? name : name.slice(0, separator);
+    const argument = separator === -1 ? undefined : name.slice(separator + 1);
+
+    let replacement: string;
+    if (kind === 'workspaceFolder') {
+      replacement = workspaceFolderPath(argument);
+    } else if (kind === 'workspaceFolderBasename') {
+      replacement = path.basename(workspaceFolderPath());
+    } else if (kind === 'userHome') {
+      replacement = os.homedir();
+    } else if (kind === 'env' && argument) {
+      replacement = process.env[argument] ?? '';
+    } else if (kind === 'secret' && argument) {
+      const secret = await secrets.get(serverSecretKey(argument));
+      if (secret === undefined) {
+        throw new Error(`Secret "${argument}" is not set. Run "Tools Bridger: Set MCP Server Secret" to store it.`);
+      }
+      replacement = secret;
+    } else {
+      // Leave unknown variables for the server to deal with
+      replacement = variable;
+    }
+
+    resolved += value.slice(last, match.index) + replacement;
+    last = (match.index ?? 0) + variable.length;
+  }
+  return resolved + value.slice(last);
+}
+
+/** Resolve the variables in a stdio profile's command, arguments, working directory and environment */
+export async function resolveStdioLaunchOptions(profile: ConnectionProfile, secrets: vscode.SecretStorage): Promise<StdioLaunchOptions> {
+  if (!profile.serverCommand) {
+    throw new Error('Server command is required for stdio transport');
+  }
+
+  const env: Record<string, string> = {};
+  for (const [name, value] of Object.entries(profile.env ?? {})) {
+    env[name] = await resolveVariables(value, secrets);
+  }
+
+  let cwd = profile.serverCwd ? await resolveVariables(profile.serverCwd, secrets) : undefined;
+  if (cwd && !path.isAbsolute(cwd) && vscode.workspace.workspaceFolders?.length) {
+    cwd = path.join(workspaceFolderPath(), cwd);
+  }
+
+  return {
+    command: await resolveVariables(profile.serverCommand, secrets),
+    args: await Promise.all((profile.serverArgs ?? []).map(arg => resolveVariables(arg, secrets))),
+    cwd,
+    env: profile.env ? env : undefined
+  };
+}
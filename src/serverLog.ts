@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  isJSONRPCErrorResponse,
+  isJSONRPCNotification,
+  isJSONRPCRequest,
+  isJSONRPCResultResponse,
+  JSONRPCMessage,
+  MessageExtraInfo,
+  RequestId
+} from '@modelcontextprotocol/sdk/types.js';
+import { StartupDiagnostics } from './serverProcess';
+
+/** Verbosity of the MCP traffic written to the output channel */
+export type ServerTraceLevel = 'off' | 'messages' | 'verbose';
+
+/** Characters of a message's JSON logged at `verbose` trace level */
+const MAX_TRACE_LENGTH = 10000;
+
+function readTraceLevel(): ServerTraceLevel {
+  return vscode.workspace.getConfiguration('toolsBridger.trace').get<ServerTraceLevel>('server', 'off');
+}
+
+/**
+ * Transport wrapper that logs every message sent and received. Requests are
+ * remembered until their response arrives, so responses are logged with the
+ * method and the time they took.
+ */
+class TracingTransport implements Transport {
+  private readonly pending = new Map<RequestId, { method: string; startedAt: number }>();
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: <T extends JSONRPCMessage>(message: T, extra?: MessageExtraInfo) => void;
+
+  constructor(private readonly inner: Transport, private readonly trace: (line: string) => void, private readonly getLevel: () => ServerTraceLevel) {
+    inner.onclose = () => this.onclose?.();
+    inner.onerror = error => this.onerror?.(error);
+    inner.onmessage = (message, extra) => {
+      this.log('←', message);
+      this.onmessage?.(message, extra);
+    };
+  }
+
+  get sessionId(): string | undefined {
+    return this.inner.sessionId;
+  }
+
+  start(): Promise<void> {
+    return this.inner.start();
+  }
+
+  send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    this.log('→', message);
+    return this.inner.send(message, options);
+  }
+
+  close(): Promise<void> {
+    this.pending.clear();
+    return this.inner.close();
+  }
+
+  setProtocolVersion(version: string) {
+    this.inner.setProtocolVersion?.(version);
+  }
+
+  private log(direction: '→' | '←', message: JSONRPCMessage) {
+    const level = this.getLevel();
+    if (level === 'off') {
+      this.pending.clear();
+      return;
+    }
+
+    let line: string;
+    if (isJSONRPCRequest(message)) {
+      this.pending.set(message.id, { method: message.method, startedAt: Date.now() });
+      line = `${direction} request ${message.method} (id ${message.id})`;
+    } else if (isJSONRPCNotification(message)) {
+      line = `${direction} notification ${message.method}`;
+    } else if (isJSONRPCResultResponse(message) || isJSONRPCErrorResponse(message)) {
+      const request = message.id === undefined ? undefined : this.pending.get(message.id);
+      if (message.id !== undefined) {
+        this.pending.delete(message.id);
+      }
+      const about = request ? `${request.method} (id ${message.id}, ${Date.now() - request.startedAt}ms)` : `(id ${message.id})`;
+      line = isJSONRPCErrorResponse(message) ?
+        `${direction} error ${about}: ${message.error.code} ${message.error.message}` :
+        `${direction} result ${about}`;
+    } else {
+      line = `${direction} message`;
+    }
+
+    if (level === 'verbose') {
+      const json = JSON.stringify(message);
+      line += `\n${json.length > MAX_TRACE_LENGTH ? `${json.slice(0, MAX_TRACE_LENGTH)}…` : json}`;
+    }
+    this.trace(line);
+  }
+}
+
+/**
+ * The "Tools Bridger" output channel: lifecycle events and stderr of the MCP
+ * servers, and their traffic at the `toolsBridger.trace.server` level.
+ */
+export class ServerLog implements vscode.Disposable {
+  private readonly output = vscode.window.createOutputChannel('Tools Bridger', { log: true });
+  private traceLevel = readTraceLevel();
+  private readonly configListener = vscode.workspace.onDidChangeConfiguration(event => {
+    if (event.affectsConfiguration('toolsBridger.trace.server')) {
+      this.traceLevel = readTraceLevel();
+    }
+  });
+
+  info(profile: string, message: string) {
+    this.output.info(`[${profile}] ${message}`);
+  }
+
+  warn(profile: string, message: string) {
+    this.output.warn(`[${profile}] ${message}`);
+  }
+
+  error(profile: string, message: string) {
+    this.output.error(`[${profile}] ${message}`);
+  }
+
+  /** A line the server process wrote to stderr */
+  stderr(profile: string, line: string) {
+    this.output.info(`[${profile}] [stderr] ${line}`);
+  }
+
+  /** Wrap a transport so its messages are logged at the configured trace level */
+  traced(profile: string, transport: Transport): Transport {
+    return new TracingTransport(transport, line => this.output.info(`[${profile}] ${line}`), () => this.traceLevel);
+  }
+
+  /** Log why a server failed to start and, when `notify` is set, offer to show the log or restart */
+  reportStartupFailure(profile: string, diagnostics: StartupDiagnostics, notify: boolean) {
+    this.error(profile, `MCP server failed to start: ${diagnostics.summary}`);
+    diagnostics.details.forEach(line => this.output.error(`    ${line}`));
+    if (notify) {
+      this.notify(`The MCP server of connection profile "${profile}" failed to start: ${diagnostics.summary}`, profile);
+    }
+  }
+
+  /** Log that a server keeps crashing and automatic restarts have stopped */
+  reportCrashLoop(profile: string, crashes: number, windowMinutes: number) {
+    this.error(profile, `MCP server crashed ${crashes} times within ${windowMinutes} minutes; not restarting it again`);
+    this.notify(`The MCP server of connection profile "${profile}" keeps crashing (${crashes} times within ${windowMinutes} minutes) and was not restarted.`, profile);
+  }
+
+  show() {
+    this.output.show(true);
+  }
+
+  private async notify(message: string, profile: string) {
+    const choice = await vscode.window.showErrorMessage(message, 'Show Server Logs', 'Restart MCP Server');
+    if (choice === 'Show Server Logs') {
+      this.show();
+    } else if (choice === 'Restart MCP Server') {
+      await vscode.commands.executeCommand('toolsBridger.restartServer', profile);
+    }
+  }
+
+  dispose() {
+    this.configListener.dispose();
+    this.output.dispose();
+  }
+}
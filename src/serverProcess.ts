@@ -0,0 +1,230 @@
+import { ChildProcess, spawn } from 'child_process';
+import { existsSync } from 'fs';
+import { getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ReadBuffer, serializeMessage } from '@modelcontextprotocol/sdk/shared/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ErrorCode, JSONRPCMessage, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { StdioLaunchOptions } from './serverEnvironment';
+
+/** Lines of stderr output kept for the diagnostics of a failed start or a crash */
+const STDERR_TAIL_LINES = 20;
+/** Time the server gets to exit after stdin is closed, and again after SIGTERM */
+const SHUTDOWN_GRACE_MS = 2000;
+
+/** How a server process ended: an exit code, or the signal that killed it */
+export interface ServerExit {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+}
+
+/** Why a stdio server failed to start, written to the "Tools Bridger" output channel */
+export interface StartupDiagnostics {
+  summary: string;
+  details: string[];
+}
+
+export function describeExit(exit: ServerExit): string {
+  return exit.signal ? `was killed by ${exit.signal}` : `exited with code ${exit.code}`;
+}
+
+function quoteArgument(arg: string): string {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `"${arg.replace(/(["\\$`])/g, '\\$1')}"`;
+}
+
+/**
+ * Stdio transport that owns the server process: unlike the SDK's transport it
+ * reports each stderr line, remembers how the process exited and keeps the
+ * last stderr lines, so a failed start or a crash can be explained.
+ */
+export class ManagedStdioTransport implements Transport {
+  private process: ChildProcess | undefined;
+  private readonly readBuffer = new ReadBuffer();
+  private stderrBuffer = '';
+  private readonly stderrTail: string[] = [];
+  private spawnError: NodeJS.ErrnoException | undefined;
+  private exit: ServerExit | undefined;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(
+    private readonly options: StdioLaunchOptions,
+    private readonly onStderr: (line: string) => void = () => undefined
+  ) {}
+
+  /** Process id of the running server */
+  get pid(): number | undefined {
+    return this.process?.pid;
+  }
+
+  /** How the server process ended; undefined while it is running */
+  getExit(): ServerExit | undefined {
+    return this.exit;
+  }
+
+  /** The last lines the server wrote to stderr */
+  getStderrTail(): string[] {
+    return [...this.stderrTail];
+  }
+
+  /** Command line of the server, for logs and diagnostics */
+  describeCommand(): string {
+    return [this.options.command, ...this.options.args].map(quoteArgument).join(' ');
+  }
+
+  async start() {
+    if (this.process) {
+      throw new Error('Server process already started');
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const child = spawn(this.options.command, this.options.args, {
+        cwd: this.options.cwd,
+        env: { ...getDefaultEnvironment(), ...this.options.env },
+        stdio: ['pipe', 'pipe', 'pipe'],
+        shell: false,
+        windowsHide: process.platform === 'win32'
+      });
+      this.process = child;
+
+      child.on('error', error => {
+        this.spawnError = error;
+        reject(error);
+        this.onerror?.(error);
+      });
+      child.on('spawn', () => resolve());
+      child.on('close', (code, signal) => {
+        this.flushStderr();
+        this.exit = { code, signal };
+        if (this.process === child) {
+          this.process = undefined;
+        }
+        this.onclose?.();
+      });
+
+      child.stdin?.on('error', error => this.onerror?.(error));
+      child.stdout?.on('error', error => this.onerror?.(error));
+      child.stdout?.on('data', (chunk: Buffer) => {
+        try {
+          this.readBuffer.append(chunk);
+          this.processReadBuffer();
+        } catch (error) {
+          this.onerror?.(error as Error);
+          this.close().catch(() => undefined);
+        }
+      });
+      child.stderr?.setEncoding('utf8');
+      child.stderr?.on('data', (chunk: string) => this.appendStderr(chunk));
+    });
+  }
+
+  private processReadBuffer() {
+    for (;;) {
+      try {
+        const message = this.readBuffer.readMessage();
+        if (message === null) {
+          return;
+        }
+        this.onmessage?.(message);
+      } catch (error) {
+        // A line that is not JSON-RPC, e.g. a print() to stdout; skip it
+        this.onerror?.(error as Error);
+      }
+    }
+  }
+
+  private appendStderr(chunk: string) {
+    this.stderrBuffer += chunk;
+    const lines = this.stderrBuffer.split(/\r?\n/);
+    this.stderrBuffer = lines.pop() ?? '';
+    lines.forEach(line => this.reportStderr(line));
+  }
+
+  private flushStderr() {
+    if (this.stderrBuffer) {
+      this.reportStderr(this.stderrBuffer);
+      this.stderrBuffer = '';
+    }
+  }
+
+  private reportStderr(line: string) {
+    if (!line.trim()) {
+      return;
+    }
+    this.stderrTail.push(line);
+    if (this.stderrTail.length > STDERR_TAIL_LINES) {
+      this.stderrTail.shift();
+    }
+    this.onStderr(line);
+  }
+
+  async send(message: JSONRPCMessage) {
+    const stdin = this.process?.stdin;
+    if (!stdin) {
+      throw new Error('Not connected');
+    }
+    if (!stdin.write(serializeMessage(message))) {
+      await new Promise(resolve => stdin.once('drain', resolve));
+    }
+  }
+
+  /** Close stdin and wait for the server to exit, escalating to SIGTERM and then SIGKILL */
+  async close() {
+    const child = this.process;
+    this.process = undefined;
+    if (child && child.exitCode === null && child.signalCode === null) {
+      const closed = new Promise<void>(resolve => child.once('close', () => resolve()));
+      const waitForExit = () => Promise.race([closed, new Promise(resolve => setTimeout(resolve, SHUTDOWN_GRACE_MS).unref())]);
+
+      child.stdin?.end();
+      await waitForExit();
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill('SIGTERM');
+        await waitForExit();
+      }
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill('SIGKILL');
+      }
+    }
+    this.readBuffer.clear();
+  }
+
+  /** Explain why connecting failed: a missing command, an early exit or a handshake that timed out */
+  diagnose(error: unknown, timeoutMs: number | undefined): StartupDiagnostics {
+    const { cwd } = this.options;
+    let summary: string;
+    const hints: string[] = [];
+
+    if (this.spawnError?.code === 'ENOENT' && cwd && !existsSync(cwd)) {
+      summary = `Working directory not found: ${cwd}`;
+      hints.push('Check toolsBridger.serverCwd (or the profile\'s serverCwd).');
+    } else if (this.spawnError?.code === 'ENOENT') {
+      summary = `Command not found: ${this.options.command}`;
+      hints.push('Check toolsBridger.serverCommand, or use an absolute path; VS Code may not see the PATH of your shell.');
+    } else if (this.spawnError?.code === 'EACCES') {
+      summary = `Command is not executable: ${this.options.command}`;
+    } else if (this.spawnError) {
+      summary = `Failed to start the server: ${this.spawnError.message}`;
+    } else if (this.exit) {
+      summary = `Server ${describeExit(this.exit)} before completing the MCP handshake`;
+      if (this.stderrTail.length === 0) {
+        hints.push('The server wrote nothing to stderr; try running the command in a terminal.');
+      }
+    } else if (error instanceof McpError && error.code === ErrorCode.RequestTimeout) {
+      summary = `Server did not answer the MCP initialize request within ${Math.round((timeoutMs ?? 0) / 1000)}s`;
+      hints.push('Make sure the server speaks MCP over stdio and does not wait for other input.');
+    } else {
+      summary = error instanceof Error ? error.message : String(error);
+    }
+
+    const details = [
+      `Command: ${this.describeCommand()}`,
+      `Working directory: ${cwd ?? '(not set)'}`
+    ];
+    if (this.stderrTail.length > 0) {
+      details.push('Last stderr output:', ...this.stderrTail.map(line => `  ${line}`));
+    }
+    return { summary, details: [...details, ...hints] };
+  }
+}
@@ -0,0 +1,202 @@
+import * as vscode from 'vscode';
+import { ElicitRequestFormParams, ElicitResult, PrimitiveSchemaDefinition } from '@modelcontextprotocol/sdk/types.js';
+
+type ElicitValue = string | number | boolean | string[];
+
+/** Answer to one field: undefined when the user cancelled, `{}` when an optional field was skipped */
+type FieldAnswer = { value?: ElicitValue } | undefined;
+
+type ChoiceItem = vscode.QuickPickItem & { value?: string };
+
+const SKIP_LABEL = '$(debug-step-over) Skip';
+
+/**
+ * Settle with a prompt's answer, or reject once the server cancels the request.
+ * Input boxes and quick picks are also given the token, which closes them; a
+ * modal message cannot be closed, so its answer is ignored instead.
+ */
+function untilCancelled<T>(prompt: Thenable<T>, token: vscode.CancellationToken): Promise<T> {
+    if (token.isCancellationRequested) {
+        return Promise.reject(new vscode.CancellationError());
+    }
+    return new Promise<T>((resolve, reject) => {
+        const cancellation = token.onCancellationRequested(() => {
+            cancellation.dispose();
+            reject(new vscode.CancellationError());
+        });
+        prompt.then(value => {
+            cancellation.dispose();
+            resolve(value);
+        }, error => {
+            cancellation.dispose();
+            reject(error);
+        });
+    });
+}
+
+/** Choices of an enum field: `enum` with optional `enumNames`, or titled `oneOf` constants */
+function fieldChoices(schema: PrimitiveSchemaDefinition): { value: string; title: string }[] | undefined {
+    if ('enum' in schema && Array.isArray(schema.enum)) {
+        const names = 'enumNames' in schema ? schema.enumNames : undefined;
+        return schema.enum.map((value, index) => ({ value, title: names?.[index] ?? value }));
+    }
+    if ('oneOf' in schema && Array.isArray(schema.oneOf)) {
+        return schema.oneOf.map(option => ({ value: option.const, title: option.title }));
+    }
+    if (schema.type === 'array') {
+        const items = schema.items;
+        return 'enum' in items ?
+            items.enum.map(value => ({ value, title: value })) :
+            items.anyOf.map(option => ({ value: option.const, title: option.title }));
+    }
+    return undefined;
+}
+
+function validateString(value: string, schema: PrimitiveSchemaDefinition, required: boolean): string | undefined {
+    if (!value) {
+        return required ? 'A value is required' : undefined;
+    }
+    if (schema.type === 'number' || schema.type === 'integer') {
+        const number = Number(value);
+        if (!Number.isFinite(number)) {
+            return 'Enter a number';
+        }
+        if (schema.type === 'integer' && !Number.isInteger(number)) {
+            return 'Enter a whole number';
+        }
+        if (schema.minimum !== undefined && number < schema.minimum) {
+            return `The minimum is ${schema.minimum}`;
+        }
+        if (schema.maximum !== undefined && number > schema.maximum) {
+            return `The maximum is ${schema.maximum}`;
+        }
+        return undefined;
+    }
+    if (schema.type !== 'string') {
+        return undefined;
+    }
+    // Enum strings are picked from a list, so only free text strings get here
+    const { minLength, maxLength, format } = schema as { minLength?: number; maxLength?: number; format?: string };
+    if (minLength !== undefined && value.length < minLength) {
+        return `Enter at least ${minLength} characters`;
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+        return `Enter at most ${maxLength} characters`;
+    }
+    if (format === 'email' && !/^[^\s@]+@[^\s@]+$/.test(value)) {
+        return 'Enter an email address';
+    }
+    if (format === 'uri' && !URL.canParse(value)) {
+        return 'Enter a URI';
+    }
+    if (format === 'date' && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return 'Enter a date as YYYY-MM-DD';
+    }
+    if (format === 'date-time' && Number.isNaN(Date.parse(value))) {
+        return 'Enter a date and time, e.g. 2024-01-31T12:00:00Z';
+    }
+    return undefined;
+}
+
+async function askChoice(
+    title: string,
+    schema: PrimitiveSchemaDefinition,
+    choices: { value: string; title: string }[],
+    required: boolean,
+    token: vscode.CancellationToken
+): Promise<FieldAnswer> {
+    const defaults = new Set(Array.isArray(schema.default) ? schema.default : schema.default === undefined ? [] : [String(schema.default)]);
+    const items: ChoiceItem[] = choices.map(choice => ({
+        label: choice.title,
+        description: choice.title !== choice.value ? choice.value : undefined,
+        picked: defaults.has(choice.value),
+        value: choice.value
+    }));
+
+    if (schema.type === 'array') {
+        const { minItems = required ? 1 : 0, maxItems } = schema;
+        for (;;) {
+            const picked = await untilCancelled(vscode.window.showQuickPick(items, { title, placeHolder: schema.description, canPickMany: true, ignoreFocusOut: true }, token), token);
+            if (!picked) {
+                return undefined;
+            }
+            if (picked.length >= minItems && (maxItems === undefined || picked.length <= maxItems)) {
+                return picked.length > 0 || required ? { value: picked.map(item => item.value as string) } : {};
+            }
+            await untilCancelled(vscode.window.showWarningMessage(`Pick ${maxItems === undefined ? `at least ${minItems}` : `${minItems} to ${maxItems}`} options.`, { modal: true }), token);
+        }
+    }
+
+    const picked = await untilCancelled(vscode.window.showQuickPick(required ? items : [...items, { label: SKIP_LABEL }], { title, placeHolder: schema.description, ignoreFocusOut: true }, token), token);
+    if (!picked) {
+        return undefined;
+    }
+    return picked.value === undefined ? {} : { value: picked.value };
+}
+
+async function askField(name: string, schema: PrimitiveSchemaDefinition, required: boolean, step: string, token: vscode.CancellationToken): Promise<FieldAnswer> {
+    const title = `${schema.title ?? name} (${step})`;
+    const choices = fieldChoices(schema);
+    if (choices) {
+        return askChoice(title, schema, choices, required, token);
+    }
+
+    if (schema.type === 'boolean') {
+        const answer = await askChoice(title, schema, [
+            { value: 'true', title: 'Yes' },
+            { value: 'false', title: 'No' }
+        ], required, token);
+        return answer?.value === undefined ? answer : { value: answer.value === 'true' };
+    }
+
+    const value = await untilCancelled(vscode.window.showInputBox({
+        title,
+        prompt: schema.description,
+        value: schema.default === undefined ? undefined : String(schema.default),
+        placeHolder: required ? undefined : 'Leave empty to skip',
+        ignoreFocusOut: true,
+        validateInput: input => validateString(input.trim(), schema, required)
+    }, token), token);
+    if (value === undefined) {
+        return undefined;
+    }
+    const trimmed = value.trim();
+    if (!trimmed) {
+        return {};
+    }
+    return { value: schema.type === 'number' || schema.type === 'integer' ? Number(trimmed) : trimmed };
+}
+
+/**
+ * Ask the user for the input a server requested, one input box or quick pick
+ * per field of the requested schema. Dismissing any of them cancels the request;
+ * when the server cancels it, the open prompt is closed and a `CancellationError` thrown.
+ */
+export async function elicitInput(params: ElicitRequestFormParams, profile: string, token: vscode.CancellationToken): Promise<ElicitResult> {
+    const choice = await untilCancelled(vscode.window.showInformationMessage(
+        `The MCP server of connection profile "${profile}" asks for input`,
+        { modal: true, detail: params.message },
+        'Respond',
+        'Decline'
+    ), token);
+    if (choice === 'Decline') {
+        return { action: 'decline' };
+    }
+    if (choice !== 'Respond') {
+        return { action: 'cancel' };
+    }
+
+    const fields = Object.entries(params.requestedSchema.properties);
+    const required = new Set(params.requestedSchema.required ?? []);
+    const content: Record<string, ElicitValue> = {};
+    for (const [index, [name, schema]] of fields.entries()) {
+        const answer = await askField(name, schema, required.has(name), `${index + 1}/${fields.length}`, token);
+        if (!answer) {
+            return { action: 'cancel' };
+        }
+        if (answer.value !== undefined) {
+            content[name] = answer.value;
+        }
+    }
+    return { action: 'accept', content };
+}
@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import { CreateMessageRequest, SamplingMessage } from '@modelcontextprotocol/sdk/types.js';
+
+export type SamplingParams = CreateMessageRequest['params'];
+
+/** Characters of the server's request shown in the consent dialog */
+const CONSENT_PREVIEW_LENGTH = 500;
+
+/** Text of a sampling message; its content is a single block or a list of blocks */
+function messageText(message: SamplingMessage): string {
+    const blocks = Array.isArray(message.content) ? message.content : [message.content];
+    return blocks.map(block => block.type === 'text' ? block.text : `[${block.type} content omitted]`).join('\n');
+}
+
+/**
+ * Chat messages of a sampling request. VS Code has no system role, so the
+ * server's system prompt is sent as the first user message.
+ */
+export function samplingMessagesToChat(params: SamplingParams): vscode.LanguageModelChatMessage[] {
+    const messages = params.messages.map(message => message.role === 'assistant' ?
+        vscode.LanguageModelChatMessage.Assistant(messageText(message)) :
+        vscode.LanguageModelChatMessage.User(messageText(message)));
+    return params.systemPrompt ?
+        [vscode.LanguageModelChatMessage.User(params.systemPrompt), ...messages] :
+        messages;
+}
+
+/** Message count, token limit and model hints of a sampling request, for the audit log */
+export function describeSamplingParams(params: SamplingParams): Record<string, unknown> {
+    return {
+        messages: params.messages.length,
+        maxTokens: params.maxTokens,
+        modelHints: params.modelPreferences?.hints?.map(hint => hint.name).filter(Boolean)
+    };
+}
+
+/** Last user message of a sampling request, shortened for the consent dialog */
+export function samplingPreview(params: SamplingParams): string {
+    const lastUserMessage = [...params.messages].reverse().find(message => message.role === 'user');
+    const text = lastUserMessage ? messageText(lastUserMessage) : '';
+    return text.length > CONSENT_PREVIEW_LENGTH ? `${text.slice(0, CONSENT_PREVIEW_LENGTH)}…` : text;
+}
+
+/**
+ * Chat model for a sampling request: the `toolsBridger.sampling.model` family
+ * when set, else the first model matching one of the server's hints, else a
+ * Copilot model, else any model.
+ */
+export async function selectSamplingModel(params: SamplingParams): Promise<vscode.LanguageModelChat | undefined> {
+    const configured = vscode.workspace.getConfiguration('toolsBridger.sampling').get<string>('model', '').trim();
+    if (configured) {
+        const [model] = await vscode.lm.selectChatModels({ family: configured });
+        if (model) {
+            return model;
+        }
+    }
+
+    const models = await vscode.lm.selectChatModels();
+    for (const hint of params.modelPreferences?.hints ?? []) {
+        const name = hint.name?.toLowerCase();
+        const match = name && models.find(model => [model.id, model.family, model.name].some(value => value.toLowerCase().includes(name)));
+        if (match) {
+            return match;
+        }
+    }
+    return models.find(model => model.vendor === 'copilot') ?? models[0];
+}
+
+export interface SampledText {
+    text: string;
+    stopReason: 'endTurn' | 'maxTokens' | 'stopSequence';
+}
+
+/**
+ * Model options of a sampling request. Their names are up to each model
+ * provider; these are the common OpenAI-style ones, which others ignore.
+ */
+function samplingModelOptions(params: SamplingParams): { [name: string]: unknown } {
+    const options: { [name: string]: unknown } = { max_tokens: params.maxTokens };
+    if (params.temperature !== undefined) {
+        options.temperature = params.temperature;
+    }
+    if (params.stopSequences?.length) {
+        options.stop = params.stopSequences;
+    }
+    return options;
+}
+
+/** Index of the first stop sequence in the text, or -1 */
+function findStopSequence(text: string, stopSequences: string[]): number {
+    const indexes = stopSequences.filter(Boolean).map(sequence => text.indexOf(sequence)).filter(index => index !== -1);
+    return indexes.length > 0 ? Math.min(...indexes) : -1;
+}
+
+/**
+ * Send a sampling request to a chat model and return the response text. The
+ * server's temperature, stop sequences and token limit are passed on as model
+ * options; since a model may ignore them, the response is also cut at the first
+ * stop sequence and after `maxTokens` tokens here.
+ */
+export async function sampleText(model: vscode.LanguageModelChat, params: SamplingParams, profile: string, token: vscode.CancellationToken): Promise<SampledText> {
+    // Stop the model once the response is cut, as well as when the server cancels
+    const tokenSource = new vscode.CancellationTokenSource();
+    const cancellation = token.onCancellationRequested(() => tokenSource.cancel());
+    const stopSequences = params.stopSequences ?? [];
+
+    try {
+        const response = await model.sendRequest(samplingMessagesToChat(params), {
+            justification: `The MCP server of connection profile "${profile}" asked for a completion`,
+            modelOptions: samplingModelOptions(params)
+        }, tokenSource.token);
+
+        let text = '';
+        let usedTokens = 0;
+        for await (const fragment of response.text) {
+            const fragmentTokens = await model.countTokens(fragment, token);
+            if (usedTokens + fragmentTokens > params.maxTokens) {
+                // Keep the share of the fragment that still fits
+                const fitting = Math.floor(fragment.length * (params.maxTokens - usedTokens) / fragmentTokens);
+                text += fragment.slice(0, fitting);
+                const stopIndex = findStopSequence(text, stopSequences);
+                return stopIndex === -1 ?
+                    { text, stopReason: 'maxTokens' } :
+                    { text: text.slice(0, stopIndex), stopReason: 'stopSequence' };
+            }
+            usedTokens += fragmentTokens;
+            text += fragment;
+
+            const stopIndex = findStopSequence(text, stopSequences);
+            if (stopIndex !== -1) {
+                return { text: text.slice(0, stopIndex), stopReason: 'stopSequence' };
+            }
+        }
+        return { text, stopReason: 'endTurn' };
+    } finally {
+        tokenSource.cancel();
+        cancellation.dispose();
+        tokenSource.dispose();
+    }
+}
@@ -0,0 +1,126 @@
+import * as vscode from 'vscode';
+import { CreateMessageResult, ElicitRequest, ElicitResult, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { McpServerRequestContext, McpServerRequestHandler } from '../mcpClient';
+import { AuditLog } from '../audit/auditLog';
+import { describeSamplingParams, sampleText, samplingPreview, SamplingParams, selectSamplingModel } from './sampling';
+import { elicitInput } from './elicitation';
+
+export type SamplingConsent = 'ask' | 'always' | 'never';
+
+function cancellationTokenFor(signal: AbortSignal): vscode.CancellationTokenSource {
+    const source = new vscode.CancellationTokenSource();
+    if (signal.aborted) {
+        source.cancel();
+    } else {
+        signal.addEventListener('abort', () => source.cancel(), { once: true });
+    }
+    return source;
+}
+
+/**
+ * Answers the requests MCP servers send back to the extension. Sampling
+ * requests go to a `vscode.lm` chat model once the user consents (per request,
+ * or for the rest of the session per profile); elicitation requests are asked
+ * with input boxes and quick picks. Every request is recorded in the audit log.
+ */
+export class ServerRequestHandler implements McpServerRequestHandler {
+    /** Profiles the user allowed to sample for the rest of the session */
+    private readonly sessionConsent = new Set<string>();
+
+    constructor(private auditLog: AuditLog) {}
+
+    async createMessage(params: SamplingParams, context: McpServerRequestContext): Promise<CreateMessageResult> {
+        const record = { event: 'sampling' as const, profile: context.profile, tool: 'sampling/createMessage' as const, params: describeSamplingParams(params) };
+
+        const model = await selectSamplingModel(params);
+        if (!model) {
+            this.auditLog.serverRequestHandled({ ...record, decision: 'declined', error: 'No chat model available' });
+            throw new McpError(ErrorCode.InternalError, 'No chat model is available in VS Code for sampling');
+        }
+
+        if (!await this.askSamplingConsent(params, context.profile, model)) {
+            this.auditLog.serverRequestHandled({ ...record, decision: 'declined', model: model.id });
+            throw new McpError(ErrorCode.InvalidRequest, 'The user declined the sampling request');
+        }
+
+        const tokenSource = cancellationTokenFor(context.signal);
+        const startedAt = Date.now();
+        try {
+            const { text, stopReason } = await sampleText(model, params, context.profile, tokenSource.token);
+            this.auditLog.serverRequestHandled({ ...record, decision: 'approved', model: model.id, durationMs: Date.now() - startedAt });
+            return {
+                role: 'assistant',
+                content: { type: 'text', text },
+                model: model.id,
+                stopReason
+            };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            this.auditLog.serverRequestHandled({ ...record, decision: 'approved', model: model.id, durationMs: Date.now() - startedAt, error: errorMessage });
+            throw new McpError(ErrorCode.InternalError, `Sampling failed: ${errorMessage}`);
+        } finally {
+            tokenSource.dispose();
+        }
+    }
+
+    async elicit(params: ElicitRequest['params'], context: McpServerRequestContext): Promise<ElicitResult> {
+        if (params.mode === 'url') {
+            // Only form elicitation is advertised
+            this.auditLog.serverRequestHandled({
+                event: 'elicitation', profile: context.profile, tool: 'elicitation/create', params: { message: params.message, url: params.url }, action: 'decline'
+            });
+            return { action: 'decline' };
+        }
+
+        const record = {
+            event: 'elicitation' as const,
+            profile: context.profile,
+            tool: 'elicitation/create' as const,
+            params: { message: params.message, fields: Object.keys(params.requestedSchema.properties) }
+        };
+        if (!vscode.workspace.getConfiguration('toolsBridger.elicitation').get<boolean>('enabled', true)) {
+            this.auditLog.serverRequestHandled({ ...record, action: 'decline' });
+            return { action: 'decline' };
+        }
+
+        const tokenSource = cancellationTokenFor(context.signal);
+        try {
+            const result = await elicitInput(params, context.profile, tokenSource.token);
+            this.auditLog.serverRequestHandled({ ...record, action: result.action });
+            return result;
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                this.auditLog.serverRequestHandled({ ...record, action: 'cancel' });
+            }
+            throw error;
+        } finally {
+            tokenSource.dispose();
+        }
+    }
+
+    private async askSamplingConsent(params: SamplingParams, profile: string, model: vscode.LanguageModelChat): Promise<boolean> {
+        const consent = vscode.workspace.getConfiguration('toolsBridger.sampling').get<SamplingConsent>('consent', 'ask');
+        if (consent === 'never') {
+            return false;
+        }
+        if (consent === 'always' || this.sessionConsent.has(profile)) {
+            return true;
+        }
+
+        const detail = [
+            `Model: ${model.name}${params.maxTokens ? ` · up to ${params.maxTokens} tokens` : ''}`,
+            '',
+            samplingPreview(params)
+        ].join('\n');
+        const choice = await vscode.window.showWarningMessage(
+            `The MCP server of connection profile "${profile}" wants to use the language model`,
+            { modal: true, detail },
+            'Allow',
+            'Allow for This Session'
+        );
+        if (choice === 'Allow for This Session') {
+            this.sessionConsent.add(profile);
+        }
+        return choice !== undefined;
+    }
+}
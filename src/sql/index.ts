@@ -0,0 +1,3 @@
+export { tokenizeSql, splitStatements, SqlToken, SqlStatement } from './sqlTokenizer';
+export { analyzeSql, formatRiskReport, SqlRiskReport, SqlStatementAnalysis, SqlStatementKind } from './sqlAnalyzer';
+export { findTableReferences, findReferenceByQualifier, SqlTableReference } from './sqlReferences';
@@ -0,0 +1,95 @@
+export type PgTypeCategory = 'number' | 'boolean' | 'json' | 'datetime' | 'binary' | 'text' | 'array' | 'other';
+
+interface PgTypeInfo {
+    name: string;
+    category: PgTypeCategory;
+}
+
+/** Built-in PostgreSQL type OIDs as reported in `QueryField.dataTypeID` */
+const PG_TYPES: Record<number, PgTypeInfo> = {
+    16: { name: 'boolean', category: 'boolean' },
+    17: { name: 'bytea', category: 'binary' },
+    18: { name: 'char', category: 'text' },
+    19: { name: 'name', category: 'text' },
+    20: { name: 'bigint', category: 'number' },
+    21: { name: 'smallint', category: 'number' },
+    23: { name: 'integer', category: 'number' },
+    25: { name: 'text', category: 'text' },
+    26: { name: 'oid', category: 'number' },
+    114: { name: 'json', category: 'json' },
+    142: { name: 'xml', category: 'text' },
+    199: { name: 'json[]', category: 'array' },
+    650: { name: 'cidr', category: 'text' },
+    700: { name: 'real', category: 'number' },
+    701: { name: 'double precision', category: 'number' },
+    790: { name: 'money', category: 'number' },
+    829: { name: 'macaddr', category: 'text' },
+    869: { name: 'inet', category: 'text' },
+    1000: { name: 'boolean[]', category: 'array' },
+    1001: { name: 'bytea[]', category: 'array' },
+    1005: { name: 'smallint[]', category: 'array' },
+    1007: { name: 'integer[]', category: 'array' },
+    1009: { name: 'text[]', category: 'array' },
+    1015: { name: 'varchar[]', category: 'array' },
+    1016: { name: 'bigint[]', category: 'array' },
+    1021: { name: 'real[]', category: 'array' },
+    1022: { name: 'double precision[]', category: 'array' },
+    1042: { name: 'character', category: 'text' },
+    1043: { name: 'varchar', category: 'text' },
+    1082: { name: 'date', category: 'datetime' },
+    1083: { name: 'time', category: 'datetime' },
+    1114: { name: 'timestamp', category: 'datetime' },
+    1115: { name: 'timestamp[]', category: 'array' },
+    1182: { name: 'date[]', category: 'array' },
+    1184: { name: 'timestamptz', category: 'datetime' },
+    1185: { name: 'timestamptz[]', category: 'array' },
+    1186: { name: 'interval', category: 'datetime' },
+    1231: { name: 'numeric[]', category: 'array' },
+    1266: { name: 'timetz', category: 'datetime' },
+    1560: { name: 'bit', category: 'text' },
+    1562: { name: 'varbit', category: 'text' },
+    1700: { name: 'numeric', category: 'number' },
+    2950: { name: 'uuid', category: 'text' },
+    2951: { name: 'uuid[]', category: 'array' },
+    3802: { name: 'jsonb', category: 'json' },
+    3807: { name: 'jsonb[]', category: 'array' },
+    3904: { name: 'int4range', category: 'other' },
+    3906: { name: 'numrange', category: 'other' },
+    3910: { name: 'tstzrange', category: 'other' },
+    3912: { name: 'daterange', category: 'other' }
+};
+
+/** Type name for a PostgreSQL type OID, e.g. 1184 → "timestamptz" */
+export function pgTypeName(oid: number): string {
+    return PG_TYPES[oid]?.name ?? `oid:${oid}`;
+}
+
+/** Broad category of a PostgreSQL type OID used for formatting and alignment */
+export function pgTypeCategory(oid: number): PgTypeCategory {
+    return PG_TYPES[oid]?.category ?? 'other';
+}
+
+/** Declared type names, by family of types that compare without an explicit cast */
+const TYPE_FAMILIES: Record<string, string> = {
+    smallint: 'number', int2: 'number', integer: 'number', int: 'number', int4: 'number', bigint: 'number', int8: 'number',
+    smallserial: 'number', serial: 'number', bigserial: 'number', serial2: 'number', serial4: 'number', serial8: 'number',
+    numeric: 'number', decimal: 'number', real: 'number', float4: 'number', 'double precision': 'number', float8: 'number', oid: 'number',
+    text: 'text', varchar: 'text', 'character varying': 'text', char: 'text', character: 'text', bpchar: 'text', name: 'text', citext: 'text',
+    date: 'datetime', timestamp: 'datetime', timestamptz: 'datetime',
+    'timestamp without time zone': 'datetime', 'timestamp with time zone': 'datetime',
+    boolean: 'boolean', bool: 'boolean',
+    json: 'json', jsonb: 'json'
+};
+
+/**
+ * Comparison family of a declared column type such as "character varying(40)"
+ * or "integer[]". Types of the same family join without a cast; unknown types
+ * are their own family.
+ */
+export function pgTypeFamily(typeName: string): string {
+    const normalized = typeName.toLowerCase().replace(/\([^)]*\)/g, '').replace(/\s+/g, ' ').trim();
+    const isArray = normalized.endsWith('[]');
+    const base = isArray ? normalized.slice(0, -2).trim() : normalized;
+    const family = TYPE_FAMILIES[base] ?? base;
+    return isArray ? `${family}[]` : family;
+}
@@ -0,0 +1,565 @@
+import {
+    findClosingParen,
+    identifierName,
+    isIdentifier,
+    keywordOf,
+    splitStatements,
+    SqlToken,
+    tokenizeSql
+} from './sqlTokenizer';
+
+export type SqlStatementKind =
+    | 'select' | 'values' | 'table' | 'show' | 'explain' | 'transaction'
+    | 'insert' | 'update' | 'delete' | 'merge' | 'copy'
+    | 'truncate' | 'drop' | 'create' | 'alter' | 'comment' | 'refresh'
+    | 'grant' | 'revoke' | 'vacuum' | 'analyze' | 'reindex' | 'cluster'
+    | 'call' | 'do' | 'set' | 'lock' | 'other';
+
+export type SqlRiskLevel = 'read' | 'write' | 'destructive';
+
+export interface SqlStatementAnalysis {
+    kind: SqlStatementKind;
+    text: string;
+    readOnly: boolean;
+    /** Tables or other objects the statement writes to, alters or drops */
+    affectedTables: string[];
+    /** Tables read through FROM/JOIN */
+    referencedTables: string[];
+    /** UPDATE or DELETE (possibly inside a CTE) without a WHERE clause */
+    missingWhere: boolean;
+    /** Kinds of data-modifying statements found inside WITH clauses */
+    dataModifyingCtes: SqlStatementKind[];
+    warnings: string[];
+}
+
+export interface SqlRiskReport {
+    statements: SqlStatementAnalysis[];
+    readOnly: boolean;
+    riskLevel: SqlRiskLevel;
+    affectedTables: string[];
+    warnings: string[];
+}
+
+const READ_ONLY_KINDS = new Set<SqlStatementKind>(['select', 'values', 'table', 'show', 'explain', 'transaction']);
+const DATA_MODIFYING_KINDS = new Set<SqlStatementKind>(['insert', 'update', 'delete', 'merge']);
+const DESTRUCTIVE_KINDS = new Set<SqlStatementKind>(['drop', 'truncate', 'delete']);
+
+const KEYWORD_KINDS: Record<string, SqlStatementKind> = {
+    SELECT: 'select',
+    VALUES: 'values',
+    TABLE: 'table',
+    SHOW: 'show',
+    EXPLAIN: 'explain',
+    BEGIN: 'transaction',
+    START: 'transaction',
+    COMMIT: 'transaction',
+    END: 'transaction',
+    ROLLBACK: 'transaction',
+    ABORT: 'transaction',
+    SAVEPOINT: 'transaction',
+    RELEASE: 'transaction',
+    INSERT: 'insert',
+    UPDATE: 'update',
+    DELETE: 'delete',
+    MERGE: 'merge',
+    COPY: 'copy',
+    TRUNCATE: 'truncate',
+    DROP: 'drop',
+    CREATE: 'create',
+    ALTER: 'alter',
+    COMMENT: 'comment',
+    REFRESH: 'refresh',
+    GRANT: 'grant',
+    REVOKE: 'revoke',
+    VACUUM: 'vacuum',
+    ANALYZE: 'analyze',
+    ANALYSE: 'analyze',
+    REINDEX: 'reindex',
+    CLUSTER: 'cluster',
+    CALL: 'call',
+    DO: 'do',
+    SET: 'set',
+    RESET: 'set',
+    LOCK: 'lock'
+};
+
+/** Functions whose side effects make an otherwise read-only SELECT unsafe */
+const SIDE_EFFECT_FUNCTIONS = new Set([
+    'pg_terminate_backend',
+    'pg_cancel_backend',
+    'pg_reload_conf',
+    'pg_rotate_logfile',
+    'set_config',
+    'setval',
+    'nextval',
+    'lo_import',
+    'lo_export',
+    'lo_unlink',
+    'dblink_exec',
+    'pg_advisory_lock',
+    'pg_file_write'
+]);
+
+/** Words that end a comma-separated list of object names */
+const NAME_LIST_TERMINATORS = new Set([
+    'CASCADE', 'RESTRICT', 'RESTART', 'CONTINUE', 'IDENTITY', 'TO', 'FROM', 'WITH', 'IN', 'ON', 'WHERE', 'USING', 'SET'
+]);
+
+/** Words between FROM/JOIN and a table name */
+const TABLE_PREFIX_WORDS = new Set(['ONLY', 'LATERAL']);
+
+/** Read a possibly schema-qualified name starting at `index` */
+function readQualifiedName(tokens: SqlToken[], index: number): { name: string; next: number } | undefined {
+    if (!isIdentifier(tokens[index])) {
+        return undefined;
+    }
+
+    const parts = [identifierName(tokens[index])];
+    let i = index + 1;
+    while (tokens[i]?.type === 'punctuation' && tokens[i].value === '.' && isIdentifier(tokens[i + 1])) {
+        parts.push(identifierName(tokens[i + 1]));
+        i += 2;
+    }
+    return { name: parts.join('.'), next: i };
+}
+
+/** Read a comma separated list of names, skipping the given leading words */
+function readNameList(tokens: SqlToken[], index: number, skipWords: string[] = []): string[] {
+    const names: string[] = [];
+    let i = index;
+
+    while (i < tokens.length) {
+        const keyword = keywordOf(tokens[i]);
+        if (keyword && skipWords.includes(keyword)) {
+            i++;
+            continue;
+        }
+        if (keyword && NAME_LIST_TERMINATORS.has(keyword)) {
+            break;
+        }
+
+        const qualified = readQualifiedName(tokens, i);
+        if (!qualified) {
+            break;
+        }
+        names.push(qualified.name);
+        i = qualified.next;
+
+        // Skip column lists or argument signatures, e.g. DROP FUNCTION f(int)
+        if (tokens[i]?.value === '(' && tokens[i].type === 'punctuation') {
+            i = findClosingParen(tokens, i) + 1;
+        }
+        if (tokens[i]?.type === 'punctuation' && tokens[i].value === ',') {
+            i++;
+            continue;
+        }
+        break;
+    }
+
+    return names;
+}
+
+/** Names listed after the first top-level occurrence of a keyword */
+function readNamesAfter(tokens: SqlToken[], keyword: string, skipWords: string[] = []): string[] {
+    const index = findKeyword(tokens, keyword);
+    return index === -1 ? [] : readNameList(tokens, index + 1, skipWords);
+}
+
+/** Index of the first top-level occurrence of a keyword */
+function findKeyword(tokens: SqlToken[], keyword: string, from = 0, depth = tokens[0]?.depth ?? 0): number {
+    for (let i = from; i < tokens.length; i++) {
+        if (tokens[i].depth === depth && keywordOf(tokens[i]) === keyword) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/** Tables named after FROM and JOIN at any nesting level */
+function findReferencedTables(tokens: SqlToken[]): string[] {
+    const tables: string[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+        const keyword = keywordOf(tokens[i]);
+        if (keyword !== 'FROM' && keyword !== 'JOIN') {
+            continue;
+        }
+
+        let j = i + 1;
+        while (TABLE_PREFIX_WORDS.has(keywordOf(tokens[j]) || '')) {
+            j++;
+        }
+
+        // FROM a, b, c
+        while (j < tokens.length) {
+            const qualified = readQualifiedName(tokens, j);
+            if (!qualified || (tokens[qualified.next]?.type === 'punctuation' && tokens[qualified.next].value === '(')) {
+                break; // subquery or set-returning function
+            }
+            tables.push(qualified.name);
+            j = qualified.next;
+
+            if (keyword === 'JOIN') {
+                break;
+            }
+            // Skip an optional alias
+            if (keywordOf(tokens[j]) === 'AS') {
+                j++;
+            }
+            if ((tokens[j]?.type === 'word' && !isReservedAfterTable(tokens[j])) || tokens[j]?.type === 'quotedIdentifier') {
+                j++;
+            }
+            if (tokens[j]?.type === 'punctuation' && tokens[j].value === ',' && tokens[j].depth === tokens[i].depth) {
+                j++;
+                continue;
+            }
+            break;
+        }
+    }
+
+    return tables;
+}
+
+function isReservedAfterTable(token: SqlToken): boolean {
+    return [
+        'WHERE', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'NATURAL', 'ON', 'USING', 'GROUP', 'ORDER',
+        'LIMIT', 'OFFSET', 'HAVING', 'WINDOW', 'UNION', 'INTERSECT', 'EXCEPT', 'FOR', 'RETURNING', 'SET', 'FETCH'
+    ].includes(keywordOf(token) || '');
+}
+
+function uniq(values: string[]): string[] {
+    return [...new Set(values)];
+}
+
+function createAnalysis(kind: SqlStatementKind, text: string): SqlStatementAnalysis {
+    return {
+        kind,
+        text,
+        readOnly: READ_ONLY_KINDS.has(kind),
+        affectedTables: [],
+        referencedTables: [],
+        missingWhere: false,
+        dataModifyingCtes: [],
+        warnings: []
+    };
+}
+
+/** Analyze a single statement's tokens */
+function analyzeTokens(tokens: SqlToken[], sql: string): SqlStatementAnalysis {
+    // Skip leading parentheses, e.g. "(SELECT ...) UNION (SELECT ...)"
+    let start = 0;
+    while (tokens[start]?.type === 'punctuation' && tokens[start].value === '(') {
+        start++;
+    }
+
+    const text = tokens.length > 0 ? sql.slice(tokens[0].start, tokens[tokens.length - 1].end) : '';
+    const firstKeyword = keywordOf(tokens[start]);
+
+    if (firstKeyword === 'WITH') {
+        return analyzeWith(tokens, start, sql, text);
+    }
+
+    const kind = (firstKeyword && KEYWORD_KINDS[firstKeyword]) || 'other';
+    const analysis = createAnalysis(kind, text);
+    const body = tokens.slice(start);
+    analysis.referencedTables = uniq(findReferencedTables(body));
+
+    switch (kind) {
+        case 'select': {
+            if (findKeyword(body, 'INTO') !== -1) {
+                // SELECT INTO is CREATE TABLE AS in another spelling
+                const target = readNamesAfter(body, 'INTO', ['TEMP', 'TEMPORARY', 'UNLOGGED', 'TABLE']);
+                analysis.kind = 'create';
+                analysis.readOnly = false;
+                analysis.affectedTables = target;
+                analysis.warnings.push(`SELECT INTO creates table ${target.join(', ') || '(unknown)'}.`);
+            }
+            // Row locks are held until the transaction ends and block concurrent writers
+            if (body.some((token, i) => keywordOf(token) === 'FOR' && ['UPDATE', 'SHARE', 'NO', 'KEY'].includes(keywordOf(body[i + 1]) || ''))) {
+                analysis.readOnly = false;
+                analysis.warnings.push('Row locking clause (FOR UPDATE/SHARE) locks the selected rows.');
+            }
+            break;
+        }
+        case 'table':
+            analysis.referencedTables = readNameList(body, 1, ['ONLY']);
+            break;
+        case 'insert':
+        case 'merge':
+            analysis.affectedTables = readNamesAfter(body, 'INTO', ['ONLY']);
+            break;
+        case 'update': {
+            analysis.affectedTables = readNameList(body, 1, ['ONLY']);
+            analysis.missingWhere = findKeyword(body, 'WHERE') === -1;
+            break;
+        }
+        case 'delete': {
+            analysis.affectedTables = readNamesAfter(body, 'FROM', ['ONLY']);
+            analysis.referencedTables = analysis.referencedTables.filter(t => !analysis.affectedTables.includes(t));
+            analysis.missingWhere = findKeyword(body, 'WHERE') === -1;
+            break;
+        }
+        case 'truncate':
+            analysis.affectedTables = readNameList(body, 1, ['TABLE', 'ONLY']);
+            analysis.warnings.push(`TRUNCATE removes all rows from ${analysis.affectedTables.join(', ')}.`);
+            break;
+        case 'drop': {
+            const objectType = keywordOf(body[1]) || '';
+            const nameStart = body.findIndex((token, i) => i > 1 && isIdentifier(token) &&
+                !['TABLE', 'VIEW', 'MATERIALIZED', 'INDEX', 'CONCURRENTLY', 'IF', 'EXISTS', 'FOREIGN', 'SCHEMA', 'SEQUENCE', 'FUNCTION', 'PROCEDURE', 'TRIGGER', 'TYPE', 'EXTENSION', 'DATABASE', 'ROLE', 'USER', 'DOMAIN', 'POLICY', 'RULE', 'AGGREGATE'].includes(keywordOf(token) || ''));
+            analysis.affectedTables = nameStart === -1 ? [] : readNameList(body, nameStart);
+            analysis.warnings.push(`DROP ${objectType} permanently removes ${analysis.affectedTables.join(', ') || 'the object'}.`);
+            if (findKeyword(body, 'CASCADE') !== -1) {
+                analysis.warnings.push('CASCADE also drops all dependent objects.');
+            }
+            break;
+        }
+        case 'alter':
+        case 'create':
+        case 'comment':
+        case 'refresh': {
+            if (kind === 'create' && findKeyword(body, 'ON') !== -1 && findKeyword(body, 'INDEX') !== -1) {
+                analysis.affectedTables = readNamesAfter(body, 'ON', ['ONLY']);
+            } else {
+                const nameStart = body.findIndex((token, i) => i > 0 && isIdentifier(token) && !isObjectTypeWord(token));
+                analysis.affectedTables = nameStart === -1 ? [] : readNameList(body, nameStart).slice(0, 1);
+            }
+            break;
+        }
+        case 'grant':
+        case 'revoke': {
+            analysis.affectedTables = readNamesAfter(body, 'ON', ['TABLE', 'SEQUENCE', 'SCHEMA', 'FUNCTION', 'ALL', 'TABLES', 'SEQUENCES', 'FUNCTIONS', 'DATABASE']);
+            analysis.warnings.push(`${kind.toUpperCase()} changes database privileges.`);
+            break;
+        }
+        case 'copy': {
+            if (body[1]?.value === '(' && body[1].type === 'punctuation') {
+                const close = findClosingParen(body, 1);
+                const inner = analyzeTokens(body.slice(2, close), sql);
+                analysis.referencedTables = inner.referencedTables;
+            } else {
+                const target = readQualifiedName(body, 1);
+                if (target) {
+                    const direction = findKeyword(body, 'FROM') !== -1 ? 'FROM' : 'TO';
+                    if (direction === 'FROM') {
+                        analysis.affectedTables = [target.name];
+                    } else {
+                        analysis.referencedTables = [target.name];
+                    }
+                }
+            }
+            if (findKeyword(body, 'PROGRAM') !== -1) {
+                analysis.warnings.push('COPY ... PROGRAM runs a shell command on the database server.');
+            } else if (body.some(token => token.type === 'string')) {
+                analysis.warnings.push('COPY reads or writes files on the database server.');
+            }
+            break;
+        }
+        case 'vacuum':
+        case 'analyze':
+        case 'reindex':
+        case 'cluster': {
+            let i = 1;
+            while (i < body.length && (['FULL', 'FREEZE', 'VERBOSE', 'ANALYZE', 'ANALYSE', 'TABLE', 'INDEX', 'SCHEMA', 'DATABASE', 'SYSTEM', 'CONCURRENTLY'].includes(keywordOf(body[i]) || '') ||
+                (body[i].type === 'punctuation' && body[i].value === '('))) {
+                i = body[i].value === '(' && body[i].type === 'punctuation' ? findClosingParen(body, i) + 1 : i + 1;
+            }
+            analysis.affectedTables = readNameList(body, i);
+            if (kind === 'vacuum' && findKeyword(body, 'FULL') !== -1) {
+                analysis.warnings.push('VACUUM FULL takes an exclusive lock and rewrites the table.');
+            }
+            break;
+        }
+        case 'call': {
+            const procedure = readQualifiedName(body, 1);
+            analysis.affectedTables = procedure ? [procedure.name] : [];
+            analysis.warnings.push('CALL runs a stored procedure that may modify data.');
+            break;
+        }
+        case 'do':
+            analysis.warnings.push('DO runs an anonymous code block that may modify data.');
+            break;
+        case 'explain':
+            return analyzeExplain(body, sql, text);
+        case 'other':
+            analysis.warnings.push(`Unrecognized statement${firstKeyword ? ` "${firstKeyword}"` : ''}; treating it as potentially modifying.`);
+            break;
+    }
+
+    if (analysis.missingWhere) {
+        analysis.warnings.push(`${kind.toUpperCase()} on ${analysis.affectedTables.join(', ') || 'the table'} has no WHERE clause and affects every row.`);
+    }
+
+    const sideEffects = findSideEffectFunctions(body);
+    if (sideEffects.length > 0) {
+        analysis.readOnly = false;
+        analysis.warnings.push(`Calls function(s) with side effects: ${sideEffects.join(', ')}.`);
+    }
+
+    return analysis;
+}
+
+function isObjectTypeWord(token: SqlToken): boolean {
+    return [
+        'OR', 'REPLACE', 'TEMP', 'TEMPORARY', 'UNLOGGED', 'UNIQUE', 'MATERIALIZED', 'RECURSIVE', 'GLOBAL', 'LOCAL',
+        'TABLE', 'VIEW', 'INDEX', 'SEQUENCE', 'SCHEMA', 'FUNCTION', 'PROCEDURE', 'TRIGGER', 'TYPE', 'EXTENSION',
+        'DATABASE', 'ROLE', 'USER', 'DOMAIN', 'POLICY', 'RULE', 'AGGREGATE', 'FOREIGN', 'CONCURRENTLY', 'IF', 'NOT',
+        'EXISTS', 'ONLY', 'ON', 'COLUMN', 'CONSTRAINT', 'IS'
+    ].includes(keywordOf(token) || '');
+}
+
+/** Calls of side-effect functions, bare, quoted (`"nextval"(...)`) or schema-qualified (`pg_catalog.setval(...)`) */
+function findSideEffectFunctions(tokens: SqlToken[]): string[] {
+    const found: string[] = [];
+    for (let i = 0; i < tokens.length - 1; i++) {
+        if (isIdentifier(tokens[i]) && SIDE_EFFECT_FUNCTIONS.has(identifierName(tokens[i])) &&
+            tokens[i + 1].type === 'punctuation' && tokens[i + 1].value === '(') {
+            found.push(identifierName(tokens[i]));
+        }
+    }
+    return uniq(found);
+}
+
+/** EXPLAIN only executes the statement with ANALYZE */
+function analyzeExplain(body: SqlToken[], sql: string, text: string): SqlStatementAnalysis {
+    let i = 1;
+    let analyze = false;
+
+    if (body[i]?.type === 'punctuation' && body[i].value === '(') {
+        const close = findClosingParen(body, i);
+        for (let j = i + 1; j < close; j++) {
+            if (['ANALYZE', 'ANALYSE'].includes(keywordOf(body[j]) || '')) {
+                const option = keywordOf(body[j + 1]);
+                analyze = !['FALSE', 'OFF'].includes(option || '') && body[j + 1]?.value !== '0';
+            }
+        }
+        i = close + 1;
+    } else {
+        while (['ANALYZE', 'ANALYSE', 'VERBOSE'].includes(keywordOf(body[i]) || '')) {
+            analyze = analyze || keywordOf(body[i]) !== 'VERBOSE';
+            i++;
+        }
+    }
+
+    const inner = analyzeTokens(body.slice(i), sql);
+    const analysis = createAnalysis('explain', text);
+    analysis.referencedTables = inner.referencedTables;
+
+    if (analyze) {
+        analysis.readOnly = inner.readOnly;
+        analysis.affectedTables = inner.affectedTables;
+        analysis.missingWhere = inner.missingWhere;
+        analysis.dataModifyingCtes = inner.dataModifyingCtes;
+        analysis.warnings = inner.readOnly ?
+            inner.warnings :
+            ['EXPLAIN ANALYZE executes the statement, so its changes are applied.', ...inner.warnings];
+    }
+
+    return analysis;
+}
+
+/** WITH [RECURSIVE] name [(columns)] AS [[NOT] MATERIALIZED] (body) [, ...] statement */
+function analyzeWith(tokens: SqlToken[], start: number, sql: string, text: string): SqlStatementAnalysis {
+    let i = start + 1;
+    if (keywordOf(tokens[i]) === 'RECURSIVE') {
+        i++;
+    }
+
+    const ctes: SqlStatementAnalysis[] = [];
+    const cteNames: string[] = [];
+    while (i < tokens.length && isIdentifier(tokens[i])) {
+        cteNames.push(identifierName(tokens[i]));
+        i++;
+        if (tokens[i]?.type === 'punctuation' && tokens[i].value === '(') {
+            i = findClosingParen(tokens, i) + 1;
+        }
+        if (keywordOf(tokens[i]) === 'AS') {
+            i++;
+        }
+        while (['NOT', 'MATERIALIZED'].includes(keywordOf(tokens[i]) || '')) {
+            i++;
+        }
+        if (!(tokens[i]?.type === 'punctuation' && tokens[i].value === '(')) {
+            break;
+        }
+
+        const close = findClosingParen(tokens, i);
+        ctes.push(analyzeTokens(tokens.slice(i + 1, close), sql));
+        i = close + 1;
+
+        if (tokens[i]?.type === 'punctuation' && tokens[i].value === ',') {
+            i++;
+            continue;
+        }
+        break;
+    }
+
+    const main = analyzeTokens(tokens.slice(i), sql);
+    const analysis: SqlStatementAnalysis = { ...main, text };
+
+    for (const cte of ctes) {
+        analysis.referencedTables = uniq([...analysis.referencedTables, ...cte.referencedTables]);
+        analysis.affectedTables = uniq([...analysis.affectedTables, ...cte.affectedTables]);
+        analysis.missingWhere = analysis.missingWhere || cte.missingWhere;
+        analysis.warnings = [...analysis.warnings, ...cte.warnings];
+        if (!cte.readOnly) {
+            analysis.readOnly = false;
+        }
+        if (DATA_MODIFYING_KINDS.has(cte.kind)) {
+            analysis.dataModifyingCtes.push(cte.kind);
+        }
+    }
+
+    // References to the CTEs themselves are not tables
+    analysis.referencedTables = analysis.referencedTables.filter(table => !cteNames.includes(table));
+
+    if (analysis.dataModifyingCtes.length > 0) {
+        analysis.warnings.unshift(`WITH clause contains data-modifying statement(s): ${analysis.dataModifyingCtes.map(k => k.toUpperCase()).join(', ')}.`);
+    }
+
+    return analysis;
+}
+
+/** Analyze one or more SQL statements and summarize their risk */
+export function analyzeSql(sql: string): SqlRiskReport {
+    const statements = splitStatements(sql, tokenizeSql(sql)).map(statement => analyzeTokens(statement.tokens, sql));
+
+    const readOnly = statements.every(statement => statement.readOnly);
+    const destructive = statements.some(statement =>
+        DESTRUCTIVE_KINDS.has(statement.kind) ||
+        statement.missingWhere ||
+        statement.dataModifyingCtes.includes('delete'));
+
+    const warnings = statements.flatMap(statement => statement.warnings);
+    if (statements.length > 1) {
+        warnings.unshift(`The query contains ${statements.length} statements.`);
+    }
+
+    return {
+        statements,
+        readOnly,
+        riskLevel: readOnly ? 'read' : destructive ? 'destructive' : 'write',
+        affectedTables: uniq(statements.flatMap(statement => statement.affectedTables)),
+        warnings
+    };
+}
+
+/** Markdown summary of a risk report for confirmation dialogs */
+export function formatRiskReport(report: SqlRiskReport): string {
+    let output = `**Risk:** ${report.riskLevel === 'destructive' ? '🔴 destructive' : report.riskLevel === 'write' ? '🟠 modifies data or schema' : '🟢 read-only'}\n\n`;
+
+    output += `| # | Statement | Affected objects | Read tables |\n`;
+    output += `| --- | --- | --- | --- |\n`;
+    report.statements.forEach((statement, index) => {
+        const kind = statement.dataModifyingCtes.length > 0 ?
+            `${statement.kind.toUpperCase()} (WITH ${statement.dataModifyingCtes.map(k => k.toUpperCase()).join(', ')})` :
+            statement.kind.toUpperCase();
+        output += `| ${index + 1} | ${kind} | ${statement.affectedTables.join(', ') || '-'} | ${statement.referencedTables.join(', ') || '-'} |\n`;
+    });
+
+    if (report.warnings.length > 0) {
+        output += `\n${report.warnings.map(warning => `- ⚠️ ${warning}`).join('\n')}\n`;
+    }
+
+    return output;
+}
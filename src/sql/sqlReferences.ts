@@ -0,0 +1,123 @@
+import { findClosingParen, identifierName, isIdentifier, keywordOf, SqlToken } from './sqlTokenizer';
+
+/** A table named in a FROM, JOIN, UPDATE, INSERT INTO or DELETE ... USING clause */
+export interface SqlTableReference {
+    schema?: string;
+    table: string;
+    alias?: string;
+    /** Keyword that introduced the reference, e.g. FROM or JOIN */
+    clause: string;
+    /** Source offsets of the (possibly qualified) table name */
+    start: number;
+    end: number;
+    /** Index of the first name token in the token list */
+    tokenIndex: number;
+}
+
+const TABLE_CLAUSES = new Set(['FROM', 'JOIN', 'UPDATE', 'INTO', 'USING']);
+
+/** Words between FROM/JOIN and a table name */
+const TABLE_PREFIX_WORDS = new Set(['ONLY', 'LATERAL']);
+
+/** Words that can follow a table name, so they are never taken as its alias */
+const RESERVED_AFTER_TABLE = new Set([
+    'WHERE', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'NATURAL', 'ON', 'USING', 'GROUP', 'ORDER',
+    'LIMIT', 'OFFSET', 'HAVING', 'WINDOW', 'UNION', 'INTERSECT', 'EXCEPT', 'FOR', 'RETURNING', 'SET', 'FETCH',
+    'TABLESAMPLE', 'VALUES', 'DEFAULT', 'SELECT', 'OVERRIDING', 'WITH', 'AS'
+]);
+
+/** First words of a parenthesized statement whose FROM names tables (unlike EXTRACT(... FROM x)) */
+const SUBQUERY_WORDS = new Set(['SELECT', 'WITH', 'DELETE', 'UPDATE', 'INSERT', 'MERGE']);
+
+function isPunctuation(token: SqlToken | undefined, value: string): boolean {
+    return !!token && token.type === 'punctuation' && token.value === value;
+}
+
+/** Whether a keyword at `index` starts a table clause rather than, e.g., `FOR UPDATE` or `IS DISTINCT FROM` */
+function isTableClause(tokens: SqlToken[], index: number): boolean {
+    const keyword = keywordOf(tokens[index]);
+    if (!keyword || !TABLE_CLAUSES.has(keyword)) {
+        return false;
+    }
+    const previous = keywordOf(tokens[index - 1]);
+    if (keyword === 'UPDATE' && (previous === 'FOR' || previous === 'DO' || previous === 'KEY')) {
+        return false;
+    }
+    if (keyword === 'FROM' && previous === 'DISTINCT') {
+        return false;
+    }
+    if (keyword === 'FROM' && tokens[index].depth > 0) {
+        // Inside parentheses only a subquery's FROM names tables
+        for (let i = index - 1; i >= 0; i--) {
+            if (isPunctuation(tokens[i], '(') && tokens[i].depth === tokens[index].depth - 1) {
+                return SUBQUERY_WORDS.has(keywordOf(tokens[i + 1]) ?? '');
+            }
+        }
+    }
+    return true;
+}
+
+/** Tables referenced by a statement's tokens, with their aliases, at any nesting level */
+export function findTableReferences(tokens: SqlToken[]): SqlTableReference[] {
+    const references: SqlTableReference[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+        if (!isTableClause(tokens, i)) {
+            continue;
+        }
+        const clause = keywordOf(tokens[i]) as string;
+
+        let j = i + 1;
+        while (TABLE_PREFIX_WORDS.has(keywordOf(tokens[j]) ?? '')) {
+            j++;
+        }
+
+        // FROM a, b AS x, c y
+        while (j < tokens.length && isIdentifier(tokens[j]) && !RESERVED_AFTER_TABLE.has(keywordOf(tokens[j]) ?? '')) {
+            const first = j;
+            const parts = [identifierName(tokens[j])];
+            j++;
+            while (isPunctuation(tokens[j], '.') && isIdentifier(tokens[j + 1])) {
+                parts.push(identifierName(tokens[j + 1]));
+                j += 2;
+            }
+            if (isPunctuation(tokens[j], '(') && clause !== 'INTO') {
+                break; // set-returning function
+            }
+
+            const reference: SqlTableReference = {
+                schema: parts.length > 1 ? parts[parts.length - 2] : undefined,
+                table: parts[parts.length - 1],
+                clause,
+                start: tokens[first].start,
+                end: tokens[j - 1].end,
+                tokenIndex: first
+            };
+            references.push(reference);
+
+            if (isPunctuation(tokens[j], '(')) {
+                j = findClosingParen(tokens, j) + 1; // INSERT INTO t (columns)
+            }
+            if (keywordOf(tokens[j]) === 'AS') {
+                j++;
+            }
+            if (isIdentifier(tokens[j]) && !RESERVED_AFTER_TABLE.has(keywordOf(tokens[j]) ?? '')) {
+                reference.alias = identifierName(tokens[j]);
+                j++;
+            }
+            if (clause === 'FROM' && isPunctuation(tokens[j], ',') && tokens[j].depth === tokens[i].depth) {
+                j++;
+                continue;
+            }
+            break;
+        }
+    }
+
+    return references;
+}
+
+/** The reference a qualifier such as `u` in `u.id` points to: an alias, or a table name without alias */
+export function findReferenceByQualifier(references: SqlTableReference[], qualifier: string): SqlTableReference | undefined {
+    return references.find(reference => reference.alias === qualifier) ??
+        references.find(reference => !reference.alias && reference.table === qualifier);
+}
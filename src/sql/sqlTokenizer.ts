@@ -0,0 +1,246 @@
+export type SqlTokenType = 'word' | 'quotedIdentifier' | 'string' | 'number' | 'parameter' | 'operator' | 'punctuation';
+
+export interface SqlToken {
+    type: SqlTokenType;
+    /** Token text; quoted identifiers are unquoted and unescaped */
+    value: string;
+    /** Offset of the first character in the source */
+    start: number;
+    /** Offset after the last character in the source */
+    end: number;
+    /** Parenthesis nesting depth; a pair of parentheses shares the depth of its surroundings */
+    depth: number;
+}
+
+export interface SqlStatement {
+    text: string;
+    start: number;
+    end: number;
+    tokens: SqlToken[];
+}
+
+const WORD_START = /[A-Za-z_\u0080-\uffff]/;
+const WORD_PART = /[A-Za-z0-9_$\u0080-\uffff]/;
+const OPERATOR_CHARS = '+-*/<>=~!@#%^&|`?:';
+const PUNCTUATION_CHARS = '(),;.[]';
+
+/**
+ * Split PostgreSQL source into tokens, skipping whitespace and comments. String
+ * literals (including E'', dollar-quoted and U&'' forms) and quoted identifiers
+ * are kept as single tokens so keywords inside them are never matched.
+ */
+export function tokenizeSql(sql: string): SqlToken[] {
+    const tokens: SqlToken[] = [];
+    let depth = 0;
+    let i = 0;
+
+    const push = (type: SqlTokenType, value: string, start: number, end: number) => {
+        if (type === 'punctuation' && value === ')') {
+            depth = Math.max(0, depth - 1);
+        }
+        tokens.push({ type, value, start, end, depth });
+        if (type === 'punctuation' && value === '(') {
+            depth++;
+        }
+    };
+
+    while (i < sql.length) {
+        const ch = sql[i];
+        const next = sql[i + 1];
+
+        // Whitespace
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+
+        // Line comment
+        if (ch === '-' && next === '-') {
+            const newline = sql.indexOf('\n', i);
+            i = newline === -1 ? sql.length : newline + 1;
+            continue;
+        }
+
+        // Block comment (PostgreSQL allows nesting)
+        if (ch === '/' && next === '*') {
+            let nesting = 1;
+            i += 2;
+            while (i < sql.length && nesting > 0) {
+                if (sql[i] === '/' && sql[i + 1] === '*') {
+                    nesting++;
+                    i += 2;
+                } else if (sql[i] === '*' && sql[i + 1] === '/') {
+                    nesting--;
+                    i += 2;
+                } else {
+                    i++;
+                }
+            }
+            continue;
+        }
+
+        // String literal with optional E/B/X/N or U& prefix
+        const prefixMatch = /^(?:[EeBbXxNn]|[Uu]&)'/.exec(sql.slice(i, i + 3));
+        if (ch === '\'' || prefixMatch) {
+            const start = i;
+            const backslashEscapes = !!prefixMatch && /^[Ee]/.test(prefixMatch[0]);
+            i += prefixMatch ? prefixMatch[0].length : 1;
+            while (i < sql.length) {
+                if (backslashEscapes && sql[i] === '\\') {
+                    i += 2;
+                } else if (sql[i] === '\'' && sql[i + 1] === '\'') {
+                    i += 2;
+                } else if (sql[i] === '\'') {
+                    i++;
+                    break;
+                } else {
+                    i++;
+                }
+            }
+            push('string', sql.slice(start, i), start, i);
+            continue;
+        }
+
+        // Quoted identifier
+        if (ch === '"' || (/[Uu]/.test(ch) && next === '&' && sql[i + 2] === '"')) {
+            const start = i;
+            i += ch === '"' ? 1 : 3;
+            let value = '';
+            while (i < sql.length) {
+                if (sql[i] === '"' && sql[i + 1] === '"') {
+                    value += '"';
+                    i += 2;
+                } else if (sql[i] === '"') {
+                    i++;
+                    break;
+                } else {
+                    value += sql[i++];
+                }
+            }
+            push('quotedIdentifier', value, start, i);
+            continue;
+        }
+
+        // Dollar-quoted string or positional parameter
+        if (ch === '$') {
+            const tagMatch = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+            if (tagMatch) {
+                const start = i;
+                const tag = tagMatch[0];
+                const close = sql.indexOf(tag, i + tag.length);
+                i = close === -1 ? sql.length : close + tag.length;
+                push('string', sql.slice(start, i), start, i);
+                continue;
+            }
+            const paramMatch = /^\$\d+/.exec(sql.slice(i));
+            if (paramMatch) {
+                push('parameter', paramMatch[0], i, i + paramMatch[0].length);
+                i += paramMatch[0].length;
+                continue;
+            }
+        }
+
+        // Number
+        if (/[0-9]/.test(ch) || (ch === '.' && next !== undefined && /[0-9]/.test(next))) {
+            const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(sql.slice(i));
+            const text = match ? match[0] : ch;
+            push('number', text, i, i + text.length);
+            i += text.length;
+            continue;
+        }
+
+        // Keyword or identifier
+        if (WORD_START.test(ch)) {
+            const start = i;
+            while (i < sql.length && WORD_PART.test(sql[i])) {
+                i++;
+            }
+            push('word', sql.slice(start, i), start, i);
+            continue;
+        }
+
+        if (PUNCTUATION_CHARS.includes(ch)) {
+            push('punctuation', ch, i, i + 1);
+            i++;
+            continue;
+        }
+
+        if (ch === ':' && next && WORD_START.test(next)) {
+            // psql-style :variable placeholder
+            const start = i++;
+            while (i < sql.length && WORD_PART.test(sql[i])) {
+                i++;
+            }
+            push('parameter', sql.slice(start, i), start, i);
+            continue;
+        }
+
+        if (OPERATOR_CHARS.includes(ch)) {
+            const start = i;
+            while (i < sql.length && OPERATOR_CHARS.includes(sql[i]) &&
+                !(sql[i] === '-' && sql[i + 1] === '-') && !(sql[i] === '/' && sql[i + 1] === '*')) {
+                i++;
+            }
+            push('operator', sql.slice(start, i), start, i);
+            continue;
+        }
+
+        // Anything else is kept as a single-character operator
+        push('operator', ch, i, i + 1);
+        i++;
+    }
+
+    return tokens;
+}
+
+/** Split tokens into statements on top-level semicolons */
+export function splitStatements(sql: string, tokens: SqlToken[] = tokenizeSql(sql)): SqlStatement[] {
+    const statements: SqlStatement[] = [];
+    let current: SqlToken[] = [];
+
+    const flush = () => {
+        if (current.length > 0) {
+            const start = current[0].start;
+            const end = current[current.length - 1].end;
+            statements.push({ text: sql.slice(start, end), start, end, tokens: current });
+        }
+        current = [];
+    };
+
+    for (const token of tokens) {
+        if (token.type === 'punctuation' && token.value === ';' && token.depth === 0) {
+            flush();
+        } else {
+            current.push(token);
+        }
+    }
+    flush();
+
+    return statements;
+}
+
+/** Upper-cased keyword text of a bare word token, or undefined for any other token */
+export function keywordOf(token: SqlToken | undefined): string | undefined {
+    return token && token.type === 'word' ? token.value.toUpperCase() : undefined;
+}
+
+/** Whether a token is a bare word or quoted identifier that can name an object */
+export function isIdentifier(token: SqlToken | undefined): boolean {
+    return !!token && (token.type === 'word' || token.type === 'quotedIdentifier');
+}
+
+/** Identifier text as PostgreSQL resolves it: bare words fold to lower case */
+export function identifierName(token: SqlToken): string {
+    return token.type === 'word' ? token.value.toLowerCase() : token.value;
+}
+
+/** Index of the parenthesis closing the one at `openIndex` */
+export function findClosingParen(tokens: SqlToken[], openIndex: number): number {
+    const depth = tokens[openIndex].depth;
+    for (let i = openIndex + 1; i < tokens.length; i++) {
+        if (tokens[i].type === 'punctuation' && tokens[i].value === ')' && tokens[i].depth === depth) {
+            return i;
+        }
+    }
+    return tokens.length - 1;
+}
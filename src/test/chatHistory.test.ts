@@ -0,0 +1,139 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import * as vscode from 'vscode';
+import { buildHistoryMessages } from '../chatHistory';
+import { DatabaseToolMetadata } from '../types';
+import {
+    ChatRequestTurn,
+    ChatResponseMarkdownPart,
+    ChatResponseTurn,
+    LanguageModelTextPart,
+    LanguageModelToolResultPart
+} from './vscodeStub';
+
+const PARTICIPANT = 'dbTools';
+const token = { isCancellationRequested: false } as vscode.CancellationToken;
+
+/** A model counting one token per character; the history may use half of `maxInputTokens` */
+function model(maxInputTokens: number): vscode.LanguageModelChat {
+    return {
+        maxInputTokens,
+        countTokens: async (text: string) => text.length
+    } as unknown as vscode.LanguageModelChat;
+}
+
+/** A request and its answer, which ran one tool call returning `output` */
+function toolTurn(prompt: string, output: string, participant = PARTICIPANT): unknown[] {
+    const callId = `call-${prompt}`;
+    const metadata: DatabaseToolMetadata = {
+        toolCallsMetadata: {
+            toolCallRounds: [
+                { response: '', toolCalls: [{ callId, name: 'postgresql_runQuery', input: { query: prompt } }] as unknown as vscode.LanguageModelToolCallPart[] },
+                { response: `answer ${prompt}`, toolCalls: [] }
+            ],
+            toolCallResults: { [callId]: { content: [{ value: output }] } as unknown as vscode.LanguageModelToolResult }
+        }
+    };
+    return [
+        new ChatRequestTurn(prompt, undefined, [], participant),
+        new ChatResponseTurn([], { metadata }, participant)
+    ];
+}
+
+function history(...turns: unknown[][]): vscode.ChatContext {
+    return { history: turns.flat() } as unknown as vscode.ChatContext;
+}
+
+/** Prompts of the user messages that carry text, in order */
+function prompts(messages: vscode.LanguageModelChatMessage[]): string[] {
+    return messages
+        .filter(message => message.role === vscode.LanguageModelChatMessageRole.User && message.content[0] instanceof LanguageModelTextPart)
+        .map(message => (message.content[0] as LanguageModelTextPart).value);
+}
+
+/** Text of every tool result in the messages */
+function toolOutputs(messages: vscode.LanguageModelChatMessage[]): string[] {
+    return messages.flatMap(message => message.content)
+        .filter((part): part is LanguageModelToolResultPart => part instanceof LanguageModelToolResultPart)
+        .map(part => (part.content[0] as LanguageModelTextPart).value);
+}
+
+describe('buildHistoryMessages', () => {
+    it('keeps every turn in order with its tool calls and results when it fits', async () => {
+        const messages = await buildHistoryMessages(
+            history(toolTurn('first', 'rows 1'), toolTurn('second', 'rows 2')),
+            { participantId: PARTICIPANT, model: model(10000), reservedTokens: 0 },
+            token
+        );
+        assert.deepStrictEqual(prompts(messages), ['first', 'second']);
+        assert.deepStrictEqual(toolOutputs(messages), ['rows 1', 'rows 2']);
+        // request, tool call, tool result and final answer per turn
+        assert.strictEqual(messages.length, 8);
+    });
+
+    it('leaves out turns of other participants', async () => {
+        const messages = await buildHistoryMessages(
+            history(toolTurn('other', 'x', 'someoneElse'), toolTurn('mine', 'y')),
+            { participantId: PARTICIPANT, model: model(10000), reservedTokens: 0 },
+            token
+        );
+        assert.deepStrictEqual(prompts(messages), ['mine']);
+    });
+
+    it('compacts long tool output of turns that do not fit in full, starting with the oldest', async () => {
+        const long = 'x'.repeat(2000);
+        const messages = await buildHistoryMessages(
+            history(toolTurn('old', long), toolTurn('new', long)),
+            // A budget of 2700 fits one turn in full and one compacted
+            { participantId: PARTICIPANT, model: model(5400), reservedTokens: 0 },
+            token
+        );
+        const [oldOutput, newOutput] = toolOutputs(messages);
+        assert.deepStrictEqual(prompts(messages), ['old', 'new']);
+        assert.strictEqual(newOutput, long);
+        assert.ok(oldOutput.length < long.length);
+        assert.match(oldOutput, /shortened from 2000 characters/);
+    });
+
+    it('drops the oldest turns once even their compacted form does not fit', async () => {
+        const messages = await buildHistoryMessages(
+            history(toolTurn('one', 'a'.repeat(100)), toolTurn('two', 'b'.repeat(100)), toolTurn('three', 'c'.repeat(100))),
+            // A budget of 325 fits two of the turns of about 150 tokens
+            { participantId: PARTICIPANT, model: model(650), reservedTokens: 0 },
+            token
+        );
+        assert.deepStrictEqual(prompts(messages), ['two', 'three']);
+    });
+
+    it('stays within half the input tokens minus the reserved tokens', async () => {
+        const turns = Array.from({ length: 10 }, (_, index) => toolTurn(`turn ${index}`, 'r'.repeat(50)));
+        for (const reservedTokens of [0, 300, 1000]) {
+            const messages = await buildHistoryMessages(history(...turns), { participantId: PARTICIPANT, model: model(2000), reservedTokens }, token);
+            const used = messages.reduce((total, message) => total + message.content.reduce((sum, part) =>
+                sum + (part instanceof LanguageModelTextPart ? part.value.length : part instanceof LanguageModelToolResultPart ? (part.content[0] as LanguageModelTextPart).value.length : 0), 0), 0);
+            assert.ok(used <= 1000 - reservedTokens, `${used} tokens used with ${reservedTokens} reserved`);
+        }
+    });
+
+    it('returns no history when the reserved tokens use up the budget', async () => {
+        const messages = await buildHistoryMessages(
+            history(toolTurn('first', 'rows')),
+            { participantId: PARTICIPANT, model: model(1000), reservedTokens: 500 },
+            token
+        );
+        assert.deepStrictEqual(messages, []);
+    });
+
+    it('uses the streamed markdown of turns without tool metadata', async () => {
+        const messages = await buildHistoryMessages(
+            history([
+                new ChatRequestTurn('profiles', 'list', [], PARTICIPANT),
+                new ChatResponseTurn([new ChatResponseMarkdownPart('dev, staging')], {}, PARTICIPANT)
+            ]),
+            { participantId: PARTICIPANT, model: model(10000), reservedTokens: 0 },
+            token
+        );
+        assert.deepStrictEqual(prompts(messages), ['/list profiles']);
+        assert.strictEqual((messages[1].content[0] as LanguageModelTextPart).value, 'dev, staging');
+    });
+});
@@ -0,0 +1,134 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { erdToDbml, erdToDot, erdToMermaid, erdToPlantUml } from '../erd/erdFormats';
+import { ErdModel, subsetErd, tablesWithinHops, toErdModel } from '../erd/erdModel';
+import { GenerateErdJsonResponse } from '../types';
+
+/** Schema with quotes, spaces, reserved words and markup in its names */
+const ODD_ERD = {
+    tables: [
+        {
+            name: 'user',
+            columns: [{ name: 'id', type: 'integer' }, { name: 'Full "Name"', type: 'character varying(100)' }],
+            primary_keys: ['id'],
+            foreign_keys: []
+        },
+        {
+            name: 'Order Items',
+            columns: ['id', 'user_id', 'a\\b<c>'],
+            primary_keys: ['id'],
+            foreign_keys: [{ column: 'user_id', references: { table: 'user', column: 'id' } }]
+        }
+    ],
+    relationships: []
+} as unknown as GenerateErdJsonResponse;
+
+function oddModel(): ErdModel {
+    return toErdModel('My "Schema"', ODD_ERD);
+}
+
+describe('toErdModel', () => {
+    it('reads string and object columns and marks keys', () => {
+        const model = oddModel();
+        assert.deepStrictEqual(model.tables[0].columns, [
+            { name: 'id', type: 'integer', primaryKey: true, foreignKey: false },
+            { name: 'Full "Name"', type: 'character varying(100)', primaryKey: false, foreignKey: false }
+        ]);
+        assert.deepStrictEqual(model.tables[1].columns[1], { name: 'user_id', primaryKey: false, foreignKey: true });
+    });
+
+    it('falls back to table foreign keys when there are no relationships', () => {
+        assert.deepStrictEqual(oddModel().relationships, [
+            { from_table: 'Order Items', from_column: 'user_id', to_table: 'user', to_column: 'id' }
+        ]);
+    });
+
+    it('returns an empty model without ERD data', () => {
+        assert.deepStrictEqual(toErdModel('public', undefined), { schema: 'public', tables: [], relationships: [] });
+    });
+
+    it('selects tables within hops of a focus table', () => {
+        const model = oddModel();
+        assert.deepStrictEqual([...tablesWithinHops(model, 'user', 0)], ['user']);
+        assert.deepStrictEqual([...tablesWithinHops(model, 'user', 1)].sort(), ['Order Items', 'user']);
+        assert.deepStrictEqual(subsetErd(model, new Set(['user'])).relationships, []);
+    });
+});
+
+describe('erdToMermaid', () => {
+    it('uses word-only entity names, single-word types and quote-free labels', () => {
+        const model = oddModel();
+        model.relationships[0].from_column = 'user "id"';
+        assert.strictEqual(erdToMermaid(model), [
+            'erDiagram',
+            '    user {',
+            '        integer id PK',
+            '        character_varying(100) Full__Name_',
+            '    }',
+            '    Order_Items {',
+            '        column id PK',
+            '        column user_id FK',
+            '        column a_b_c_',
+            '    }',
+            '    Order_Items }o--|| user : "user \'id\'"',
+            ''
+        ].join('\n'));
+    });
+});
+
+describe('erdToDbml', () => {
+    it('quotes names and escapes quotes and backslashes', () => {
+        assert.strictEqual(erdToDbml(oddModel()), [
+            'Table "My \\"Schema\\""."user" {',
+            '  "id" integer [pk]',
+            '  "Full \\"Name\\"" "character varying(100)"',
+            '}',
+            '',
+            'Table "My \\"Schema\\""."Order Items" {',
+            '  "id" unknown [pk]',
+            '  "user_id" unknown',
+            '  "a\\\\b<c>" unknown',
+            '}',
+            '',
+            'Ref: "My \\"Schema\\""."Order Items"."user_id" > "My \\"Schema\\""."user"."id"',
+            ''
+        ].join('\n'));
+    });
+
+    it('declares composite primary keys as an index', () => {
+        const model: ErdModel = {
+            schema: 'public',
+            tables: [{ name: 'pair', columns: [{ name: 'a', primaryKey: true, foreignKey: false }, { name: 'b', primaryKey: true, foreignKey: false }] }],
+            relationships: []
+        };
+        assert.match(erdToDbml(model), /indexes \{\n {4}\("a", "b"\) \[pk\]\n {2}\}/);
+    });
+});
+
+describe('erdToPlantUml', () => {
+    it('keeps quoted entity names and column names on one line', () => {
+        const model = oddModel();
+        model.tables[0].name = 'say "hi"\nthere';
+        model.tables[0].columns[1].name = 'multi\r\nline';
+        const lines = erdToPlantUml(model).split('\n');
+        assert.ok(lines.includes('entity "say \'hi\' there" as say__hi__there {'));
+        assert.ok(lines.includes('  multi line : character varying(100)'));
+        assert.ok(lines.includes('Order_Items }o--|| user : user_id'));
+    });
+});
+
+describe('erdToDot', () => {
+    it('escapes DOT strings and HTML labels and links columns by port', () => {
+        const dot = erdToDot(oddModel());
+        assert.ok(dot.startsWith('digraph "My \\"Schema\\"" {\n'));
+        assert.ok(dot.includes('<td port="c1" align="left">Full &quot;Name&quot;: character varying(100)</td>'));
+        assert.ok(dot.includes('<td port="c2" align="left">a\\b&lt;c&gt;</td>'));
+        assert.ok(dot.includes('  "Order Items":c1 -> "user":c0;\n'));
+    });
+
+    it('links to the table when a column is unknown', () => {
+        const model = oddModel();
+        model.relationships[0].to_column = 'missing';
+        assert.ok(erdToDot(model).includes('  "Order Items":c1 -> "user";\n'));
+    });
+});
@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { McpClient } from '../mcpClient';
+import { buildPageQuery, nextPageOffset, previousPageOffset, runQueryPage } from '../results/queryPaging';
+import { QueryResultStore } from '../results/queryResultStore';
+import { QueryPage, RunQueryResponse } from '../types';
+
+const FIELDS = [{ name: 'id', dataTypeID: 23 }];
+
+function rows(from: number, count: number): Record<string, number>[] {
+    return Array.from({ length: count }, (_, index) => ({ id: from + index }));
+}
+
+function response(resultRows: Record<string, unknown>[], wasLimited = false): RunQueryResponse {
+    return { rows: resultRows, rowCount: resultRows.length, totalRowCount: resultRows.length, wasLimited, fields: FIELDS };
+}
+
+/** Client whose `run_query` returns the given rows and records the queries it was sent */
+function fakeClient(resultRows: Record<string, unknown>[], wasLimited = false): { client: McpClient; queries: string[] } {
+    const queries: string[] = [];
+    const client = {
+        json: async (_toolName: string, params: Record<string, unknown>) => {
+            queries.push(params.query as string);
+            return response(resultRows, wasLimited);
+        }
+    } as unknown as McpClient;
+    return { client, queries };
+}
+
+function pageRequest(limit: number, offset: number): Omit<QueryPage, 'hasMore'> {
+    return { statement: 'SELECT id FROM t ORDER BY id', clientId: 'test', limit, offset };
+}
+
+describe('buildPageQuery', () => {
+    it('wraps the statement in a subquery and asks for one extra row', () => {
+        assert.strictEqual(
+            buildPageQuery('SELECT id FROM t', 50, 100),
+            'SELECT * FROM (\nSELECT id FROM t\n) AS page LIMIT 51 OFFSET 100'
+        );
+    });
+
+    it('keeps a trailing line comment from swallowing the closing parenthesis', () => {
+        const query = buildPageQuery('SELECT 1 -- note', 10, 0);
+        assert.match(query, /-- note\n\) AS page/);
+    });
+});
+
+describe('runQueryPage', () => {
+    it('reports another page when the extra row comes back, and drops that row', async () => {
+        const { client, queries } = fakeClient(rows(1, 3));
+        const { result, page } = await runQueryPage(client, pageRequest(2, 0));
+        assert.deepStrictEqual(result.rows, rows(1, 2));
+        assert.strictEqual(result.rowCount, 2);
+        assert.strictEqual(page.hasMore, true);
+        assert.match(queries[0], /LIMIT 3 OFFSET 0$/);
+    });
+
+    it('reports the last page when no extra row comes back', async () => {
+        const { client } = fakeClient(rows(1, 2));
+        const { result, page } = await runQueryPage(client, pageRequest(2, 0));
+        assert.strictEqual(result.rows.length, 2);
+        assert.strictEqual(page.hasMore, false);
+    });
+
+    it('reports another page when the server capped the rows below the page size', async () => {
+        const { client } = fakeClient(rows(1, 1), true);
+        const { result, page } = await runQueryPage(client, pageRequest(2, 0));
+        assert.strictEqual(page.hasMore, true);
+        assert.strictEqual(result.wasLimited, false);
+    });
+});
+
+describe('paging across appended pages', () => {
+    it('continues after the rows loaded so far', async () => {
+        const store = new QueryResultStore();
+        const first = await runQueryPage(fakeClient(rows(1, 3)).client, pageRequest(2, 0));
+        const stored = store.add('SELECT id FROM t ORDER BY id', first.result, 'default', first.page);
+
+        const secondOffset = nextPageOffset(stored.page!, stored.result.rows.length);
+        assert.strictEqual(secondOffset, 2);
+        const { client, queries } = fakeClient(rows(3, 2));
+        const second = await runQueryPage(client, pageRequest(2, secondOffset));
+        assert.match(queries[0], /LIMIT 3 OFFSET 2$/);
+
+        store.appendPage(stored.id, second.result, second.page);
+        assert.deepStrictEqual(stored.result.rows, rows(1, 4));
+        assert.strictEqual(stored.result.rowCount, 4);
+        assert.strictEqual(stored.page!.hasMore, false);
+        // The page keeps its first offset; the next one starts after every loaded row
+        assert.strictEqual(nextPageOffset(stored.page!, stored.result.rows.length), 4);
+    });
+
+    it('does not append to results that are not paged', () => {
+        const store = new QueryResultStore();
+        const stored = store.add('SELECT 1', response(rows(1, 1)), 'default');
+        assert.strictEqual(store.appendPage(stored.id, response(rows(2, 1)), { ...pageRequest(1, 1), hasMore: false }), undefined);
+        assert.strictEqual(stored.result.rows.length, 1);
+    });
+
+    it('goes back one page without going below the first row', () => {
+        assert.strictEqual(previousPageOffset({ ...pageRequest(50, 120), hasMore: true }), 70);
+        assert.strictEqual(previousPageOffset({ ...pageRequest(50, 20), hasMore: true }), 0);
+    });
+});
@@ -0,0 +1,123 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { exportResult, formatMarkdownCell, quoteIdentifier, quoteQualifiedName, sqlLiteral } from '../results/resultExport';
+import { QueryField, RunQueryResponse } from '../types';
+
+const INT4 = 23;
+const TEXT = 25;
+const TEXT_ARRAY = 1009;
+
+function result(fields: QueryField[], rows: Record<string, unknown>[]): RunQueryResponse {
+    return { rows, rowCount: rows.length, totalRowCount: rows.length, wasLimited: false, fields };
+}
+
+describe('quoteIdentifier', () => {
+    it('leaves plain lowercase identifiers unquoted', () => {
+        assert.strictEqual(quoteIdentifier('order_id'), 'order_id');
+        assert.strictEqual(quoteIdentifier('_x$1'), '_x$1');
+    });
+
+    it('quotes mixed case, spaces, digits first and embedded quotes', () => {
+        assert.strictEqual(quoteIdentifier('OrderId'), '"OrderId"');
+        assert.strictEqual(quoteIdentifier('first name'), '"first name"');
+        assert.strictEqual(quoteIdentifier('1st'), '"1st"');
+        assert.strictEqual(quoteIdentifier('say "hi"'), '"say ""hi"""');
+    });
+
+    it('quotes reserved keywords', () => {
+        assert.strictEqual(quoteIdentifier('user'), '"user"');
+        assert.strictEqual(quoteIdentifier('order'), '"order"');
+        assert.strictEqual(quoteIdentifier('select'), '"select"');
+    });
+
+    it('treats dots as part of a single identifier', () => {
+        assert.strictEqual(quoteIdentifier('a.b'), '"a.b"');
+    });
+
+    it('quotes each part of a qualified name', () => {
+        assert.strictEqual(quoteQualifiedName('public.orders'), 'public.orders');
+        assert.strictEqual(quoteQualifiedName('Sales.user'), '"Sales"."user"');
+    });
+});
+
+describe('sqlLiteral', () => {
+    it('writes NULL for null and undefined', () => {
+        assert.strictEqual(sqlLiteral(null), 'NULL');
+        assert.strictEqual(sqlLiteral(undefined), 'NULL');
+    });
+
+    it('doubles single quotes in text', () => {
+        assert.strictEqual(sqlLiteral('O\'Brien'), '\'O\'\'Brien\'');
+        assert.strictEqual(sqlLiteral('\'); DROP TABLE users; --'), '\'\'\'); DROP TABLE users; --\'');
+    });
+
+    it('writes numbers and booleans bare, and non-finite numbers as text', () => {
+        assert.strictEqual(sqlLiteral(42), '42');
+        assert.strictEqual(sqlLiteral(-1.5), '-1.5');
+        assert.strictEqual(sqlLiteral(true), 'TRUE');
+        assert.strictEqual(sqlLiteral(false), 'FALSE');
+        assert.strictEqual(sqlLiteral(NaN), '\'NaN\'');
+        assert.strictEqual(sqlLiteral(-Infinity), '\'-Infinity\'');
+    });
+
+    it('writes serialized buffers as bytea hex', () => {
+        assert.strictEqual(sqlLiteral({ type: 'Buffer', data: [0, 255, 39] }), '\'\\x00ff27\'::bytea');
+    });
+
+    it('writes objects as quoted JSON', () => {
+        assert.strictEqual(sqlLiteral({ name: 'it\'s' }), '\'{"name":"it\'\'s"}\'');
+    });
+
+    it('writes array literals with quoted elements and NULLs', () => {
+        const field = { name: 'tags', dataTypeID: TEXT_ARRAY };
+        assert.strictEqual(sqlLiteral(['a"b', 'c\\d', null, 'it\'s'], field), '\'{"a\\"b","c\\\\d",NULL,"it\'\'s"}\'');
+    });
+});
+
+describe('formatMarkdownCell', () => {
+    it('marks NULL and escapes pipes and newlines', () => {
+        assert.strictEqual(formatMarkdownCell(null), '*NULL*');
+        assert.strictEqual(formatMarkdownCell('a|b\r\nc'), 'a\\|b c');
+    });
+});
+
+describe('exportResult', () => {
+    const fields = [{ name: 'id', dataTypeID: INT4 }, { name: 'Note, "quoted"', dataTypeID: TEXT }];
+    const data = result(fields, [
+        { id: 1, 'Note, "quoted"': 'say "hi", bye' },
+        { id: 2, 'Note, "quoted"': 'two\nlines' },
+        { id: null, 'Note, "quoted"': null }
+    ]);
+
+    it('quotes CSV fields with quotes, commas and newlines and leaves NULL empty', () => {
+        assert.strictEqual(exportResult(data, 'csv'),
+            'id,"Note, ""quoted"""\r\n' +
+            '1,"say ""hi"", bye"\r\n' +
+            '2,"two\nlines"\r\n' +
+            ',\r\n');
+    });
+
+    it('escapes markdown headers and cells', () => {
+        const markdown = exportResult(result([{ name: 'a|b', dataTypeID: TEXT }], [{ 'a|b': 'x|y' }, { 'a|b': null }]), 'markdown');
+        assert.strictEqual(markdown, '| a\\|b |\n| --- |\n| x\\|y |\n| *NULL* |\n');
+    });
+
+    it('quotes odd table and column names in INSERT statements', () => {
+        const odd = result(
+            [{ name: 'user', dataTypeID: TEXT }, { name: 'a.b', dataTypeID: TEXT }, { name: 'Col "x"', dataTypeID: INT4 }],
+            [{ user: 'O\'Brien', 'a.b': null, 'Col "x"': 7 }]
+        );
+        assert.strictEqual(exportResult(odd, 'sql', { tableName: 'Sales.order' }),
+            'INSERT INTO "Sales"."order" ("user", "a.b", "Col ""x""") VALUES (\'O\'\'Brien\', NULL, 7);\n');
+    });
+
+    it('inserts into query_result without a table name', () => {
+        const sql = exportResult(result([{ name: 'id', dataTypeID: INT4 }], [{ id: 1 }]), 'sql');
+        assert.strictEqual(sql, 'INSERT INTO query_result (id) VALUES (1);\n');
+    });
+
+    it('exports only the given rows', () => {
+        const csv = exportResult(data, 'csv', { rows: [data.rows[1]] });
+        assert.strictEqual(csv, 'id,"Note, ""quoted"""\r\n2,"two\nlines"\r\n');
+    });
+});
@@ -0,0 +1,35 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Module from 'module';
+
+/** Resolve `vscode` to the stand-in, since the tests run outside VS Code */
+function useVscodeStub(): void {
+    const loader = Module as unknown as { _resolveFilename(request: string, ...rest: unknown[]): string };
+    const resolveFilename = loader._resolveFilename;
+    loader._resolveFilename = function (request: string, ...rest: unknown[]) {
+        return resolveFilename.call(this, request === 'vscode' ? path.join(__dirname, 'vscodeStub.js') : request, ...rest);
+    };
+}
+
+/** Test files under this directory; node:test runs the tests they register and sets the exit code */
+function findTestFiles(directory: string): string[] {
+    return fs.readdirSync(directory, { withFileTypes: true }).flatMap(entry => {
+        const fullPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+            return findTestFiles(fullPath);
+        }
+        return entry.name.endsWith('.test.js') ? [fullPath] : [];
+    });
+}
+
+async function main(): Promise<void> {
+    useVscodeStub();
+    for (const file of findTestFiles(__dirname).sort()) {
+        await import(file);
+    }
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
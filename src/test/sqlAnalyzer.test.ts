@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { analyzeSql } from '../sql/sqlAnalyzer';
+import { splitStatements, tokenizeSql } from '../sql/sqlTokenizer';
+
+describe('tokenizeSql', () => {
+    it('skips line and nested block comments', () => {
+        const tokens = tokenizeSql('SELECT 1 -- DROP TABLE users\n/* DELETE /* nested */ FROM t */ FROM a');
+        assert.deepStrictEqual(tokens.map(token => token.value), ['SELECT', '1', 'FROM', 'a']);
+    });
+
+    it('keeps dollar-quoted strings as one token', () => {
+        const tokens = tokenizeSql('SELECT $body$ DELETE FROM t; $body$, $$;$$');
+        assert.deepStrictEqual(tokens.map(token => token.type), ['word', 'string', 'punctuation', 'string']);
+        assert.strictEqual(tokens[1].value, '$body$ DELETE FROM t; $body$');
+    });
+
+    it('unquotes quoted identifiers', () => {
+        const tokens = tokenizeSql('SELECT "a ""b"""');
+        assert.deepStrictEqual(tokens[1], { type: 'quotedIdentifier', value: 'a "b"', start: 7, end: 16, depth: 0 });
+    });
+});
+
+describe('splitStatements', () => {
+    it('splits on top-level semicolons only', () => {
+        const sql = `SELECT ';'; DO $$ BEGIN PERFORM 1; END $$;; SELECT 2`;
+        assert.deepStrictEqual(splitStatements(sql).map(statement => statement.text), [
+            `SELECT ';'`,
+            'DO $$ BEGIN PERFORM 1; END $$',
+            'SELECT 2'
+        ]);
+    });
+});
+
+describe('analyzeSql', () => {
+    it('treats a plain SELECT as read-only', () => {
+        const report = analyzeSql('SELECT id FROM public.users u JOIN orders o ON o.user_id = u.id');
+        assert.strictEqual(report.readOnly, true);
+        assert.strictEqual(report.riskLevel, 'read');
+        assert.deepStrictEqual(report.statements[0].referencedTables, ['public.users', 'orders']);
+    });
+
+    it('ignores keywords in comments and strings', () => {
+        const report = analyzeSql(`SELECT 'DROP TABLE x' /* ; DELETE FROM y */ -- ; TRUNCATE z\nFROM t`);
+        assert.strictEqual(report.statements.length, 1);
+        assert.strictEqual(report.readOnly, true);
+    });
+
+    it('finds data-modifying statements inside CTEs', () => {
+        const report = analyzeSql('WITH gone AS (DELETE FROM sessions RETURNING *) SELECT count(*) FROM gone');
+        const [statement] = report.statements;
+        assert.strictEqual(report.readOnly, false);
+        assert.strictEqual(report.riskLevel, 'destructive');
+        assert.deepStrictEqual(statement.dataModifyingCtes, ['delete']);
+        assert.deepStrictEqual(statement.affectedTables, ['sessions']);
+        assert.strictEqual(statement.missingWhere, true);
+    });
+
+    it('analyzes every statement of a multi-statement query', () => {
+        const report = analyzeSql('SELECT 1; UPDATE accounts SET balance = 0 WHERE id = 1; DROP TABLE audit CASCADE');
+        assert.deepStrictEqual(report.statements.map(statement => statement.kind), ['select', 'update', 'drop']);
+        assert.deepStrictEqual(report.affectedTables, ['accounts', 'audit']);
+        assert.strictEqual(report.riskLevel, 'destructive');
+        assert.match(report.warnings[0], /3 statements/);
+    });
+
+    it('flags UPDATE and DELETE without WHERE', () => {
+        assert.strictEqual(analyzeSql('UPDATE t SET a = 1').statements[0].missingWhere, true);
+        assert.strictEqual(analyzeSql('DELETE FROM t WHERE id = 1').statements[0].missingWhere, false);
+    });
+
+    for (const sql of [
+        'SELECT pg_terminate_backend(123)',
+        'SELECT "pg_terminate_backend"(123)',
+        'SELECT pg_catalog.pg_terminate_backend(123)',
+        'SELECT "pg_catalog"."pg_terminate_backend"(123)',
+        `SELECT "nextval"('s')`,
+        `SELECT * FROM t WHERE id = (SELECT setval('s', 1))`
+    ]) {
+        it(`treats side-effect function calls as writes: ${sql}`, () => {
+            const report = analyzeSql(sql);
+            assert.strictEqual(report.readOnly, false);
+            assert.match(report.warnings.join('\n'), /side effects/);
+        });
+    }
+
+    it('does not match quoted names that differ in case from the function', () => {
+        assert.strictEqual(analyzeSql('SELECT "NEXTVAL"(1)').readOnly, true);
+    });
+
+    for (const clause of ['FOR UPDATE', 'FOR NO KEY UPDATE', 'FOR SHARE', 'FOR KEY SHARE SKIP LOCKED']) {
+        it(`treats SELECT ... ${clause} as not read-only`, () => {
+            const report = analyzeSql(`SELECT * FROM jobs WHERE state = 'new' ${clause}`);
+            assert.strictEqual(report.readOnly, false);
+            assert.match(report.warnings.join('\n'), /locks the selected rows/);
+        });
+    }
+
+    it('does not mistake FOR inside substring() for a locking clause', () => {
+        assert.strictEqual(analyzeSql('SELECT substring(name FROM 1 FOR 3) FROM t').readOnly, true);
+    });
+
+    it('treats SELECT INTO as creating a table', () => {
+        const [statement] = analyzeSql('SELECT * INTO TEMP copy FROM t').statements;
+        assert.strictEqual(statement.kind, 'create');
+        assert.strictEqual(statement.readOnly, false);
+        assert.deepStrictEqual(statement.affectedTables, ['copy']);
+    });
+
+    it('treats EXPLAIN as read-only unless it analyzes a write', () => {
+        assert.strictEqual(analyzeSql('EXPLAIN DELETE FROM t').readOnly, true);
+        assert.strictEqual(analyzeSql('EXPLAIN (ANALYZE) DELETE FROM t').readOnly, false);
+        assert.strictEqual(analyzeSql('EXPLAIN (ANALYZE false) DELETE FROM t').readOnly, true);
+    });
+});
@@ -0,0 +1,77 @@
+/**
+ * Stand-in for the parts of the `vscode` module that the unit-tested modules
+ * use. Tests run in plain Node, where the real module does not exist; the
+ * runner resolves `vscode` to this file.
+ */
+
+/** Settings always have their default value */
+export const workspace = {
+    getConfiguration: () => ({
+        get: <T>(_section: string, defaultValue?: T) => defaultValue,
+        inspect: () => undefined
+    })
+};
+
+export class CancellationError extends Error {
+    constructor() {
+        super('Canceled');
+        this.name = 'Canceled';
+    }
+}
+
+export class MarkdownString {
+    constructor(public value = '') {}
+}
+
+export class LanguageModelTextPart {
+    constructor(public value: string) {}
+}
+
+export class LanguageModelToolCallPart {
+    constructor(public callId: string, public name: string, public input: object) {}
+}
+
+export class LanguageModelToolResultPart {
+    constructor(public callId: string, public content: unknown[]) {}
+}
+
+export class LanguageModelToolResult {
+    constructor(public content: unknown[]) {}
+}
+
+export enum LanguageModelChatMessageRole {
+    User = 1,
+    Assistant = 2
+}
+
+export class LanguageModelChatMessage {
+    static User(content: string | unknown[]): LanguageModelChatMessage {
+        return new LanguageModelChatMessage(LanguageModelChatMessageRole.User, content);
+    }
+
+    static Assistant(content: string | unknown[]): LanguageModelChatMessage {
+        return new LanguageModelChatMessage(LanguageModelChatMessageRole.Assistant, content);
+    }
+
+    content: unknown[];
+
+    constructor(public role: LanguageModelChatMessageRole, content: string | unknown[]) {
+        this.content = typeof content === 'string' ? [new LanguageModelTextPart(content)] : content;
+    }
+}
+
+export class ChatResponseMarkdownPart {
+    value: MarkdownString;
+
+    constructor(value: string | MarkdownString) {
+        this.value = typeof value === 'string' ? new MarkdownString(value) : value;
+    }
+}
+
+export class ChatRequestTurn {
+    constructor(readonly prompt: string, readonly command: string | undefined, readonly references: unknown[], readonly participant: string) {}
+}
+
+export class ChatResponseTurn {
+    constructor(readonly response: unknown[], readonly result: { metadata?: unknown; errorDetails?: { message: string } }, readonly participant: string) {}
+}
@@ -1 +1,2 @@
-export { registerPostgreSQLTools } from './postgresqlTools'; 
\ No newline at end of file
+export { registerPostgreSQLTools, KNOWN_MCP_TOOLS } from './postgresqlTools';
+export { McpBridgedTool, McpToolRegistry } from './mcpBridgedTools';
\ No newline at end of file
@@ -0,0 +1,353 @@
+import * as vscode from 'vscode';
+import { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { describeProgress, McpClient } from '../mcpClient';
+import { AuditLog } from '../audit/auditLog';
+import { IMcpToolParams } from '../types';
+import { KNOWN_MCP_TOOLS } from './postgresqlTools';
+
+const BRIDGED_TOOL_PREFIX = 'mcp_';
+const MAX_TOOL_NAME_LENGTH = 64;
+
+interface JsonSchemaProperty {
+    type?: string | string[];
+    enum?: unknown[];
+    description?: string;
+}
+
+/** Build a VS Code compatible tool name for an MCP tool */
+export function toBridgedToolName(mcpToolName: string): string {
+    const sanitized = mcpToolName.replace(/[^A-Za-z0-9_-]/g, '_');
+    return `${BRIDGED_TOOL_PREFIX}${sanitized}`.slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/**
+ * Bridged name for an MCP tool that is not in `taken` yet. Sanitizing and
+ * truncating can map different MCP names to the same bridged name; later
+ * tools then get a numbered suffix instead of replacing the earlier one.
+ */
+export function uniqueBridgedToolName(mcpToolName: string, taken: ReadonlySet<string>): string {
+    const name = toBridgedToolName(mcpToolName);
+    let unique = name;
+    for (let n = 2; taken.has(unique); n++) {
+        const suffix = `_${n}`;
+        unique = `${name.slice(0, MAX_TOOL_NAME_LENGTH - suffix.length)}${suffix}`;
+    }
+    return unique;
+}
+
+/** Validate tool input against the MCP tool's inputSchema, returning a list of problems */
+export function validateToolInput(schema: Tool['inputSchema'], input: IMcpToolParams): string[] {
+    const errors: string[] = [];
+
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        return ['Input must be an object'];
+    }
+
+    const properties = (schema.properties || {}) as Record<string, JsonSchemaProperty>;
+
+    for (const required of schema.required || []) {
+        if (input[required] === undefined) {
+            errors.push(`Missing required parameter "${required}"`);
+        }
+    }
+
+    for (const [key, value] of Object.entries(input)) {
+        const property = properties[key];
+        if (!property) {
+            if (schema.additionalProperties === false) {
+                errors.push(`Unknown parameter "${key}"`);
+            }
+            continue;
+        }
+
+        if (property.type) {
+            const allowedTypes = Array.isArray(property.type) ? property.type : [property.type];
+            if (!allowedTypes.some(type => matchesJsonType(value, type))) {
+                errors.push(`Parameter "${key}" must be of type ${allowedTypes.join(' | ')}`);
+                continue;
+            }
+        }
+
+        if (property.enum && !property.enum.includes(value)) {
+            errors.push(`Parameter "${key}" must be one of: ${property.enum.map(v => JSON.stringify(v)).join(', ')}`);
+        }
+    }
+
+    return errors;
+}
+
+function matchesJsonType(value: unknown, type: string): boolean {
+    switch (type) {
+        case 'string':
+            return typeof value === 'string';
+        case 'number':
+            return typeof value === 'number' && !isNaN(value);
+        case 'integer':
+            return typeof value === 'number' && Number.isInteger(value);
+        case 'boolean':
+            return typeof value === 'boolean';
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return !!value && typeof value === 'object' && !Array.isArray(value);
+        case 'null':
+            return value === null;
+        default:
+            return true;
+    }
+}
+
+/** Convert MCP tool result content into markdown text for the model */
+export function formatCallToolResult(result: CallToolResult): string {
+    const parts: string[] = [];
+
+    for (const item of result.content || []) {
+        switch (item.type) {
+            case 'text':
+                parts.push(item.text);
+                break;
+            case 'image':
+                parts.push(`*[image: ${item.mimeType}]*`);
+                break;
+            case 'audio':
+                parts.push(`*[audio: ${item.mimeType}]*`);
+                break;
+            case 'resource':
+                if ('text' in item.resource) {
+                    parts.push(`**Resource ${item.resource.uri}:**\n\n${item.resource.text}`);
+                } else {
+                    parts.push(`*[binary resource: ${item.resource.uri}]*`);
+                }
+                break;
+            case 'resource_link':
+                parts.push(`[${item.name}](${item.uri})`);
+                break;
+        }
+    }
+
+    if (parts.length === 0 && result.structuredContent) {
+        parts.push(`\`\`\`json\n${JSON.stringify(result.structuredContent, null, 2)}\n\`\`\``);
+    }
+
+    return parts.length > 0 ? parts.join('\n\n') : 'The tool returned no content.';
+}
+
+/**
+ * Generic language model tool wrapping a tool advertised by the MCP server.
+ */
+export class McpBridgedTool implements vscode.LanguageModelTool<IMcpToolParams> {
+    constructor(
+        private mcpClient: McpClient,
+        private auditLog: AuditLog,
+        readonly definition: Tool,
+        readonly name: string = toBridgedToolName(definition.name)
+    ) {}
+
+    get description(): string {
+        return this.definition.description || this.definition.annotations?.title || `MCP tool "${this.definition.name}"`;
+    }
+
+    /** Per the MCP spec a tool without annotations may modify and destroy data, so it is confirmed too */
+    get isDestructive(): boolean {
+        const annotations = this.definition.annotations;
+        return annotations?.readOnlyHint !== true && annotations?.destructiveHint !== false;
+    }
+
+    private get destructiveWarning(): string {
+        return this.definition.annotations ?
+            'The MCP server marks this tool as potentially destructive.' :
+            'The MCP server does not say whether this tool is read-only, so it may modify data.';
+    }
+
+    get confirmationTitle(): string {
+        return `Run ${this.definition.annotations?.title || this.definition.name}`;
+    }
+
+    /** Plain-text confirmation for a modal dialog, which does not render markdown */
+    confirmationDetail(input: IMcpToolParams): string {
+        return `${this.destructiveWarning}\n\nInput:\n${JSON.stringify(input, null, 2)}`;
+    }
+
+    /** Describe this tool for `LanguageModelChatRequestOptions.tools` */
+    toChatTool(): vscode.LanguageModelChatTool {
+        return {
+            name: this.name,
+            description: this.description,
+            inputSchema: this.definition.inputSchema
+        };
+    }
+
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<IMcpToolParams>,
+        token: vscode.CancellationToken
+    ) {
+        const params = options.input || {};
+        this.auditLog.confirmationResolved(this.name, params, true);
+
+        const validationErrors = validateToolInput(this.definition.inputSchema, params);
+        if (validationErrors.length > 0) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`❌ **Invalid input for ${this.definition.name}:**\n\n${validationErrors.map(e => `- ${e}`).join('\n')}`)
+            ]);
+        }
+
+        try {
+            if (!this.mcpClient.isConnected()) {
+                await this.mcpClient.connect();
+            }
+
+            const annotations = this.definition.annotations;
+            const result = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Window,
+                title: `Running ${this.definition.name}`
+            }, progress => this.mcpClient.callTool(this.definition.name, params, {
+                idempotent: annotations?.readOnlyHint === true || annotations?.idempotentHint === true,
+                token,
+                onProgress: update => progress.report({ message: describeProgress(update) })
+            }));
+
+            const formattedResult = formatCallToolResult(result);
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(result.isError ? `❌ **${this.definition.name} reported an error:** ${formattedResult}` : formattedResult)
+            ]);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`❌ **Failed to run ${this.definition.name}:** ${errorMessage}`)
+            ]);
+        }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<IMcpToolParams>,
+        _token: vscode.CancellationToken
+    ) {
+        const invocationMessage = `Running MCP tool "${this.definition.name}"...`;
+
+        if (this.isDestructive) {
+            this.auditLog.confirmationRequested(this.name, options.input || {});
+            return {
+                invocationMessage,
+                confirmationMessages: {
+                    title: this.confirmationTitle,
+                    message: new vscode.MarkdownString(
+                        `⚠️ ${this.destructiveWarning}\n\n` +
+                        `**Input:**\n\`\`\`json\n${JSON.stringify(options.input, null, 2)}\n\`\`\`\n\n` +
+                        `Do you want to proceed?`
+                    )
+                }
+            };
+        }
+
+        return {
+            invocationMessage,
+        };
+    }
+}
+
+/**
+ * Discovers the tools advertised by the MCP server and bridges every tool that
+ * has no dedicated PostgreSQL tool class.
+ */
+export class McpToolRegistry implements vscode.Disposable {
+    private tools = new Map<string, McpBridgedTool>();
+    private loaded = false;
+    private readonly onDidChangeToolsEmitter = new vscode.EventEmitter<void>();
+    private readonly listeners: vscode.Disposable[];
+    readonly onDidChangeTools = this.onDidChangeToolsEmitter.event;
+
+    constructor(private mcpClient: McpClient, private auditLog: AuditLog) {
+        // A (re)connected server or a different profile may advertise a different tool list
+        this.listeners = [
+            mcpClient.onDidChangeState(change => {
+                if (change.state === 'connected' && change.profile === mcpClient.getActiveProfile().name) {
+                    this.loaded = false;
+                }
+            }),
+            mcpClient.onDidChangeActiveProfile(() => {
+                this.tools.clear();
+                this.loaded = false;
+                this.onDidChangeToolsEmitter.fire();
+            })
+        ];
+    }
+
+    /** Re-read the tool list from the MCP server */
+    async refresh(): Promise<void> {
+        if (!this.mcpClient.isConnected()) {
+            await this.mcpClient.connect();
+        }
+
+        const serverTools = await this.mcpClient.listTools();
+        const tools = new Map<string, McpBridgedTool>();
+        for (const definition of serverTools) {
+            if (KNOWN_MCP_TOOLS[definition.name]) {
+                continue;
+            }
+            const name = uniqueBridgedToolName(definition.name, new Set(tools.keys()));
+            if (name !== toBridgedToolName(definition.name)) {
+                const other = tools.get(toBridgedToolName(definition.name))?.definition.name;
+                console.warn(`MCP tools "${other}" and "${definition.name}" map to the same tool name; bridging "${definition.name}" as ${name}`);
+            }
+            tools.set(name, new McpBridgedTool(this.mcpClient, this.auditLog, definition, name));
+        }
+
+        this.tools = tools;
+        this.loaded = true;
+        this.onDidChangeToolsEmitter.fire();
+    }
+
+    /** Load the tool list once, logging instead of throwing when the server is unavailable */
+    async ensureLoaded(): Promise<void> {
+        if (this.loaded) {
+            return;
+        }
+        try {
+            await this.refresh();
+        } catch (error) {
+            console.error('Failed to discover MCP server tools:', error);
+        }
+    }
+
+    getTools(): McpBridgedTool[] {
+        return [...this.tools.values()];
+    }
+
+    getChatTools(): vscode.LanguageModelChatTool[] {
+        return this.getTools().map(tool => tool.toChatTool());
+    }
+
+    has(name: string): boolean {
+        return this.tools.has(name);
+    }
+
+    /** Invoke a bridged tool, asking the user first when the tool is destructive */
+    async invoke(name: string, input: IMcpToolParams, token: vscode.CancellationToken): Promise<vscode.LanguageModelToolResult> {
+        const tool = this.tools.get(name);
+        if (!tool) {
+            throw new Error(`Unknown MCP tool: ${name}`);
+        }
+
+        const prepared = await tool.prepareInvocation({ input }, token);
+        if (prepared.confirmationMessages) {
+            const choice = await vscode.window.showWarningMessage(
+                tool.confirmationTitle,
+                { modal: true, detail: tool.confirmationDetail(input) },
+                'Continue'
+            );
+            if (choice !== 'Continue') {
+                this.auditLog.confirmationResolved(tool.name, input, false);
+                return new vscode.LanguageModelToolResult([
+                    new vscode.LanguageModelTextPart(`The user declined to run ${tool.definition.name}.`)
+                ]);
+            }
+        }
+
+        return tool.invoke({ input, toolInvocationToken: undefined }, token);
+    }
+
+    dispose() {
+        this.listeners.forEach(listener => listener.dispose());
+        this.onDidChangeToolsEmitter.dispose();
+    }
+}
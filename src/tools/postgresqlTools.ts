@@ -1,5 +1,21 @@
 import * as vscode from 'vscode';
-import { McpClient } from '../mcpClient';
+import { describeProgress, McpClient } from '../mcpClient';
+import { SchemaCache } from '../schemaCache';
+import { analyzeSql, formatRiskReport, SqlRiskReport } from '../sql';
+import { pgTypeName } from '../sql/pgTypes';
+import { formatMarkdownCell } from '../results/resultExport';
+import { formatColumnStatistics } from '../results/columnStatistics';
+import { describePage, nextPageOffset } from '../results/queryPaging';
+import { isReadOnlyMode, QueryExecutor } from '../results/queryExecutor';
+import { ExplainPlanStore } from '../explain/explainPlanStore';
+import { analyzePlan, formatPlanReport, parseExplainResult } from '../explain/planAnalysis';
+import { CatalogIntrospector } from '../catalog/catalogIntrospector';
+import { AuditLog } from '../audit/auditLog';
+import { QueryHistoryEntry, QueryHistoryStore, SavedQuery } from '../history/queryHistoryStore';
+import { ERD_FORMATS, isErdFormat } from '../erd/erdFormats';
+import { generateErdDiagram } from '../erd/erdExport';
+import { formatResourceContents, formatResourceList } from '../resources/serverResources';
+import { budgetedToolResult, listOmittedNames, textToolOutput, ToolOutput, ToolOutputItem } from './toolOutput';
 import {
     IListSchemasParams,
     IListTablesParams,
@@ -11,49 +27,106 @@ import {
     IFindRelatedTablesParams,
     IDescribeRelationshipParams,
     IRunQueryParams,
+    IExplainQueryParams,
+    IListIndexesParams,
+    IListViewsParams,
+    IListFunctionsParams,
+    IDescribeFunctionParams,
+    IListConstraintsParams,
+    IDescribeSchemaParams,
+    ISearchQueryHistoryParams,
+    IReadResourceParams,
     ListSchemasResponse,
     ListTablesResponse,
     ListColumnsResponse,
-    GenerateErdMermaidResponse,
     GenerateErdJsonResponse,
     FuzzyColumnMatchResponse,
     SampleColumnDataResponse,
     FindRelatedTablesResponse,
     DescribeRelationshipResponse,
-    RunQueryResponse
+    RunQueryResponse,
+    ListIndexesResponse,
+    ListViewsResponse,
+    ListFunctionsResponse,
+    DescribeFunctionResponse,
+    ListConstraintsResponse,
+    DescribeSchemaResponse,
+    FunctionParameter,
+    QueryPage,
+    TableInfo
 } from '../types';
 
-export function registerPostgreSQLTools(context: vscode.ExtensionContext, mcpClient: McpClient) {
-    context.subscriptions.push(vscode.lm.registerTool('postgresql_listSchemas', new ListSchemasTool(mcpClient)));
-    context.subscriptions.push(vscode.lm.registerTool('postgresql_listTables', new ListTablesTool(mcpClient)));
-    context.subscriptions.push(vscode.lm.registerTool('postgresql_listColumns', new ListColumnsTool(mcpClient)));
-    context.subscriptions.push(vscode.lm.registerTool('postgresql_generateErdMermaid', new GenerateErdMermaidTool(mcpClient)));
-    context.subscriptions.push(vscode.lm.registerTool('postgresql_generateErdJson', new GenerateErdJsonTool(mcpClient)));
+/** MCP server tool names that have a dedicated PostgreSQL tool, keyed to the VS Code tool name */
+export const KNOWN_MCP_TOOLS: Record<string, string> = {
+    list_schemas: 'postgresql_listSchemas',
+    list_tables: 'postgresql_listTables',
+    list_columns: 'postgresql_listColumns',
+    generate_erd_mermaid: 'postgresql_generateErdMermaid',
+    generate_erd_json: 'postgresql_generateErdJson',
+    fuzzy_column_match: 'postgresql_fuzzyColumnMatch',
+    sample_column_data: 'postgresql_sampleColumnData',
+    find_related_tables: 'postgresql_findRelatedTables',
+    describe_relationship: 'postgresql_describeRelationship',
+    run_query: 'postgresql_runQuery',
+    list_indexes: 'postgresql_listIndexes',
+    list_views: 'postgresql_listViews',
+    list_functions: 'postgresql_listFunctions',
+    describe_function: 'postgresql_describeFunction',
+    list_constraints: 'postgresql_listConstraints',
+    describe_schema: 'postgresql_describeSchema'
+};
+
+/** Rows of a query result shown inline in chat; the full result is in the result grid */
+const QUERY_PREVIEW_ROWS = 20;
+
+export function registerPostgreSQLTools(
+    context: vscode.ExtensionContext,
+    mcpClient: McpClient,
+    queryExecutor: QueryExecutor,
+    schemaCache: SchemaCache,
+    planStore: ExplainPlanStore,
+    historyStore: QueryHistoryStore,
+    auditLog: AuditLog
+) {
+    context.subscriptions.push(vscode.lm.registerTool('postgresql_listSchemas', new ListSchemasTool(mcpClient, schemaCache)));
+    context.subscriptions.push(vscode.lm.registerTool('postgresql_listTables', new ListTablesTool(mcpClient, schemaCache)));
+    context.subscriptions.push(vscode.lm.registerTool('postgresql_listColumns', new ListColumnsTool(mcpClient, schemaCache)));
+    context.subscriptions.push(vscode.lm.registerTool('postgresql_generateErdMermaid', new GenerateErdMermaidTool(mcpClient, schemaCache)));
+    context.subscriptions.push(vscode.lm.registerTool('postgresql_generateErdJson', new GenerateErdJsonTool(mcpClient, schemaCache)));
     context.subscriptions.push(vscode.lm.registerTool('postgresql_fuzzyColumnMatch', new FuzzyColumnMatchTool(mcpClient)));
     context.subscriptions.push(vscode.lm.registerTool('postgresql_sampleColumnData', new SampleColumnDataTool(mcpClient)));
-    context.subscriptions.push(vscode.lm.registerTool('postgresql_findRelatedTables', new FindRelatedTablesTool(mcpClient)));
+    context.subscriptions.push(vscode.lm.registerTool('postgresql_findRelatedTables', new FindRelatedTablesTool(mcpClient, schemaCache)));
     context.subscriptions.push(vscode.lm.registerTool('postgresql_describeRelationship', new DescribeRelationshipTool(mcpClient)));
-    context.subscriptions.push(vscode.lm.registerTool('postgresql_runQuery', new RunQueryTool(mcpClient)));
+    context.subscriptions.push(vscode.lm.registerTool('postgresql_runQuery', new RunQueryTool(mcpClient, queryExecutor, auditLog)));
+    context.subscriptions.push(vscode.lm.registerTool('postgresql_explainQuery', new ExplainQueryTool(mcpClient, queryExecutor, planStore, auditLog)));
+    context.subscriptions.push(vscode.lm.registerTool('postgresql_searchQueryHistory', new SearchQueryHistoryTool(historyStore)));
+    context.subscriptions.push(vscode.lm.registerTool('postgresql_readResource', new ReadResourceTool(mcpClient)));
+
+    const catalog = new CatalogIntrospector(mcpClient, schemaCache);
+    context.subscriptions.push(vscode.lm.registerTool('postgresql_listIndexes', new ListIndexesTool(mcpClient, catalog)));
+    context.subscriptions.push(vscode.lm.registerTool('postgresql_listViews', new ListViewsTool(mcpClient, catalog)));
+    context.subscriptions.push(vscode.lm.registerTool('postgresql_listFunctions', new ListFunctionsTool(mcpClient, catalog)));
+    context.subscriptions.push(vscode.lm.registerTool('postgresql_describeFunction', new DescribeFunctionTool(mcpClient, catalog)));
+    context.subscriptions.push(vscode.lm.registerTool('postgresql_listConstraints', new ListConstraintsTool(mcpClient, catalog)));
+    context.subscriptions.push(vscode.lm.registerTool('postgresql_describeSchema', new DescribeSchemaTool(mcpClient, catalog)));
 }
 
 export class ListSchemasTool implements vscode.LanguageModelTool<IListSchemasParams> {
-    constructor(private mcpClient: McpClient) {}
+    constructor(private mcpClient: McpClient, private schemaCache: SchemaCache) {}
 
     async invoke(
         options: vscode.LanguageModelToolInvocationOptions<IListSchemasParams>,
-        _token: vscode.CancellationToken
+        token: vscode.CancellationToken
     ) {
         try {
             if (!this.mcpClient.isConnected()) {
                 await this.mcpClient.connect();
             }
 
-            const result = await this.mcpClient.json<ListSchemasResponse>('list_schemas', {});
+            const result = await this.schemaCache.listSchemas(token);
             
             const formattedResult = this.formatSchemaList(result);
-            return new vscode.LanguageModelToolResult([
-                new vscode.LanguageModelTextPart(formattedResult)
-            ]);
+            return budgetedToolResult(formattedResult, options, token);
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
             return new vscode.LanguageModelToolResult([
@@ -71,25 +144,30 @@ export class ListSchemasTool implements vscode.LanguageModelTool<IListSchemasPar
         };
     }
 
-    private formatSchemaList(result: ListSchemasResponse): string {
+    private formatSchemaList(result: ListSchemasResponse): ToolOutput {
         if (!result || !result.schemas || !Array.isArray(result.schemas)) {
             console.warn('Invalid response structure for listSchemas:', result);
-            return 'No schemas found or invalid response structure.';
+            return textToolOutput('No schemas found or invalid response structure.');
         }
         
         if (result.schemas.length === 0) {
-            return 'No schemas found.';
+            return textToolOutput('No schemas found.');
         }
-        return `Found ${result.schemas.length} schemas:\n\n${result.schemas.map(schema => `- **${schema}**`).join('\n')}`;
+        return listOutput(
+            `Found ${result.schemas.length} schemas:\n\n`,
+            result.schemas.map(schema => ({ name: schema, text: `- **${schema}**` })),
+            'schemas',
+            'Query information_schema.schemata with postgresql_runQuery and a name filter to look up others.'
+        );
     }
 }
 
 export class ListTablesTool implements vscode.LanguageModelTool<IListTablesParams> {
-    constructor(private mcpClient: McpClient) {}
+    constructor(private mcpClient: McpClient, private schemaCache: SchemaCache) {}
 
     async invoke(
         options: vscode.LanguageModelToolInvocationOptions<IListTablesParams>,
-        _token: vscode.CancellationToken
+        token: vscode.CancellationToken
     ) {
         const params = options.input;
         
@@ -98,14 +176,10 @@ export class ListTablesTool implements vscode.LanguageModelTool<IListTablesParam
                 await this.mcpClient.connect();
             }
 
-            const result = await this.mcpClient.json<ListTablesResponse>('list_tables', {
-                schema: params.schema
-            });
+            const result = await this.schemaCache.listTables(params.schema, token);
 
             const formattedResult = this.formatTableList(result, params.schema);
-            return new vscode.LanguageModelToolResult([
-                new vscode.LanguageModelTextPart(formattedResult)
-            ]);
+            return budgetedToolResult(formattedResult, options, token);
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
             return new vscode.LanguageModelToolResult([
@@ -123,25 +197,30 @@ export class ListTablesTool implements vscode.LanguageModelTool<IListTablesParam
         };
     }
 
-    private formatTableList(result: ListTablesResponse, schema: string): string {
+    private formatTableList(result: ListTablesResponse, schema: string): ToolOutput {
         if (!result || !result.tables || !Array.isArray(result.tables)) {
             console.warn('Invalid response structure for listTables:', result);
-            return `No tables found in schema "${schema}" or invalid response structure.`;
+            return textToolOutput(`No tables found in schema "${schema}" or invalid response structure.`);
         }
         
         if (result.tables.length === 0) {
-            return `No tables found in schema "${schema}".`;
+            return textToolOutput(`No tables found in schema "${schema}".`);
         }
-        return `Found ${result.tables.length} tables in schema "${schema}":\n\n${result.tables.map(table => `- **${table}**`).join('\n')}`;
+        return listOutput(
+            `Found ${result.tables.length} tables in schema "${schema}":\n\n`,
+            result.tables.map(table => ({ name: table, text: `- **${table}**` })),
+            'tables',
+            'Query information_schema.tables with postgresql_runQuery and a name filter to look up others.'
+        );
     }
 }
 
 export class ListColumnsTool implements vscode.LanguageModelTool<IListColumnsParams> {
-    constructor(private mcpClient: McpClient) {}
+    constructor(private mcpClient: McpClient, private schemaCache: SchemaCache) {}
 
     async invoke(
         options: vscode.LanguageModelToolInvocationOptions<IListColumnsParams>,
-        _token: vscode.CancellationToken
+        token: vscode.CancellationToken
     ) {
         const params = options.input;
         
@@ -150,15 +229,10 @@ export class ListColumnsTool implements vscode.LanguageModelTool<IListColumnsPar
                 await this.mcpClient.connect();
             }
 
-            const result = await this.mcpClient.json<ListColumnsResponse>('list_columns', {
-                schema: params.schema,
-                table: params.table
-            });
+            const result = await this.schemaCache.listColumns(params.schema, params.table, token);
 
             const formattedResult = this.formatColumnList(result, params.schema, params.table);
-            return new vscode.LanguageModelToolResult([
-                new vscode.LanguageModelTextPart(formattedResult)
-            ]);
+            return budgetedToolResult(formattedResult, options, token);
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
             return new vscode.LanguageModelToolResult([
@@ -176,14 +250,14 @@ export class ListColumnsTool implements vscode.LanguageModelTool<IListColumnsPar
         };
     }
 
-    private formatColumnList(result: ListColumnsResponse, schema: string, table: string): string {
+    private formatColumnList(result: ListColumnsResponse, schema: string, table: string): ToolOutput {
         if (!result || !result.columns || !Array.isArray(result.columns)) {
             console.warn('Invalid response structure for listColumns:', result);
-            return `No columns found in table "${schema}.${table}" or invalid response structure.`;
+            return textToolOutput(`No columns found in table "${schema}.${table}" or invalid response structure.`);
         }
         
         if (result.columns.length === 0) {
-            return `No columns found in table "${schema}.${table}".`;
+            return textToolOutput(`No columns found in table "${schema}.${table}".`);
         }
 
         const headerRow = `| Column | Type | Nullable |`;
@@ -191,19 +265,24 @@ export class ListColumnsTool implements vscode.LanguageModelTool<IListColumnsPar
         
         const dataRows = result.columns.map(col => {
             const nullable = col.is_nullable ? 'Yes' : 'No';
-            return `| **${col.name}** | \`${col.type}\` | ${nullable} |`;
+            return { name: col.name, text: `| **${col.name}** | \`${col.type}\` | ${nullable} |` };
         });
 
-        return `## Columns in ${schema}.${table}\n\n${[headerRow, separatorRow, ...dataRows].join('\n')}`;
+        return listOutput(
+            `## Columns in ${schema}.${table}\n\n${headerRow}\n${separatorRow}\n`,
+            dataRows,
+            'columns',
+            'Use postgresql_fuzzyColumnMatch to find specific columns.'
+        );
     }
 }
 
 export class GenerateErdMermaidTool implements vscode.LanguageModelTool<IGenerateErdMermaidParams> {
-    constructor(private mcpClient: McpClient) {}
+    constructor(private mcpClient: McpClient, private schemaCache: SchemaCache) {}
 
     async invoke(
         options: vscode.LanguageModelToolInvocationOptions<IGenerateErdMermaidParams>,
-        _token: vscode.CancellationToken
+        token: vscode.CancellationToken
     ) {
         const params = options.input;
         
@@ -212,13 +291,20 @@ export class GenerateErdMermaidTool implements vscode.LanguageModelTool<IGenerat
                 await this.mcpClient.connect();
             }
 
-            const result = await this.mcpClient.json<GenerateErdMermaidResponse>('generate_erd_mermaid', {
-                schema: params.schema
-            });
-
-            return new vscode.LanguageModelToolResult([
-                new vscode.LanguageModelTextPart(`## Entity Relationship Diagram for "${params.schema}"\n\n\`\`\`mermaid\n${result.diagram}\n\`\`\``)
-            ]);
+            const format = params.format ?? 'mermaid';
+            if (!isErdFormat(format)) {
+                throw new Error(`Unknown ERD format "${format}". Use one of: ${Object.keys(ERD_FORMATS).join(', ')}.`);
+            }
+            const result = await generateErdDiagram(this.mcpClient, this.schemaCache, params.schema, format, token);
+
+            const lines = result.diagram.trimEnd().split('\n');
+            return budgetedToolResult({
+                header: `## Entity Relationship Diagram for "${params.schema}"\n\n\`\`\`${ERD_FORMATS[format].fence}\n`,
+                items: lines.map((line, index) => ({ name: `line ${index + 1}`, text: line })),
+                footer: '\n```',
+                describeOmitted: omitted => `The diagram was cut to fit the context window: the last ${omitted.length} of ${lines.length} lines were left out. ` +
+                    'Use postgresql_generateErdJson, which keeps the best connected tables, or postgresql_findRelatedTables for the tables you need.'
+            }, options, token);
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
             return new vscode.LanguageModelToolResult([
@@ -232,17 +318,17 @@ export class GenerateErdMermaidTool implements vscode.LanguageModelTool<IGenerat
         _token: vscode.CancellationToken
     ) {
         return {
-            invocationMessage: `Generating ERD diagram for schema "${options.input.schema}"...`,
+            invocationMessage: `Generating ${isErdFormat(options.input.format) ? ERD_FORMATS[options.input.format].label : 'Mermaid'} ERD for schema "${options.input.schema}"...`,
         };
     }
 }
 
 export class GenerateErdJsonTool implements vscode.LanguageModelTool<IGenerateErdJsonParams> {
-    constructor(private mcpClient: McpClient) {}
+    constructor(private mcpClient: McpClient, private schemaCache: SchemaCache) {}
 
     async invoke(
         options: vscode.LanguageModelToolInvocationOptions<IGenerateErdJsonParams>,
-        _token: vscode.CancellationToken
+        token: vscode.CancellationToken
     ) {
         const params = options.input;
         
@@ -251,14 +337,10 @@ export class GenerateErdJsonTool implements vscode.LanguageModelTool<IGenerateEr
                 await this.mcpClient.connect();
             }
 
-            const result = await this.mcpClient.json<GenerateErdJsonResponse>('generate_erd_json', {
-                schema: params.schema
-            });
+            const result = await this.schemaCache.generateErdJson(params.schema, token);
 
             const formattedResult = this.formatErdJson(result, params.schema);
-            return new vscode.LanguageModelToolResult([
-                new vscode.LanguageModelTextPart(formattedResult)
-            ]);
+            return budgetedToolResult(formattedResult, options, token);
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
             return new vscode.LanguageModelToolResult([
@@ -276,12 +358,9 @@ export class GenerateErdJsonTool implements vscode.LanguageModelTool<IGenerateEr
         };
     }
 
-    private formatErdJson(result: GenerateErdJsonResponse, schema: string): string {
-        let output = `## Entity Relationship Data for "${schema}"\n\n`;
-        
-        output += `### Tables (${result.tables.length})\n\n`;
-        for (const table of result.tables) {
-            output += `**${table.name}**\n`;
+    private formatErdJson(result: GenerateErdJsonResponse, schema: string): ToolOutput {
+        const items = rankedTableItems(result.tables, table => {
+            let output = `**${table.name}**\n`;
             output += `- Columns: ${table.columns.join(', ')}\n`;
             if (table.primary_keys.length > 0) {
                 output += `- Primary Keys: ${table.primary_keys.join(', ')}\n`;
@@ -292,17 +371,24 @@ export class GenerateErdJsonTool implements vscode.LanguageModelTool<IGenerateEr
                     output += `  - ${fk.column} → ${fk.references.table}.${fk.references.column}\n`;
                 }
             }
-            output += '\n';
-        }
+            return output + '\n';
+        });
 
+        // The relationships repeat the foreign keys above, so they are the first to go
         if (result.relationships.length > 0) {
-            output += `### Relationships (${result.relationships.length})\n\n`;
+            let output = `### Relationships (${result.relationships.length})\n\n`;
             for (const rel of result.relationships) {
                 output += `- **${rel.from_table}.${rel.from_column}** → **${rel.to_table}.${rel.to_column}**\n`;
             }
+            items.push({ name: 'the relationship list', text: output, priority: -1 });
         }
 
-        return output;
+        return {
+            header: `## Entity Relationship Data for "${schema}"\n\n### Tables (${result.tables.length})\n\n`,
+            items,
+            separator: '',
+            describeOmitted: omitted => describeOmittedTables(omitted, result.tables.length)
+        };
     }
 }
 
@@ -311,7 +397,7 @@ export class FuzzyColumnMatchTool implements vscode.LanguageModelTool<IFuzzyColu
 
     async invoke(
         options: vscode.LanguageModelToolInvocationOptions<IFuzzyColumnMatchParams>,
-        _token: vscode.CancellationToken
+        token: vscode.CancellationToken
     ) {
         const params = options.input;
         
@@ -324,12 +410,10 @@ export class FuzzyColumnMatchTool implements vscode.LanguageModelTool<IFuzzyColu
                 schema: params.schema,
                 table: params.table,
                 keyword: params.keyword
-            });
+            }, { token });
 
             const formattedResult = this.formatFuzzyMatch(result, params);
-            return new vscode.LanguageModelToolResult([
-                new vscode.LanguageModelTextPart(formattedResult)
-            ]);
+            return budgetedToolResult(formattedResult, options, token);
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
             return new vscode.LanguageModelToolResult([
@@ -347,7 +431,7 @@ export class FuzzyColumnMatchTool implements vscode.LanguageModelTool<IFuzzyColu
         };
     }
 
-    private formatFuzzyMatch(result: FuzzyColumnMatchResponse, params: IFuzzyColumnMatchParams): string {
+    private formatFuzzyMatch(result: FuzzyColumnMatchResponse, params: IFuzzyColumnMatchParams): ToolOutput {
         let output = `## Column Search Results for "${params.keyword}" in ${params.schema}.${params.table}\n\n`;
         
         if (result.best_match) {
@@ -356,19 +440,20 @@ export class FuzzyColumnMatchTool implements vscode.LanguageModelTool<IFuzzyColu
             output += `### No good matches found\n\n`;
         }
 
-        if (result.all_matches.length > 0) {
-            output += `### All Matches:\n\n`;
-            output += `| Column | Similarity | Comment |\n`;
-            output += `| --- | --- | --- |\n`;
-            
-            for (const match of result.all_matches) {
-                const similarity = Math.round(match.similarity * 100);
-                const comment = match.comment || '';
-                output += `| **${match.column}** | ${similarity}% | ${comment} |\n`;
-            }
+        if (result.all_matches.length === 0) {
+            return textToolOutput(output);
         }
 
-        return output;
+        output += `### All Matches:\n\n`;
+        output += `| Column | Similarity | Comment |\n`;
+        output += `| --- | --- | --- |\n`;
+
+        const rows = result.all_matches.map(match => {
+            const similarity = Math.round(match.similarity * 100);
+            const comment = match.comment || '';
+            return { name: match.column, text: `| **${match.column}** | ${similarity}% | ${comment} |\n` };
+        });
+        return { ...listOutput(output, rows, 'matches', 'Search with a more specific keyword.'), separator: '' };
     }
 }
 
@@ -377,7 +462,7 @@ export class SampleColumnDataTool implements vscode.LanguageModelTool<ISampleCol
 
     async invoke(
         options: vscode.LanguageModelToolInvocationOptions<ISampleColumnDataParams>,
-        _token: vscode.CancellationToken
+        token: vscode.CancellationToken
     ) {
         const params = options.input;
         
@@ -391,12 +476,10 @@ export class SampleColumnDataTool implements vscode.LanguageModelTool<ISampleCol
                 table: params.table,
                 column: params.column,
                 limit: params.limit || 10
-            });
+            }, { token });
 
             const formattedResult = this.formatSampleData(result, params);
-            return new vscode.LanguageModelToolResult([
-                new vscode.LanguageModelTextPart(formattedResult)
-            ]);
+            return budgetedToolResult(formattedResult, options, token);
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
             return new vscode.LanguageModelToolResult([
@@ -415,30 +498,29 @@ export class SampleColumnDataTool implements vscode.LanguageModelTool<ISampleCol
         };
     }
 
-    private formatSampleData(result: SampleColumnDataResponse, params: ISampleColumnDataParams): string {
+    private formatSampleData(result: SampleColumnDataResponse, params: ISampleColumnDataParams): ToolOutput {
         const limit = params.limit || 10;
         let output = `## Sample Data from ${params.schema}.${params.table}.${params.column}\n\n`;
         
         if (result.values.length === 0) {
-            output += 'No data found in this column.';
-        } else {
-            output += `Showing ${Math.min(result.values.length, limit)} sample values:\n\n`;
-            result.values.slice(0, limit).forEach((value, index) => {
-                const displayValue = value === null ? '*NULL*' : String(value);
-                output += `${index + 1}. \`${displayValue}\`\n`;
-            });
+            return textToolOutput(output + 'No data found in this column.');
         }
 
-        return output;
+        output += `Showing ${Math.min(result.values.length, limit)} sample values:\n\n`;
+        const values = result.values.slice(0, limit).map((value, index) => {
+            const displayValue = value === null ? '*NULL*' : String(value);
+            return { name: `value ${index + 1}`, text: `${index + 1}. \`${displayValue}\`\n` };
+        });
+        return { ...listOutput(output, values, 'values', 'Ask for fewer values with a smaller limit.'), separator: '' };
     }
 }
 
 export class FindRelatedTablesTool implements vscode.LanguageModelTool<IFindRelatedTablesParams> {
-    constructor(private mcpClient: McpClient) {}
+    constructor(private mcpClient: McpClient, private schemaCache: SchemaCache) {}
 
     async invoke(
         options: vscode.LanguageModelToolInvocationOptions<IFindRelatedTablesParams>,
-        _token: vscode.CancellationToken
+        token: vscode.CancellationToken
     ) {
         const params = options.input;
         
@@ -447,15 +529,10 @@ export class FindRelatedTablesTool implements vscode.LanguageModelTool<IFindRela
                 await this.mcpClient.connect();
             }
 
-            const result = await this.mcpClient.json<FindRelatedTablesResponse>('find_related_tables', {
-                schema: params.schema,
-                table: params.table
-            });
+            const result = await this.schemaCache.findRelatedTables(params.schema, params.table, token);
 
             const formattedResult = this.formatRelatedTables(result, params);
-            return new vscode.LanguageModelToolResult([
-                new vscode.LanguageModelTextPart(formattedResult)
-            ]);
+            return budgetedToolResult(formattedResult, options, token);
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
             return new vscode.LanguageModelToolResult([
@@ -473,22 +550,22 @@ export class FindRelatedTablesTool implements vscode.LanguageModelTool<IFindRela
         };
     }
 
-    private formatRelatedTables(result: FindRelatedTablesResponse, params: IFindRelatedTablesParams): string {
+    private formatRelatedTables(result: FindRelatedTablesResponse, params: IFindRelatedTablesParams): ToolOutput {
         let output = `## Related Tables for ${params.schema}.${params.table}\n\n`;
         
         if (result.related_tables.length === 0) {
-            output += 'No related tables found through foreign key relationships.';
-        } else {
-            output += `Found ${result.related_tables.length} related tables:\n\n`;
-            output += `| Related Table | Foreign Key | Primary Key |\n`;
-            output += `| --- | --- | --- |\n`;
-            
-            for (const related of result.related_tables) {
-                output += `| **${related.schema}.${related.table}** | ${related.fk_column} | ${related.pk_column} |\n`;
-            }
+            return textToolOutput(output + 'No related tables found through foreign key relationships.');
         }
 
-        return output;
+        output += `Found ${result.related_tables.length} related tables:\n\n`;
+        output += `| Related Table | Foreign Key | Primary Key |\n`;
+        output += `| --- | --- | --- |\n`;
+
+        const rows = result.related_tables.map(related => ({
+            name: `${related.schema}.${related.table}`,
+            text: `| **${related.schema}.${related.table}** | ${related.fk_column} | ${related.pk_column} |\n`
+        }));
+        return { ...listOutput(output, rows, 'related tables', 'Use postgresql_describeRelationship for a specific pair of tables.'), separator: '' };
     }
 }
 
@@ -497,7 +574,7 @@ export class DescribeRelationshipTool implements vscode.LanguageModelTool<IDescr
 
     async invoke(
         options: vscode.LanguageModelToolInvocationOptions<IDescribeRelationshipParams>,
-        _token: vscode.CancellationToken
+        token: vscode.CancellationToken
     ) {
         const params = options.input;
         
@@ -510,11 +587,12 @@ export class DescribeRelationshipTool implements vscode.LanguageModelTool<IDescr
                 schema: params.schema,
                 table1: params.table1,
                 table2: params.table2
-            });
+            }, { token });
 
-            return new vscode.LanguageModelToolResult([
-                new vscode.LanguageModelTextPart(`## Relationship between ${params.table1} and ${params.table2}\n\n${result.explanation}`)
-            ]);
+            return budgetedToolResult(textToolOutput(
+                `## Relationship between ${params.table1} and ${params.table2}\n\n${result.explanation}`,
+                'Use postgresql_findRelatedTables for the foreign keys of one table.'
+            ), options, token);
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
             return new vscode.LanguageModelToolResult([
@@ -533,30 +611,499 @@ export class DescribeRelationshipTool implements vscode.LanguageModelTool<IDescr
     }
 }
 
-export class RunQueryTool implements vscode.LanguageModelTool<IRunQueryParams> {
-    constructor(private mcpClient: McpClient) {}
+export class ListIndexesTool implements vscode.LanguageModelTool<IListIndexesParams> {
+    constructor(private mcpClient: McpClient, private catalog: CatalogIntrospector) {}
 
     async invoke(
-        options: vscode.LanguageModelToolInvocationOptions<IRunQueryParams>,
+        options: vscode.LanguageModelToolInvocationOptions<IListIndexesParams>,
+        token: vscode.CancellationToken
+    ) {
+        const params = options.input;
+        const target = params.table ? `${params.schema}.${params.table}` : params.schema;
+
+        try {
+            if (!this.mcpClient.isConnected()) {
+                await this.mcpClient.connect();
+            }
+
+            const result = await this.catalog.listIndexes(params.schema, params.table, token);
+
+            const formattedResult = this.formatIndexList(result, target);
+            return budgetedToolResult(formattedResult, options, token);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`❌ **Failed to list indexes for "${target}":** ${errorMessage}`)
+            ]);
+        }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<IListIndexesParams>,
         _token: vscode.CancellationToken
+    ) {
+        const { schema, table } = options.input;
+        return {
+            invocationMessage: table ? `Listing indexes on table "${schema}.${table}"...` : `Listing indexes in schema "${schema}"...`,
+        };
+    }
+
+    private formatIndexList(result: ListIndexesResponse, target: string): ToolOutput {
+        if (!result || !result.indexes || !Array.isArray(result.indexes)) {
+            console.warn('Invalid response structure for listIndexes:', result);
+            return textToolOutput(`No indexes found for "${target}" or invalid response structure.`);
+        }
+
+        if (result.indexes.length === 0) {
+            return textToolOutput(`No indexes found for "${target}".`);
+        }
+
+        const headerRow = `| Index | Table | Columns | Type | Unique |`;
+        const separatorRow = `| --- | --- | --- | --- | --- |`;
+
+        const dataRows = result.indexes.map(index => {
+            const unique = index.primary ? 'Primary key' : index.unique ? 'Yes' : 'No';
+            return { name: index.name, text: `| **${index.name}** | ${index.table ?? ''} | ${formatMarkdownCell(index.columns.join(', '))} | \`${index.type}\` | ${unique} |` };
+        });
+
+        return listOutput(
+            `## Indexes in ${target}\n\n${headerRow}\n${separatorRow}\n`,
+            dataRows,
+            'indexes',
+            'Call postgresql_listIndexes with a table to list the indexes of one table.'
+        );
+    }
+}
+
+export class ListViewsTool implements vscode.LanguageModelTool<IListViewsParams> {
+    constructor(private mcpClient: McpClient, private catalog: CatalogIntrospector) {}
+
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<IListViewsParams>,
+        token: vscode.CancellationToken
     ) {
         const params = options.input;
-        
+
         try {
             if (!this.mcpClient.isConnected()) {
                 await this.mcpClient.connect();
             }
 
-            const result = await this.mcpClient.json<RunQueryResponse>('run_query', {
-                query: params.query,
-                clientId: params.clientId
-            });
+            const result = await this.catalog.listViews(params.schema, token);
 
-            const formattedResult = this.formatQueryResult(result, params.query);
+            const formattedResult = this.formatViewList(result, params.schema);
+            return budgetedToolResult(formattedResult, options, token);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
             return new vscode.LanguageModelToolResult([
-                new vscode.LanguageModelTextPart(formattedResult)
+                new vscode.LanguageModelTextPart(`❌ **Failed to list views in schema "${params.schema}":** ${errorMessage}`)
             ]);
+        }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<IListViewsParams>,
+        _token: vscode.CancellationToken
+    ) {
+        return {
+            invocationMessage: `Listing views in schema "${options.input.schema}"...`,
+        };
+    }
+
+    private formatViewList(result: ListViewsResponse, schema: string): ToolOutput {
+        if (!result || !result.views || !Array.isArray(result.views)) {
+            console.warn('Invalid response structure for listViews:', result);
+            return textToolOutput(`No views found in schema "${schema}" or invalid response structure.`);
+        }
+
+        if (result.views.length === 0) {
+            return textToolOutput(`No views found in schema "${schema}".`);
+        }
+
+        const headerRow = `| View | Kind | Columns | Description |`;
+        const separatorRow = `| --- | --- | --- | --- |`;
+
+        const dataRows = result.views.map(view => {
+            const kind = view.materialized ? 'Materialized' : 'View';
+            return { name: view.name, text: `| **${view.name}** | ${kind} | ${formatMarkdownCell(view.columns.join(', '))} | ${formatMarkdownCell(view.description ?? '')} |` };
+        });
+
+        return listOutput(
+            `## Views in ${schema}\n\n${headerRow}\n${separatorRow}\n`,
+            dataRows,
+            'views',
+            'Use postgresql_listColumns for the columns of a specific view.'
+        );
+    }
+}
+
+export class ListFunctionsTool implements vscode.LanguageModelTool<IListFunctionsParams> {
+    constructor(private mcpClient: McpClient, private catalog: CatalogIntrospector) {}
+
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<IListFunctionsParams>,
+        token: vscode.CancellationToken
+    ) {
+        const params = options.input;
+
+        try {
+            if (!this.mcpClient.isConnected()) {
+                await this.mcpClient.connect();
+            }
+
+            const result = await this.catalog.listFunctions(params.schema, token);
+
+            const formattedResult = this.formatFunctionList(result, params.schema);
+            return budgetedToolResult(formattedResult, options, token);
         } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`❌ **Failed to list functions in schema "${params.schema}":** ${errorMessage}`)
+            ]);
+        }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<IListFunctionsParams>,
+        _token: vscode.CancellationToken
+    ) {
+        return {
+            invocationMessage: `Listing functions in schema "${options.input.schema}"...`,
+        };
+    }
+
+    private formatFunctionList(result: ListFunctionsResponse, schema: string): ToolOutput {
+        if (!result || !result.functions || !Array.isArray(result.functions)) {
+            console.warn('Invalid response structure for listFunctions:', result);
+            return textToolOutput(`No functions found in schema "${schema}" or invalid response structure.`);
+        }
+
+        if (result.functions.length === 0) {
+            return textToolOutput(`No functions found in schema "${schema}".`);
+        }
+
+        const headerRow = `| Function | Kind | Arguments | Returns |`;
+        const separatorRow = `| --- | --- | --- | --- |`;
+
+        const dataRows = result.functions.map(fn => {
+            return { name: fn.name, text: `| **${fn.name}** | ${fn.kind ?? 'function'} | ${formatMarkdownCell(formatParameters(fn.parameters))} | \`${fn.returnType}\` |` };
+        });
+
+        return listOutput(
+            `## Functions in ${schema}\n\n${headerRow}\n${separatorRow}\n`,
+            dataRows,
+            'functions',
+            'Use postgresql_describeFunction for the details of a specific function.'
+        );
+    }
+}
+
+export class DescribeFunctionTool implements vscode.LanguageModelTool<IDescribeFunctionParams> {
+    constructor(private mcpClient: McpClient, private catalog: CatalogIntrospector) {}
+
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<IDescribeFunctionParams>,
+        token: vscode.CancellationToken
+    ) {
+        const params = options.input;
+
+        try {
+            if (!this.mcpClient.isConnected()) {
+                await this.mcpClient.connect();
+            }
+
+            const result = await this.catalog.describeFunction(params.schema, params.name, token);
+
+            const formattedResult = this.formatFunctionDetails(result, params.schema, params.name);
+            return budgetedToolResult(formattedResult, options, token);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`❌ **Failed to describe function "${params.schema}.${params.name}":** ${errorMessage}`)
+            ]);
+        }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<IDescribeFunctionParams>,
+        _token: vscode.CancellationToken
+    ) {
+        return {
+            invocationMessage: `Describing function "${options.input.schema}.${options.input.name}"...`,
+        };
+    }
+
+    private formatFunctionDetails(result: DescribeFunctionResponse, schema: string, name: string): ToolOutput {
+        if (!result || !result.functions || !Array.isArray(result.functions)) {
+            console.warn('Invalid response structure for describeFunction:', result);
+            return textToolOutput(`Function "${schema}.${name}" not found or invalid response structure.`);
+        }
+
+        if (result.functions.length === 0) {
+            return textToolOutput(`Function "${schema}.${name}" not found.`);
+        }
+
+        const details = result.functions.map(fn => {
+            let output = `## ${fn.kind ?? 'function'} ${schema}.${fn.name}(${formatParameters(fn.parameters)})\n\n`;
+            output += `- Returns: \`${fn.returnType}\`\n`;
+            output += `- Language: ${fn.language}\n`;
+            output += `- Volatility: ${fn.volatility}\n`;
+            output += `- Security: ${fn.securityDefiner ? 'definer' : 'invoker'}\n`;
+            if (fn.description) {
+                output += `- Description: ${fn.description}\n`;
+            }
+
+            if (fn.parameters.length > 0) {
+                output += `\n| Parameter | Type | Mode | Default |\n| --- | --- | --- | --- |\n`;
+                for (const parameter of fn.parameters) {
+                    const defaultValue = parameter.defaultValue !== undefined ? formatMarkdownCell(String(parameter.defaultValue)) : '';
+                    output += `| **${parameter.name}** | \`${parameter.type}\` | ${parameter.mode ?? 'in'} | ${defaultValue} |\n`;
+                }
+            }
+
+            if (fn.definition) {
+                output += `\n\`\`\`sql\n${fn.definition.trim()}\n\`\`\`\n`;
+            }
+            return output;
+        }).join('\n');
+
+        // Long definitions are cut from the end; the signature and attributes come first
+        return textToolOutput(details, 'Run `SELECT pg_get_functiondef(oid) FROM pg_proc ...` with postgresql_runQuery and substring() to read the rest of a definition.');
+    }
+}
+
+export class ListConstraintsTool implements vscode.LanguageModelTool<IListConstraintsParams> {
+    constructor(private mcpClient: McpClient, private catalog: CatalogIntrospector) {}
+
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<IListConstraintsParams>,
+        token: vscode.CancellationToken
+    ) {
+        const params = options.input;
+        const target = params.table ? `${params.schema}.${params.table}` : params.schema;
+
+        try {
+            if (!this.mcpClient.isConnected()) {
+                await this.mcpClient.connect();
+            }
+
+            const result = await this.catalog.listConstraints(params.schema, params.table, token);
+
+            const formattedResult = this.formatConstraintList(result, target);
+            return budgetedToolResult(formattedResult, options, token);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`❌ **Failed to list constraints for "${target}":** ${errorMessage}`)
+            ]);
+        }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<IListConstraintsParams>,
+        _token: vscode.CancellationToken
+    ) {
+        const { schema, table } = options.input;
+        return {
+            invocationMessage: table ? `Listing constraints on table "${schema}.${table}"...` : `Listing constraints in schema "${schema}"...`,
+        };
+    }
+
+    private formatConstraintList(result: ListConstraintsResponse, target: string): ToolOutput {
+        if (!result || !result.constraints || !Array.isArray(result.constraints)) {
+            console.warn('Invalid response structure for listConstraints:', result);
+            return textToolOutput(`No constraints found for "${target}" or invalid response structure.`);
+        }
+
+        if (result.constraints.length === 0) {
+            return textToolOutput(`No check, unique or exclusion constraints found for "${target}".`);
+        }
+
+        const headerRow = `| Constraint | Table | Type | Columns | Definition |`;
+        const separatorRow = `| --- | --- | --- | --- | --- |`;
+
+        const dataRows = result.constraints.map(constraint => {
+            const type = constraint.deferrable ? `${constraint.type} (deferrable)` : constraint.type;
+            return { name: constraint.name, text: `| **${constraint.name}** | ${constraint.table} | ${type} | ${formatMarkdownCell(constraint.columns.join(', '))} | \`${formatMarkdownCell(constraint.definition, 200)}\` |` };
+        });
+
+        return listOutput(
+            `## Constraints in ${target}\n\n${headerRow}\n${separatorRow}\n`,
+            dataRows,
+            'constraints',
+            'Call postgresql_listConstraints with a table to list the constraints of one table.'
+        );
+    }
+}
+
+export class DescribeSchemaTool implements vscode.LanguageModelTool<IDescribeSchemaParams> {
+    constructor(private mcpClient: McpClient, private catalog: CatalogIntrospector) {}
+
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<IDescribeSchemaParams>,
+        token: vscode.CancellationToken
+    ) {
+        const params = options.input;
+
+        try {
+            if (!this.mcpClient.isConnected()) {
+                await this.mcpClient.connect();
+            }
+
+            const result = await this.catalog.describeSchema(params.schema, token);
+
+            const formattedResult = this.formatSchema(result, params.schema);
+            return budgetedToolResult(formattedResult, options, token);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`❌ **Failed to describe schema "${params.schema}":** ${errorMessage}`)
+            ]);
+        }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<IDescribeSchemaParams>,
+        _token: vscode.CancellationToken
+    ) {
+        return {
+            invocationMessage: `Describing schema "${options.input.schema}"...`,
+        };
+    }
+
+    private formatSchema(result: DescribeSchemaResponse, schema: string): ToolOutput {
+        const items = rankedTableItems(result.tables, table => {
+            let output = `**${table.name}**\n`;
+            output += `- Columns: ${table.columns.join(', ')}\n`;
+            if (table.primary_keys.length > 0) {
+                output += `- Primary Keys: ${table.primary_keys.join(', ')}\n`;
+            }
+            for (const fk of table.foreign_keys) {
+                output += `- ${fk.column} → ${fk.references.table}.${fk.references.column}\n`;
+            }
+            return output + '\n';
+        });
+
+        // Views and functions go before the least connected tables
+        if (result.views.length > 0) {
+            let output = `### Views (${result.views.length})\n\n`;
+            for (const view of result.views) {
+                output += `- **${view.name}**: ${view.columns.join(', ')}\n`;
+            }
+            items.push({ name: 'the view list (postgresql_listViews)', text: output + '\n', priority: -1 });
+        }
+
+        const functions = result.functions ?? [];
+        if (functions.length > 0) {
+            let output = `### Functions (${functions.length})\n\n`;
+            for (const fn of functions) {
+                output += `- **${fn.name}**(${formatParameters(fn.parameters)}) → \`${fn.returnType}\`\n`;
+            }
+            items.push({ name: 'the function list (postgresql_listFunctions)', text: output, priority: -2 });
+        }
+
+        return {
+            header: `## Schema "${schema}"\n\n### Tables (${result.tables.length})\n\n`,
+            items,
+            separator: '',
+            describeOmitted: omitted => describeOmittedTables(omitted, result.tables.length)
+        };
+    }
+}
+
+/** Function signature arguments, e.g. `id integer, OUT total numeric` */
+function formatParameters(parameters: FunctionParameter[]): string {
+    return parameters.map(parameter => {
+        const mode = parameter.mode && parameter.mode !== 'in' ? `${parameter.mode.toUpperCase()} ` : '';
+        return `${mode}${parameter.name} ${parameter.type}`.trim();
+    }).join(', ');
+}
+
+/** Lines of a list or rows of a markdown table, cut from the end when they do not fit */
+function listOutput(header: string, items: ToolOutputItem[], noun: string, hint: string): ToolOutput {
+    return {
+        header,
+        items,
+        describeOmitted: omitted => `${omitted.length} of ${items.length} ${noun} were left out to fit the context window: ${listOmittedNames(omitted)}. ${hint}`
+    };
+}
+
+/**
+ * One item per table, ranked by its foreign keys in both directions, so the
+ * best connected tables are the last to be left out
+ */
+function rankedTableItems(tables: TableInfo[], format: (table: TableInfo) => string): ToolOutputItem[] {
+    const relationships = new Map<string, number>();
+    for (const table of tables) {
+        relationships.set(table.name, (relationships.get(table.name) ?? 0) + table.foreign_keys.length);
+        for (const fk of table.foreign_keys) {
+            relationships.set(fk.references.table, (relationships.get(fk.references.table) ?? 0) + 1);
+        }
+    }
+    return tables.map(table => ({ name: table.name, text: format(table), priority: relationships.get(table.name) ?? 0 }));
+}
+
+function describeOmittedTables(omitted: ToolOutputItem[], tableCount: number): string {
+    const tables = omitted.filter(item => item.priority === undefined || item.priority >= 0);
+    const others = omitted.filter(item => !tables.includes(item));
+    const parts: string[] = [];
+    if (tables.length > 0) {
+        parts.push(`${tables.length} of ${tableCount} tables, those with the fewest relationships, were left out to fit the context window: ${listOmittedNames(tables)}. ` +
+            'Use postgresql_listColumns or postgresql_findRelatedTables for the ones you need.');
+    }
+    if (others.length > 0) {
+        parts.push(`Also left out: ${others.map(item => item.name).join(', ')}.`);
+    }
+    return parts.join(' ');
+}
+
+export class RunQueryTool implements vscode.LanguageModelTool<IRunQueryParams> {
+    constructor(private mcpClient: McpClient, private queryExecutor: QueryExecutor, private auditLog: AuditLog) {}
+
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<IRunQueryParams>,
+        token: vscode.CancellationToken
+    ) {
+        const params = options.input;
+        this.auditLog.confirmationResolved('postgresql_runQuery', { ...params }, true);
+
+        const report = analyzeSql(params.query);
+        if (isReadOnlyMode(this.mcpClient) && !report.readOnly) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(
+                    `❌ **Query blocked by read-only mode:** only read-only statements (SELECT, SHOW, EXPLAIN, ...) may run against profile "${this.mcpClient.getActiveProfile().name}".\n\n` +
+                    `${formatRiskReport(report)}\n**Query:**\n\`\`\`sql\n${params.query}\n\`\`\``
+                )
+            ]);
+        }
+        
+        try {
+            if (!this.mcpClient.isConnected()) {
+                await this.mcpClient.connect();
+            }
+
+            const { stored, page } = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Window,
+                title: 'Running PostgreSQL query'
+            }, progress => this.queryExecutor.execute(params.query, {
+                clientId: params.clientId,
+                limit: params.limit,
+                offset: params.offset,
+                token,
+                onProgress: update => progress.report({ message: describeProgress(update) })
+            }));
+
+            const formattedResult = this.formatQueryResult(stored.result, params.query, stored.id, page);
+            if (!page && (params.limit !== undefined || params.offset !== undefined)) {
+                formattedResult.footer = `${formattedResult.footer ?? ''}\n\n*\`limit\` and \`offset\` only apply to a single SELECT, VALUES or TABLE statement and were ignored.*`;
+            }
+            return budgetedToolResult(formattedResult, options, token);
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                return new vscode.LanguageModelToolResult([
+                    new vscode.LanguageModelTextPart(`⏹️ **Query cancelled.** The MCP server was asked to stop it.\n\n**Query:**\n\`\`\`sql\n${params.query}\n\`\`\``)
+                ]);
+            }
             const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
             return new vscode.LanguageModelToolResult([
                 new vscode.LanguageModelTextPart(`❌ **Query execution failed:** ${errorMessage}\n\n**Query:**\n\`\`\`sql\n${params.query}\n\`\`\``)
@@ -568,21 +1115,27 @@ export class RunQueryTool implements vscode.LanguageModelTool<IRunQueryParams> {
         options: vscode.LanguageModelToolInvocationPrepareOptions<IRunQueryParams>,
         _token: vscode.CancellationToken
     ) {
-        const query = options.input.query.toLowerCase();
-        const isDestructive = ['delete', 'drop', 'truncate', 'update', 'insert', 'alter', 'create'].some(
-            keyword => query.includes(keyword)
-        );
+        const report = analyzeSql(options.input.query);
+
+        if (isReadOnlyMode(this.mcpClient) && !report.readOnly) {
+            // invoke() refuses the query, so there is nothing to confirm
+            return {
+                invocationMessage: 'Query blocked by read-only mode',
+            };
+        }
 
-        if (isDestructive) {
+        if (!report.readOnly) {
             const confirmationMessages = {
                 title: 'Execute PostgreSQL Query',
                 message: new vscode.MarkdownString(
                     `⚠️ This query may modify or delete data.\n\n` +
+                    `${formatRiskReport(report)}\n` +
                     `**Query:**\n\`\`\`sql\n${options.input.query}\n\`\`\`\n\n` +
                     `Do you want to proceed?`
                 ),
             };
 
+            this.auditLog.confirmationRequested('postgresql_runQuery', { ...options.input });
             return {
                 invocationMessage: 'Executing PostgreSQL query...',
                 confirmationMessages,
@@ -594,43 +1147,293 @@ export class RunQueryTool implements vscode.LanguageModelTool<IRunQueryParams> {
         };
     }
 
-    private formatQueryResult(result: RunQueryResponse, query: string): string {
+    private formatQueryResult(result: RunQueryResponse, query: string, resultId: number, page?: QueryPage): ToolOutput {
         let output = `## Query Results\n\n`;
         output += `**Query:**\n\`\`\`sql\n${query}\n\`\`\`\n\n`;
         
-        output += `**Results:** ${result.rowCount} rows returned`;
-        if (result.wasLimited) {
-            output += ` (limited from ${result.totalRowCount} total rows)`;
+        if (page) {
+            output += `**Results:** ${describePage(page, result.rowCount)}`;
+        } else {
+            output += `**Results:** ${result.rowCount} rows returned`;
+            if (result.wasLimited) {
+                output += ` (limited from ${result.totalRowCount} total rows)`;
+            }
         }
         output += '\n\n';
 
         if (result.rows.length === 0) {
-            output += 'No rows returned.';
-            return output;
+            return textToolOutput(output + 'No rows returned.');
         }
 
-        // Create markdown table
+        output += `**Columns:** ${result.fields.map(field => `${field.name} (${pgTypeName(field.dataTypeID)})`).join(', ')}\n\n`;
+
+        // Compact markdown preview; wide or long values are shortened
         const headers = result.fields.map(field => field.name);
-        const headerRow = `| ${headers.join(' | ')} |`;
+        const headerRow = `| ${headers.map(header => header.replace(/\|/g, '\\|')).join(' | ')} |`;
         const separatorRow = `| ${headers.map(() => '---').join(' | ')} |`;
         
-        const dataRows = result.rows.map(row => {
-            const cells = headers.map(header => {
-                const value = row[header];
-                if (value === null || value === undefined) {
-                    return '*NULL*';
-                }
-                return String(value);
-            });
-            return `| ${cells.join(' | ')} |`;
+        const dataRows = result.rows.slice(0, QUERY_PREVIEW_ROWS).map((row, index) => ({
+            name: `row ${index + 1}`,
+            text: `| ${headers.map(header => formatMarkdownCell(row[header])).join(' | ')} |`
+        }));
+
+        let footer = '';
+        if (result.rows.length > QUERY_PREVIEW_ROWS) {
+            footer += `\n\n*Showing first ${QUERY_PREVIEW_ROWS} rows of ${result.rows.length} total rows.*`;
+        }
+        footer += `\n\n*Full result available in the result grid (result #${resultId}).*`;
+        if (page?.hasMore) {
+            footer += `\n\n*More rows available: run the same query with offset ${nextPageOffset(page, result.rowCount)} for the next page.*`;
+        }
+
+        // When rows have to go, statistics over every row stand in for them
+        return {
+            header: `${output}${headerRow}\n${separatorRow}\n`,
+            items: dataRows,
+            footer,
+            summary: `**Column statistics over all ${result.rows.length} rows:**\n\n${formatColumnStatistics(result)}`,
+            describeOmitted: omitted => `${omitted.length} of ${dataRows.length} preview rows were left out to fit the context window; the column statistics cover every row. ` +
+                'To see specific rows, select fewer or narrower columns, aggregate in SQL, or pass a smaller `limit`.'
+        };
+    }
+}
+
+export class ExplainQueryTool implements vscode.LanguageModelTool<IExplainQueryParams> {
+    constructor(
+        private mcpClient: McpClient,
+        private queryExecutor: QueryExecutor,
+        private planStore: ExplainPlanStore,
+        private auditLog: AuditLog
+    ) {}
+
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<IExplainQueryParams>,
+        token: vscode.CancellationToken
+    ) {
+        const params = options.input;
+        this.auditLog.confirmationResolved('postgresql_explainQuery', { ...params }, true);
+
+        const report = analyzeSql(params.query);
+        const inputError = this.validateQuery(report);
+        if (inputError) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`❌ **Cannot explain query:** ${inputError}\n\n**Query:**\n\`\`\`sql\n${params.query}\n\`\`\``)
+            ]);
+        }
+
+        // EXPLAIN ANALYZE executes the statement, so it is subject to read-only mode
+        if (params.analyze && !report.readOnly && isReadOnlyMode(this.mcpClient)) {
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(
+                    `❌ **EXPLAIN ANALYZE blocked by read-only mode:** it would execute a statement that is not read-only against profile "${this.mcpClient.getActiveProfile().name}". ` +
+                    `Run it without \`analyze\` to see the estimated plan.\n\n${formatRiskReport(report)}`
+                )
+            ]);
+        }
+
+        try {
+            if (!this.mcpClient.isConnected()) {
+                await this.mcpClient.connect();
+            }
+
+            // Through the executor, so the EXPLAIN is in the query history and DDL run by ANALYZE refreshes the schema cache
+            const { stored: executed } = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Window,
+                title: params.analyze ? 'Running EXPLAIN ANALYZE' : 'Running EXPLAIN'
+            }, progress => this.queryExecutor.execute(this.buildExplainSql(report.statements[0].text, params), {
+                clientId: params.clientId,
+                token,
+                onProgress: update => progress.report({ message: describeProgress(update) })
+            }));
+
+            const plan = parseExplainResult(executed.result);
+            const stored = this.planStore.add(params.query, plan, this.mcpClient.getActiveProfile().name);
+
+            const formattedResult: ToolOutput = {
+                ...textToolOutput(formatPlanReport(analyzePlan(plan), params.query), `The whole plan is in the plan viewer (plan #${stored.id}).`),
+                footer: `\n*Interactive plan available in the plan viewer (plan #${stored.id}).*`
+            };
+            return budgetedToolResult(formattedResult, options, token);
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                return new vscode.LanguageModelToolResult([
+                    new vscode.LanguageModelTextPart(`⏹️ **EXPLAIN cancelled.** The MCP server was asked to stop it.`)
+                ]);
+            }
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(`❌ **EXPLAIN failed:** ${errorMessage}\n\n**Query:**\n\`\`\`sql\n${params.query}\n\`\`\``)
+            ]);
+        }
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<IExplainQueryParams>,
+        _token: vscode.CancellationToken
+    ) {
+        if (!options.input.analyze) {
+            return {
+                invocationMessage: 'Explaining PostgreSQL query plan...',
+            };
+        }
+
+        const report = analyzeSql(options.input.query);
+        if (this.validateQuery(report) || (!report.readOnly && isReadOnlyMode(this.mcpClient))) {
+            // invoke() refuses the query, so there is nothing to confirm
+            return {
+                invocationMessage: 'EXPLAIN ANALYZE refused',
+            };
+        }
+
+        const warning = report.readOnly ?
+            'EXPLAIN ANALYZE executes the query to measure actual timings and row counts.' :
+            `⚠️ EXPLAIN ANALYZE executes the query, and this query may modify or delete data.\n\n${formatRiskReport(report)}`;
+
+        this.auditLog.confirmationRequested('postgresql_explainQuery', { ...options.input });
+
+        return {
+            invocationMessage: 'Running EXPLAIN ANALYZE...',
+            confirmationMessages: {
+                title: 'Run EXPLAIN ANALYZE',
+                message: new vscode.MarkdownString(
+                    `${warning}\n\n` +
+                    `**Query:**\n\`\`\`sql\n${options.input.query}\n\`\`\`\n\n` +
+                    `Do you want to proceed?`
+                ),
+            },
+        };
+    }
+
+    /** Reason the query cannot be explained, if any */
+    private validateQuery(report: SqlRiskReport): string | undefined {
+        if (report.statements.length === 0) {
+            return 'the query is empty.';
+        }
+        if (report.statements.length > 1) {
+            return 'EXPLAIN accepts a single statement.';
+        }
+        if (report.statements[0].kind === 'explain') {
+            return 'pass the statement itself, without EXPLAIN.';
+        }
+        return undefined;
+    }
+
+    private buildExplainSql(statement: string, params: IExplainQueryParams): string {
+        const explainOptions = ['FORMAT JSON'];
+        if (params.analyze) {
+            explainOptions.push('ANALYZE');
+            if (params.buffers) {
+                explainOptions.push('BUFFERS');
+            }
+        }
+        return `EXPLAIN (${explainOptions.join(', ')}) ${statement}`;
+    }
+}
+
+export class SearchQueryHistoryTool implements vscode.LanguageModelTool<ISearchQueryHistoryParams> {
+    constructor(private historyStore: QueryHistoryStore) {}
+
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<ISearchQueryHistoryParams>,
+        token: vscode.CancellationToken
+    ) {
+        const params = options.input;
+        const search = {
+            text: params.text,
+            tags: params.tags,
+            profile: params.profile,
+            includeFailed: params.includeFailed,
+            limit: params.limit
+        };
+
+        const savedQueries = this.historyStore.searchSavedQueries(search);
+        const history = this.historyStore.searchHistory(search);
+        return budgetedToolResult(this.formatMatches(savedQueries, history, params), options, token);
+    }
+
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<ISearchQueryHistoryParams>,
+        _token: vscode.CancellationToken
+    ) {
+        return {
+            invocationMessage: options.input.text ? `Searching query history for "${options.input.text}"...` : 'Searching query history...',
+        };
+    }
+
+    private formatMatches(savedQueries: SavedQuery[], history: QueryHistoryEntry[], params: ISearchQueryHistoryParams): ToolOutput {
+        const target = params.text ? ` matching "${params.text}"` : '';
+        if (savedQueries.length === 0 && history.length === 0) {
+            return textToolOutput(`No saved queries or query history found${target}.`);
+        }
+
+        // Saved queries first, then executions newest first; each section's heading goes with its first entry
+        const items: ToolOutputItem[] = [];
+        savedQueries.forEach((saved, index) => {
+            let output = index === 0 ? `### Saved Queries (${savedQueries.length})\n\n` : '';
+            output += `**${saved.name}**`;
+            if (saved.tags.length > 0) {
+                output += ` (tags: ${saved.tags.join(', ')})`;
+            }
+            output += '\n';
+            if (saved.parameters.length > 0) {
+                output += `- Parameters: ${saved.parameters.map(parameter => `\`\${${parameter.name}}\`${parameter.description ? ` ${parameter.description}` : ''}`).join(', ')}\n`;
+            }
+            output += `\`\`\`sql\n${saved.query}\n\`\`\`\n\n`;
+            items.push({ name: `saved query "${saved.name}"`, text: output });
         });
 
-        output += [headerRow, separatorRow, ...dataRows.slice(0, 50)].join('\n');
-        
-        if (result.rows.length > 50) {
-            output += `\n\n*Showing first 50 rows of ${result.rows.length} total rows*`;
+        history.forEach((entry, index) => {
+            let output = index === 0 ? `### Recent Executions (${history.length})\n\n` : '';
+            const outcome = entry.error ? `failed: ${entry.error}` : `${entry.rowCount ?? 0} rows`;
+            output += `**${entry.executedAt}** on profile "${entry.profile}" · ${outcome} · ${entry.durationMs} ms\n`;
+            output += `\`\`\`sql\n${entry.query}\n\`\`\`\n\n`;
+            items.push({ name: `execution of ${entry.executedAt}`, text: output });
+        });
+
+        return {
+            ...listOutput(`## Query History${target}\n\n`, items, 'entries', 'Narrow the search with text, tags or a smaller limit.'),
+            separator: ''
+        };
+    }
+}
+
+export class ReadResourceTool implements vscode.LanguageModelTool<IReadResourceParams> {
+    constructor(private mcpClient: McpClient) {}
+
+    async invoke(
+        options: vscode.LanguageModelToolInvocationOptions<IReadResourceParams>,
+        token: vscode.CancellationToken
+    ) {
+        const uri = options.input.uri?.trim();
+
+        try {
+            if (!this.mcpClient.isConnected()) {
+                await this.mcpClient.connect();
+            }
+
+            const output = uri ?
+                formatResourceContents(uri, await this.mcpClient.readResource(uri, token)) :
+                formatResourceList(await this.mcpClient.listResources());
+            return budgetedToolResult(textToolOutput(output, uri ?
+                'Read a narrower resource if the server offers one, e.g. one table instead of a whole schema.' :
+                'Read a specific resource by its URI.'
+            ), options, token);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            return new vscode.LanguageModelToolResult([
+                new vscode.LanguageModelTextPart(uri ?
+                    `❌ **Failed to read resource "${uri}":** ${errorMessage}` :
+                    `❌ **Failed to list MCP resources:** ${errorMessage}`)
+            ]);
         }
+    }
 
-        return output;
+    async prepareInvocation(
+        options: vscode.LanguageModelToolInvocationPrepareOptions<IReadResourceParams>,
+        _token: vscode.CancellationToken
+    ) {
+        return {
+            invocationMessage: options.input.uri ? `Reading resource "${options.input.uri}"...` : 'Listing MCP resources...',
+        };
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,208 @@
+import * as vscode from 'vscode';
+import {
+    BasePromptElementProps,
+    Chunk,
+    ITokenizer,
+    OutputMode,
+    PromptElement,
+    PromptMetadata,
+    Raw,
+    renderPrompt,
+    TextChunk,
+    UserMessage
+} from '@vscode/prompt-tsx';
+
+/** Token budget of a tool result when neither the caller nor the settings give one */
+const DEFAULT_TOKEN_BUDGET = 8000;
+/** Tokens kept free for the note about what was left out */
+const OMISSION_NOTE_TOKENS = 200;
+/** Rough characters per token, used when the caller cannot count tokens */
+const CHARS_PER_TOKEN = 4;
+/** Names listed in an omission note before the rest is counted */
+const MAX_OMITTED_NAMES = 25;
+/** Priority of the parts of a tool output that are never dropped */
+const ALWAYS_KEPT = Number.MAX_SAFE_INTEGER;
+
+/** A part of a tool's output that may be left out when the output does not fit, e.g. a row or a table */
+export interface ToolOutputItem {
+    /** How the item is named in the omission note, e.g. a table name or "row 12" */
+    name: string;
+    text: string;
+    /** Higher priorities are kept longer; by default earlier items are kept first */
+    priority?: number;
+}
+
+/** A tool's output split into the parts the token budget decides about */
+export interface ToolOutput {
+    /** Always kept, e.g. the heading and the header row of a table */
+    header: string;
+    items: ToolOutputItem[];
+    /** Text between two items (default: a newline) */
+    separator?: string;
+    /** Always kept, after the items */
+    footer?: string;
+    /** Shown after the items that were kept, e.g. column statistics; only used when items are dropped */
+    summary?: string;
+    /** Tell the model what was left out and how to get it */
+    describeOmitted(omitted: ToolOutputItem[]): string;
+}
+
+/** How many tokens a tool result may use and how to count them */
+export interface ToolOutputBudget {
+    tokenBudget: number;
+    countTokens(text: string, token?: vscode.CancellationToken): Thenable<number>;
+}
+
+/** Names of left-out items for an omission note, e.g. `a, b, c and 12 more` */
+export function listOmittedNames(items: ToolOutputItem[]): string {
+    const names = items.slice(0, MAX_OMITTED_NAMES).map(item => item.name);
+    const rest = items.length - names.length;
+    return rest > 0 ? `${names.join(', ')} and ${rest} more` : names.join(', ');
+}
+
+/** Marks an item that survived prioritization */
+class KeptItem extends PromptMetadata {
+    constructor(readonly index: number) {
+        super();
+    }
+}
+
+interface ToolOutputPromptProps extends BasePromptElementProps {
+    output: ToolOutput;
+}
+
+/**
+ * A tool output as a prompt: header, summary and footer always stay, the
+ * items are dropped lowest priority first until the rest fits the budget.
+ * Only the metadata of the rendered prompt is used, to learn which items
+ * survived; the text is put together by `composeOutput`.
+ */
+class ToolOutputPrompt extends PromptElement<ToolOutputPromptProps> {
+    render() {
+        const { output } = this.props;
+        return (
+            <UserMessage>
+                <TextChunk priority={ALWAYS_KEPT}>{output.header}</TextChunk>
+                {output.items.map((item, index) => (
+                    <Chunk priority={item.priority ?? output.items.length - index}>
+                        {item.text}
+                        <meta value={new KeptItem(index)} local />
+                    </Chunk>
+                ))}
+                {output.summary ? <TextChunk priority={ALWAYS_KEPT}>{output.summary}</TextChunk> : undefined}
+                {output.footer ? <TextChunk priority={ALWAYS_KEPT}>{output.footer}</TextChunk> : undefined}
+            </UserMessage>
+        );
+    }
+}
+
+/** Counts the text parts of a rendered tool output with the caller's tokenizer */
+class BudgetTokenizer implements ITokenizer<OutputMode.Raw> {
+    readonly mode = OutputMode.Raw;
+
+    constructor(private readonly budget: ToolOutputBudget) {}
+
+    async tokenLength(part: Raw.ChatCompletionContentPart, token?: vscode.CancellationToken): Promise<number> {
+        return part.type === Raw.ChatCompletionContentPartKind.Text ? this.budget.countTokens(part.text, token) : 0;
+    }
+
+    async countMessageTokens(message: Raw.ChatMessage): Promise<number> {
+        let total = 0;
+        for (const part of message.content) {
+            total += await this.tokenLength(part);
+        }
+        return total;
+    }
+}
+
+function composeOutput(output: ToolOutput, items: ToolOutputItem[], summary?: string): string {
+    let text = output.header + items.map(item => item.text).join(output.separator ?? '\n');
+    if (summary) {
+        text += `\n\n${summary}`;
+    }
+    return text + (output.footer ?? '');
+}
+
+/**
+ * Budget of a tool invocation: the caller's `tokenizationOptions` (the chat
+ * participant passes what is left of the model's context window), capped by
+ * the `toolsBridger.toolOutputTokenBudget` setting.
+ */
+export function toolOutputBudget(options: vscode.LanguageModelToolInvocationOptions<unknown>): ToolOutputBudget {
+    const maxTokens = vscode.workspace.getConfiguration('toolsBridger').get<number>('toolOutputTokenBudget', DEFAULT_TOKEN_BUDGET);
+    const tokenization = options.tokenizationOptions;
+    if (tokenization) {
+        return {
+            tokenBudget: Math.min(maxTokens, tokenization.tokenBudget),
+            countTokens: (text, token) => tokenization.countTokens(text, token)
+        };
+    }
+    return {
+        tokenBudget: maxTokens,
+        countTokens: async text => Math.ceil(text.length / CHARS_PER_TOKEN)
+    };
+}
+
+/**
+ * Render a tool output within a token budget. Output that fits is returned
+ * as is; otherwise items are dropped by priority, the summary takes their
+ * place and a note says what was left out.
+ */
+export async function fitToolOutput(output: ToolOutput, budget: ToolOutputBudget, token?: vscode.CancellationToken): Promise<string> {
+    const full = composeOutput(output, output.items);
+    if (output.items.length === 0 || await budget.countTokens(full, token) <= budget.tokenBudget) {
+        return full;
+    }
+
+    const contentBudget = Math.max(budget.tokenBudget - OMISSION_NOTE_TOKENS, 1);
+    let text: string | undefined;
+    let omitted = output.items;
+    try {
+        const { metadata } = await renderPrompt(
+            ToolOutputPrompt,
+            { output },
+            { modelMaxPromptTokens: contentBudget },
+            new BudgetTokenizer(budget),
+            undefined,
+            token
+        );
+        const kept = new Set(metadata.getAll(KeptItem).map(item => item.index));
+        omitted = output.items.filter((_, index) => !kept.has(index));
+        text = composeOutput(output, output.items.filter((_, index) => kept.has(index)), output.summary);
+    } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+            throw error;
+        }
+    }
+
+    if (text === undefined || await budget.countTokens(text, token) > contentBudget) {
+        // Even the parts that are always kept do not fit; cut the header itself
+        const maxLength = contentBudget * CHARS_PER_TOKEN;
+        text = output.header.length > maxLength ? `${output.header.slice(0, maxLength)}…` : output.header;
+        omitted = output.items;
+    }
+
+    return omitted.length > 0 ? `${text}\n\n*${output.describeOmitted(omitted)}*` : text;
+}
+
+/** Split plain text into lines that are dropped from the end, for outputs without more structure */
+export function textToolOutput(text: string, hint?: string): ToolOutput {
+    const [header, ...lines] = text.split('\n');
+    return {
+        header: lines.length > 0 ? `${header}\n` : header,
+        items: lines.map((line, index) => ({ name: `line ${index + 2}`, text: line })),
+        describeOmitted: omitted => `Output truncated to fit the context window: the last ${omitted.length} of ${lines.length + 1} lines were left out.${hint ? ` ${hint}` : ''}`
+    };
+}
+
+/** Fit a tool's output into the invocation's token budget and wrap it as a tool result */
+export async function budgetedToolResult(
+    output: ToolOutput,
+    options: vscode.LanguageModelToolInvocationOptions<unknown>,
+    token: vscode.CancellationToken
+): Promise<vscode.LanguageModelToolResult> {
+    const text = await fitToolOutput(output, toolOutputBudget(options), token);
+    return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(text)
+    ]);
+}
@@ -37,6 +37,8 @@ export interface IListColumnsParams {
 
 export interface IGenerateErdMermaidParams {
   schema: string;
+  /** Diagram language, Mermaid by default; other formats are rendered by the extension from the ERD JSON */
+  format?: 'mermaid' | 'dbml' | 'plantuml' | 'dot';
 }
 
 export interface IGenerateErdJsonParams {
@@ -70,8 +72,65 @@ export interface IDescribeRelationshipParams {
 export interface IRunQueryParams {
   query: string;
   clientId: string;
+  /** Rows per page; defaults to `toolsBridger.queryPageSize` */
+  limit?: number;
+  /** Rows to skip before the page */
+  offset?: number;
+}
+
+export interface IExplainQueryParams {
+  query: string;
+  /** Run EXPLAIN ANALYZE, which executes the query */
+  analyze?: boolean;
+  /** Include buffer usage (EXPLAIN ANALYZE only) */
+  buffers?: boolean;
+  clientId?: string;
+}
+
+export interface IListIndexesParams {
+  schema: string;
+  table?: string;
+}
+
+export interface IListViewsParams {
+  schema: string;
+}
+
+export interface IListFunctionsParams {
+  schema: string;
+}
+
+export interface IDescribeFunctionParams {
+  schema: string;
+  name: string;
+}
+
+export interface IListConstraintsParams {
+  schema: string;
+  table?: string;
 }
 
+export interface IDescribeSchemaParams {
+  schema: string;
+}
+
+export interface ISearchQueryHistoryParams {
+  /** Whitespace-separated terms that must all appear in the query text, name or tags */
+  text?: string;
+  tags?: string[];
+  profile?: string;
+  includeFailed?: boolean;
+  limit?: number;
+}
+
+export interface IReadResourceParams {
+  /** URI of the resource to read; omit to list the server's resources */
+  uri?: string;
+}
+
+// Input for tools discovered dynamically from the MCP server
+export type IMcpToolParams = Record<string, unknown>;
+
 // Response types for PostgreSQL MCP server
 export interface ListSchemasResponse {
   schemas: string[];
@@ -150,6 +209,46 @@ export interface DescribeRelationshipResponse {
   explanation: string;
 }
 
+export interface ListIndexesResponse {
+  indexes: IndexInfo[];
+}
+
+export interface ViewInfo {
+  name: string;
+  materialized: boolean;
+  columns: string[];
+  definition?: string;
+  description?: string;
+}
+
+export interface ListViewsResponse {
+  views: ViewInfo[];
+}
+
+export interface ListFunctionsResponse {
+  functions: FunctionInfo[];
+}
+
+export interface DescribeFunctionResponse {
+  /** All overloads with the requested name */
+  functions: FunctionDetails[];
+}
+
+export interface ConstraintInfo {
+  name: string;
+  table: string;
+  type: 'check' | 'unique' | 'exclusion';
+  columns: string[];
+  definition: string;
+  deferrable?: boolean;
+}
+
+export interface ListConstraintsResponse {
+  constraints: ConstraintInfo[];
+}
+
+export type DescribeSchemaResponse = DatabaseSchemaInfo;
+
 export interface QueryField {
   name: string;
   dataTypeID: number;
@@ -163,8 +262,63 @@ export interface RunQueryResponse {
   fields: QueryField[];
 }
 
+/** A node of the plan tree returned by EXPLAIN (FORMAT JSON) */
+export interface ExplainPlanNode {
+  'Node Type': string;
+  'Parent Relationship'?: string;
+  'Relation Name'?: string;
+  'Schema'?: string;
+  'Alias'?: string;
+  'Index Name'?: string;
+  'Join Type'?: string;
+  'Startup Cost': number;
+  'Total Cost': number;
+  'Plan Rows': number;
+  'Plan Width': number;
+  'Actual Startup Time'?: number;
+  'Actual Total Time'?: number;
+  'Actual Rows'?: number;
+  'Actual Loops'?: number;
+  'Filter'?: string;
+  'Index Cond'?: string;
+  'Hash Cond'?: string;
+  'Rows Removed by Filter'?: number;
+  'Shared Hit Blocks'?: number;
+  'Shared Read Blocks'?: number;
+  'Plans'?: ExplainPlanNode[];
+  [key: string]: unknown;
+}
+
+export interface ExplainPlan {
+  'Plan': ExplainPlanNode;
+  'Planning Time'?: number;
+  'Execution Time'?: number;
+}
+
+/** The "QUERY PLAN" value of EXPLAIN (FORMAT JSON) */
+export type ExplainQueryResponse = ExplainPlan[];
+
+/** Position of a paged query result */
+export interface QueryPage {
+  /** The paged statement, without the LIMIT/OFFSET wrapper */
+  statement: string;
+  clientId: string;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+/** Last page of a query shown in a chat response, used by the next/previous page followups */
+export interface QueryCursor extends QueryPage {
+  query: string;
+  profile: string;
+  resultId: number;
+  rowCount: number;
+}
+
 export interface DatabaseToolMetadata {
   toolCallsMetadata: DatabaseToolCallsMetadata;
+  cursor?: QueryCursor;
 }
 
 export interface DatabaseToolCallsMetadata {
@@ -209,6 +363,9 @@ export interface IndexInfo {
   columns: string[];
   unique: boolean;
   type: string;
+  table?: string;
+  primary?: boolean;
+  definition?: string;
 }
 
 export interface FunctionInfo {
@@ -217,6 +374,15 @@ export interface FunctionInfo {
   parameters: FunctionParameter[];
   returnType: string;
   description?: string;
+  kind?: 'function' | 'procedure' | 'aggregate' | 'window';
+}
+
+export interface FunctionDetails extends FunctionInfo {
+  language: string;
+  volatility: 'immutable' | 'stable' | 'volatile';
+  securityDefiner: boolean;
+  /** CREATE FUNCTION statement; not available for aggregates */
+  definition?: string;
 }
 
 export interface FunctionParameter {
@@ -224,4 +390,5 @@ export interface FunctionParameter {
   type: string;
   defaultValue?: any;
   required: boolean;
+  mode?: 'in' | 'out' | 'inout' | 'variadic';
 } 
\ No newline at end of file